@@ -0,0 +1,353 @@
+import type { AIProvider, ChatRequest, ChatResponse, StreamChunk, Message, ToolCall, ToolDefinition } from "./types.js";
+import { providerError } from "./errors.js";
+import { createToolNameMap, type ToolNameMap } from "./tool-names.js";
+
+const ANTHROPIC_VERSION = "2023-06-01";
+
+type AnthropicContentBlock =
+  | { type: "text"; text: string }
+  | { type: "tool_use"; id: string; name: string; input: Record<string, unknown> }
+  | { type: "tool_result"; tool_use_id: string; content: string; is_error?: boolean };
+
+interface AnthropicMessage {
+  role: "user" | "assistant";
+  content: AnthropicContentBlock[];
+}
+
+interface AnthropicTool {
+  name: string;
+  description: string;
+  input_schema: Record<string, unknown>;
+}
+
+interface AnthropicRequest {
+  model: string;
+  messages: AnthropicMessage[];
+  system?: string;
+  max_tokens: number;
+  temperature?: number;
+  stream?: boolean;
+  tools?: AnthropicTool[];
+}
+
+interface AnthropicResponse {
+  id: string;
+  type: "message";
+  role: "assistant";
+  model: string;
+  content: (
+    | { type: "text"; text: string }
+    | { type: "tool_use"; id: string; name: string; input: Record<string, unknown> }
+    | { type: "thinking"; thinking: string }
+  )[];
+  stop_reason: "end_turn" | "tool_use" | "max_tokens" | "stop_sequence" | null;
+  usage?: {
+    input_tokens: number;
+    output_tokens: number;
+  };
+}
+
+// Server-sent events emitted by the Messages API when stream=true
+type AnthropicStreamEvent =
+  | { type: "message_start"; message: { id: string; model: string; usage?: { input_tokens: number; output_tokens: number } } }
+  | { type: "content_block_start"; index: number; content_block: { type: string; id?: string; name?: string; text?: string } }
+  | { type: "content_block_delta"; index: number; delta: { type: string; text?: string; partial_json?: string; thinking?: string } }
+  | { type: "content_block_stop"; index: number }
+  | { type: "message_delta"; delta: { stop_reason?: string }; usage?: { output_tokens: number } }
+  | { type: "message_stop" }
+  | { type: "ping" }
+  | { type: "error"; error: { type: string; message: string } };
+
+export class AnthropicProvider implements AIProvider {
+  name = "Anthropic";
+
+  constructor(
+    private apiKey: string,
+    private baseUrl: string = "https://api.anthropic.com/v1",
+    private defaultModel: string = "claude-sonnet-4-20250514"
+  ) {}
+
+  private convertTools(tools: ToolDefinition[] | undefined, names: ToolNameMap): AnthropicTool[] | undefined {
+    if (!tools || tools.length === 0) return undefined;
+
+    return tools
+      .filter(tool => tool.name && tool.description)
+      .map((tool) => ({
+        name: names.encode(tool.name),
+        description: tool.description.slice(0, 1000),
+        input_schema: {
+          type: "object",
+          properties: tool.parameters?.properties || {},
+          required: Array.isArray(tool.parameters?.required) ? tool.parameters.required : [],
+        },
+      }));
+  }
+
+  /**
+   * Split our flat message list into the system prompt and the alternating
+   * user/assistant turns the Messages API expects. Tool results become
+   * tool_result blocks on a user turn, and consecutive turns with the same
+   * role are merged.
+   */
+  private convertMessages(messages: Message[], names: ToolNameMap): { system?: string; messages: AnthropicMessage[] } {
+    const systemParts: string[] = [];
+    const converted: AnthropicMessage[] = [];
+
+    const push = (role: AnthropicMessage["role"], blocks: AnthropicContentBlock[]) => {
+      if (blocks.length === 0) return;
+      const last = converted[converted.length - 1];
+      if (last && last.role === role) {
+        last.content.push(...blocks);
+      } else {
+        converted.push({ role, content: blocks });
+      }
+    };
+
+    for (const m of messages) {
+      switch (m.role) {
+        case "system":
+          if (m.content) systemParts.push(m.content);
+          break;
+
+        case "user":
+          push("user", m.content ? [{ type: "text", text: m.content }] : []);
+          break;
+
+        case "assistant": {
+          const blocks: AnthropicContentBlock[] = [];
+          if (m.content) {
+            blocks.push({ type: "text", text: m.content });
+          }
+          for (const tc of m.toolCalls || []) {
+            blocks.push({ type: "tool_use", id: tc.id, name: names.encode(tc.name), input: tc.arguments || {} });
+          }
+          push("assistant", blocks);
+          break;
+        }
+
+        case "tool":
+          if (m.toolCallId) {
+            push("user", [{ type: "tool_result", tool_use_id: m.toolCallId, content: m.content || "(no output)" }]);
+          }
+          break;
+      }
+    }
+
+    return {
+      system: systemParts.length > 0 ? systemParts.join("\n\n") : undefined,
+      messages: converted,
+    };
+  }
+
+  private buildBody(request: ChatRequest, stream: boolean): { body: AnthropicRequest; names: ToolNameMap } {
+    const names = createToolNameMap(
+      [...(request.tools || []).map((t) => t.name), ...request.messages.flatMap((m) => (m.toolCalls || []).map((tc) => tc.name))],
+      /[a-zA-Z0-9_-]/
+    );
+    const { system, messages } = this.convertMessages(request.messages, names);
+
+    const body: AnthropicRequest = {
+      model: request.model || this.defaultModel,
+      messages,
+      max_tokens: request.maxTokens || 4096,
+      temperature: request.temperature ?? 0.7,
+      stream,
+    };
+
+    if (system) {
+      body.system = system;
+    }
+
+    if (request.tools) {
+      body.tools = this.convertTools(request.tools, names);
+    }
+
+    return { body, names };
+  }
+
+  private headers(stream: boolean): Record<string, string> {
+    const headers: Record<string, string> = {
+      "Content-Type": "application/json",
+      "x-api-key": this.apiKey,
+      "anthropic-version": ANTHROPIC_VERSION,
+    };
+    if (stream) {
+      headers.Accept = "text/event-stream";
+    }
+    return headers;
+  }
+
+  async chat(request: ChatRequest): Promise<ChatResponse> {
+    const { body, names } = this.buildBody(request, false);
+    const response = await fetch(`${this.baseUrl}/messages`, {
+      method: "POST",
+      headers: this.headers(false),
+      body: JSON.stringify(body),
+      signal: request.signal,
+    });
+
+    if (!response.ok) {
+      throw await providerError("Anthropic", response);
+    }
+
+    const data = (await response.json()) as AnthropicResponse;
+
+    let content = "";
+    const toolCalls: ToolCall[] = [];
+    for (const block of data.content) {
+      if (block.type === "text") {
+        content += block.text;
+      } else if (block.type === "thinking") {
+        content += `<think>${block.thinking}</think>`;
+      } else if (block.type === "tool_use") {
+        toolCalls.push({ id: block.id, name: names.decode(block.name), arguments: block.input || {} });
+      }
+    }
+
+    return {
+      id: data.id,
+      model: data.model,
+      content,
+      toolCalls: toolCalls.length > 0 ? toolCalls : undefined,
+      usage: data.usage
+        ? {
+            promptTokens: data.usage.input_tokens,
+            completionTokens: data.usage.output_tokens,
+            totalTokens: data.usage.input_tokens + data.usage.output_tokens,
+          }
+        : undefined,
+      finishReason:
+        data.stop_reason === "tool_use" ? "tool_calls" : data.stop_reason === "max_tokens" ? "length" : "stop",
+    };
+  }
+
+  async *chatStream(request: ChatRequest): AsyncGenerator<StreamChunk> {
+    const { body, names } = this.buildBody(request, true);
+    const response = await fetch(`${this.baseUrl}/messages`, {
+      method: "POST",
+      headers: this.headers(true),
+      body: JSON.stringify(body),
+      signal: request.signal,
+    });
+
+    if (!response.ok) {
+      const error = await providerError("Anthropic", response);
+      yield { type: "error", error: error.message, status: error.status, retryAfterMs: error.retryAfterMs };
+      return;
+    }
+
+    const reader = response.body?.getReader();
+    if (!reader) {
+      yield { type: "error", error: "No response body" };
+      return;
+    }
+
+    const decoder = new TextDecoder();
+    let buffer = "";
+    let inputTokens = 0;
+    let outputTokens = 0;
+    // Content blocks in flight, keyed by their index in the message
+    const blocks: Map<number, { type: string; id: string; name: string; json: string }> = new Map();
+
+    try {
+      while (true) {
+        const { done, value } = await reader.read();
+        if (done) break;
+
+        buffer += decoder.decode(value, { stream: true });
+        const lines = buffer.split("\n");
+        buffer = lines.pop() || "";
+
+        for (const line of lines) {
+          const trimmed = line.trim();
+          // Event names are repeated inside the data payload, so only data lines matter
+          if (!trimmed.startsWith("data:")) continue;
+
+          let event: AnthropicStreamEvent;
+          try {
+            event = JSON.parse(trimmed.slice(5).trim()) as AnthropicStreamEvent;
+          } catch {
+            // Skip invalid JSON
+            continue;
+          }
+
+          switch (event.type) {
+            case "message_start":
+              inputTokens = event.message.usage?.input_tokens || 0;
+              outputTokens = event.message.usage?.output_tokens || 0;
+              break;
+
+            case "message_delta":
+              // output_tokens here is cumulative for the whole message
+              if (event.usage) outputTokens = event.usage.output_tokens;
+              break;
+
+            case "message_stop":
+              yield {
+                type: "usage",
+                model: body.model,
+                usage: {
+                  promptTokens: inputTokens,
+                  completionTokens: outputTokens,
+                  totalTokens: inputTokens + outputTokens,
+                },
+              };
+              break;
+
+            case "content_block_start": {
+              const block = event.content_block;
+              blocks.set(event.index, { type: block.type, id: block.id || "", name: block.name || "", json: "" });
+              if (block.type === "thinking") {
+                yield { type: "text", content: "<think>" };
+              } else if (block.type === "text" && block.text) {
+                yield { type: "text", content: block.text };
+              }
+              break;
+            }
+
+            case "content_block_delta": {
+              const delta = event.delta;
+              if (delta.type === "text_delta" && delta.text) {
+                yield { type: "text", content: delta.text };
+              } else if (delta.type === "thinking_delta" && delta.thinking) {
+                yield { type: "text", content: delta.thinking };
+              } else if (delta.type === "input_json_delta" && delta.partial_json) {
+                const block = blocks.get(event.index);
+                if (block) block.json += delta.partial_json;
+              }
+              break;
+            }
+
+            case "content_block_stop": {
+              const block = blocks.get(event.index);
+              if (block?.type === "thinking") {
+                yield { type: "text", content: "</think>" };
+              } else if (block?.type === "tool_use") {
+                let args: Record<string, unknown> = {};
+                try {
+                  args = block.json ? JSON.parse(block.json) : {};
+                } catch {
+                  // Leave arguments empty if the model sent malformed JSON
+                }
+                yield {
+                  type: "tool_call",
+                  toolCall: { id: block.id, name: names.decode(block.name), arguments: args },
+                };
+              }
+              blocks.delete(event.index);
+              break;
+            }
+
+            case "error":
+              yield { type: "error", error: `Anthropic API error: ${event.error.type} - ${event.error.message}` };
+              return;
+          }
+        }
+      }
+    } finally {
+      reader.releaseLock();
+    }
+
+    yield { type: "done" };
+  }
+}
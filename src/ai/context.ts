@@ -0,0 +1,206 @@
+import type { AIProvider, Message, Usage } from "./types.js";
+
+// Context window sizes in tokens. Matched exactly, then by longest prefix.
+export const MODEL_CONTEXT_LIMITS: Record<string, number> = {
+  "MiniMax-M2": 204_800,
+  "MiniMax-Text-01": 1_000_000,
+  "abab7-chat-preview": 245_760,
+  "claude": 200_000,
+  "gpt-4o": 128_000,
+  "gpt-4-turbo": 128_000,
+  "gpt-3.5-turbo": 16_385,
+  "o1-mini": 128_000,
+  "o1": 200_000,
+  "gemini-2.0-flash": 1_048_576,
+  "gemini-1.5-pro": 2_097_152,
+  "gemini-1.5-flash": 1_048_576,
+  "llama-3.3-70b-versatile": 131_072,
+  "llama-3.1-70b-versatile": 131_072,
+  "mixtral-8x7b-32768": 32_768,
+  "deepseek": 65_536,
+};
+
+// Used for unknown models; ollama runs with a small num_ctx by default
+const DEFAULT_CONTEXT_LIMIT = 32_000;
+const OLLAMA_CONTEXT_LIMIT = 8_192;
+
+// Longest summary compaction keeps, whatever the provider returns
+const SUMMARY_MAX_TOKENS = 2048;
+
+// Marks the system message that carries a summary of compacted turns
+export const SUMMARY_PREFIX = "[Summary of earlier conversation]";
+
+const SUMMARY_PROMPT = `You compress coding-assistant conversations. Summarise the transcript you are given so the assistant can continue the work without it.
+
+Keep:
+- The user's goals, requirements and preferences
+- Files read or changed (with paths) and what was changed
+- Commands run and their important results or errors
+- Decisions made and open questions or next steps
+
+Be concise and factual. Use short bullet points. Do not invent details.`;
+
+/**
+ * Look up the context window for a model
+ */
+export function getContextLimit(model: string, provider?: string): number {
+  if (provider === "ollama") return OLLAMA_CONTEXT_LIMIT;
+
+  const name = model.split("/").pop() || model;
+  if (MODEL_CONTEXT_LIMITS[name]) return MODEL_CONTEXT_LIMITS[name];
+
+  const prefix = Object.keys(MODEL_CONTEXT_LIMITS)
+    .filter((key) => name.startsWith(key))
+    .sort((a, b) => b.length - a.length)[0];
+  return prefix ? MODEL_CONTEXT_LIMITS[prefix] : DEFAULT_CONTEXT_LIMIT;
+}
+
+/**
+ * Rough token estimate for a message (~4 chars per token plus framing)
+ */
+export function estimateTokens(message: Message): number {
+  let chars = message.content?.length || 0;
+  for (const tc of message.toolCalls || []) {
+    chars += tc.name.length + JSON.stringify(tc.arguments || {}).length;
+  }
+  return Math.ceil(chars / 4) + 4;
+}
+
+/**
+ * Estimate tokens for a whole message list
+ */
+export function estimateMessagesTokens(messages: Message[]): number {
+  return messages.reduce((sum, m) => sum + estimateTokens(m), 0);
+}
+
+export interface ContextOptions {
+  model: string;
+  provider?: string;
+  threshold?: number; // Fraction of the window that triggers compaction (default 0.8)
+  reserveTokens?: number; // Room kept for the response (maxTokens)
+}
+
+/**
+ * Whether the message list has crossed the compaction threshold
+ */
+export function shouldCompact(messages: Message[], options: ContextOptions): boolean {
+  const limit = getContextLimit(options.model, options.provider) - (options.reserveTokens || 0);
+  return estimateMessagesTokens(messages) > limit * (options.threshold ?? 0.8);
+}
+
+/**
+ * Split messages into units that must stay together: an assistant message
+ * with toolCalls plus the tool results that answer it, or a single message.
+ */
+function groupMessages(messages: Message[]): Message[][] {
+  const groups: Message[][] = [];
+  for (const message of messages) {
+    const last = groups[groups.length - 1];
+    if (message.role === "tool" && last && last.some((m) => m.toolCalls?.length)) {
+      last.push(message);
+    } else {
+      groups.push([message]);
+    }
+  }
+  return groups;
+}
+
+/**
+ * Render messages as plain text, tool calls and (truncated) results
+ * included, for a request that must not carry tool turns.
+ */
+export function renderTranscript(messages: Message[]): string {
+  return messages
+    .map((m) => {
+      if (m.role === "system") return m.content;
+      if (m.role === "tool") {
+        const output = m.content.length > 2000 ? `${m.content.slice(0, 2000)}\n...(truncated)` : m.content;
+        return `Tool result:\n${output}`;
+      }
+      const calls = (m.toolCalls || [])
+        .map((tc) => `[called ${tc.name}(${JSON.stringify(tc.arguments).slice(0, 300)})]`)
+        .join("\n");
+      const label = m.role === "user" ? "User" : "Assistant";
+      return [`${label}: ${m.content}`, calls].filter(Boolean).join("\n");
+    })
+    .join("\n\n");
+}
+
+export interface CompactResult {
+  messages: Message[];
+  removed: Message[]; // Messages folded into the summary (including any previous summary)
+  summary: string;
+  tokensBefore: number;
+  tokensAfter: number;
+  usage?: Usage;
+}
+
+/**
+ * Summarise older turns with the active provider. Leading system prompts and
+ * the most recent turns (at least the latest user message onwards) are kept;
+ * tool-call messages are never separated from their results.
+ */
+export async function compactMessages(
+  messages: Message[],
+  provider: AIProvider,
+  options: ContextOptions & { keepRatio?: number }
+): Promise<CompactResult | null> {
+  const tokensBefore = estimateMessagesTokens(messages);
+
+  // Pinned system prompts stay verbatim; earlier summaries get re-summarised
+  let pinned = 0;
+  while (
+    pinned < messages.length &&
+    messages[pinned].role === "system" &&
+    !messages[pinned].content.startsWith(SUMMARY_PREFIX)
+  ) {
+    pinned++;
+  }
+
+  const groups = groupMessages(messages.slice(pinned));
+  const lastUser = groups.map((g) => g[0].role).lastIndexOf("user");
+  if (lastUser <= 0) return null; // Nothing old enough to summarise
+
+  // Keep recent groups until they use keepRatio of the window
+  const budget = getContextLimit(options.model, options.provider) * (options.keepRatio ?? 0.4);
+  let cut = lastUser;
+  let kept = groups.slice(cut).reduce((sum, g) => sum + estimateMessagesTokens(g), 0);
+  while (cut > 0) {
+    const size = estimateMessagesTokens(groups[cut - 1]);
+    if (kept + size > budget) break;
+    kept += size;
+    cut--;
+  }
+  if (cut === 0) return null;
+
+  const removed = groups.slice(0, cut).flat();
+  const response = await provider.chat({
+    messages: [
+      { role: "system", content: SUMMARY_PROMPT },
+      { role: "user", content: renderTranscript(removed) },
+    ],
+    model: options.model,
+    maxTokens: SUMMARY_MAX_TOKENS,
+    temperature: 0.2,
+  });
+
+  // Providers that ignore maxTokens must not undo the compaction
+  let summary = response.content.replace(/<think>[\s\S]*?<\/think>/gi, "").trim();
+  if (summary.length > SUMMARY_MAX_TOKENS * 4) {
+    summary = `${summary.slice(0, SUMMARY_MAX_TOKENS * 4 - 20).trimEnd()}\n...(truncated)`;
+  }
+  const compacted: Message[] = [
+    ...messages.slice(0, pinned),
+    { role: "system", content: `${SUMMARY_PREFIX}\n${summary}` },
+    ...groups.slice(cut).flat(),
+  ];
+
+  return {
+    messages: compacted,
+    removed,
+    summary,
+    tokensBefore,
+    tokensAfter: estimateMessagesTokens(compacted),
+    usage: response.usage,
+  };
+}
@@ -0,0 +1,47 @@
+// Error raised by providers for non-OK HTTP responses
+export class ProviderError extends Error {
+  constructor(
+    message: string,
+    public status?: number,
+    public retryAfterMs?: number
+  ) {
+    super(message);
+    this.name = "ProviderError";
+  }
+
+  // 429 and 5xx are transient; everything else (auth, bad request) won't fix itself
+  get retryable(): boolean {
+    return this.status === undefined || this.status === 429 || this.status >= 500;
+  }
+}
+
+/**
+ * Parse a Retry-After header (delta-seconds or HTTP date) into milliseconds
+ */
+export function parseRetryAfter(value: string | null): number | undefined {
+  if (!value) return undefined;
+
+  const seconds = Number(value);
+  if (!Number.isNaN(seconds)) {
+    return Math.max(0, seconds * 1000);
+  }
+
+  const date = Date.parse(value);
+  if (!Number.isNaN(date)) {
+    return Math.max(0, date - Date.now());
+  }
+
+  return undefined;
+}
+
+/**
+ * Build a ProviderError from a failed fetch response
+ */
+export async function providerError(label: string, response: Response): Promise<ProviderError> {
+  const body = await response.text();
+  return new ProviderError(
+    `${label} API error: ${response.status} - ${body}`,
+    response.status,
+    parseRetryAfter(response.headers.get("retry-after"))
+  );
+}
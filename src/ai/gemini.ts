@@ -0,0 +1,380 @@
+import type { AIProvider, ChatRequest, ChatResponse, StreamChunk, Message, ToolCall, ToolDefinition } from "./types.js";
+import { providerError } from "./errors.js";
+import { createToolNameMap, type ToolNameMap } from "./tool-names.js";
+
+interface GeminiPart {
+  text?: string;
+  thought?: boolean;
+  functionCall?: {
+    id?: string;
+    name: string;
+    args?: Record<string, unknown>;
+  };
+  functionResponse?: {
+    id?: string;
+    name: string;
+    response: Record<string, unknown>;
+  };
+}
+
+interface GeminiContent {
+  role: "user" | "model";
+  parts: GeminiPart[];
+}
+
+interface GeminiFunctionDeclaration {
+  name: string;
+  description: string;
+  parameters?: Record<string, unknown>;
+}
+
+interface GeminiRequest {
+  contents: GeminiContent[];
+  systemInstruction?: { parts: { text: string }[] };
+  tools?: { functionDeclarations: GeminiFunctionDeclaration[] }[];
+  toolConfig?: { functionCallingConfig: { mode: "AUTO" | "NONE" } };
+  generationConfig?: {
+    maxOutputTokens?: number;
+    temperature?: number;
+  };
+}
+
+interface GeminiResponse {
+  responseId?: string;
+  modelVersion?: string;
+  candidates?: {
+    content?: { role?: string; parts?: GeminiPart[] };
+    finishReason?: "STOP" | "MAX_TOKENS" | "SAFETY" | "RECITATION" | "OTHER" | string;
+  }[];
+  usageMetadata?: {
+    promptTokenCount?: number;
+    candidatesTokenCount?: number;
+    totalTokenCount?: number;
+  };
+  promptFeedback?: { blockReason?: string };
+  error?: { code: number; message: string; status: string };
+}
+
+// JSON Schema keys Gemini's OpenAPI-subset Schema understands
+const SCHEMA_KEYS = new Set(["type", "format", "description", "nullable", "enum", "properties", "required", "items", "minItems", "maxItems"]);
+
+export class GeminiProvider implements AIProvider {
+  name = "Google";
+  private callCounter = 0;
+
+  constructor(
+    private apiKey: string,
+    private baseUrl: string = "https://generativelanguage.googleapis.com/v1beta",
+    private defaultModel: string = "gemini-2.0-flash"
+  ) {}
+
+  /**
+   * Strip a JSON Schema down to what functionDeclarations accept.
+   * MCP servers often send $schema, additionalProperties, default, etc.
+   */
+  private convertSchema(schema: unknown): Record<string, unknown> {
+    if (!schema || typeof schema !== "object") {
+      return { type: "string" };
+    }
+
+    const result: Record<string, unknown> = {};
+    for (const [key, value] of Object.entries(schema as Record<string, unknown>)) {
+      if (!SCHEMA_KEYS.has(key)) continue;
+
+      if (key === "properties" && value && typeof value === "object") {
+        const properties: Record<string, unknown> = {};
+        for (const [prop, propSchema] of Object.entries(value as Record<string, unknown>)) {
+          properties[prop] = this.convertSchema(propSchema);
+        }
+        result.properties = properties;
+      } else if (key === "items") {
+        result.items = this.convertSchema(value);
+      } else if (key === "type" && Array.isArray(value)) {
+        // ["string", "null"] style unions become a nullable single type
+        const types = value.filter((t) => t !== "null");
+        result.type = types[0] || "string";
+        if (types.length < value.length) result.nullable = true;
+      } else {
+        result[key] = value;
+      }
+    }
+
+    if (!result.type) {
+      result.type = result.properties ? "object" : "string";
+    }
+    return result;
+  }
+
+  private convertTools(tools: ToolDefinition[] | undefined, names: ToolNameMap): GeminiRequest["tools"] {
+    if (!tools || tools.length === 0) return undefined;
+
+    const functionDeclarations = tools
+      .filter(tool => tool.name && tool.description)
+      .map((tool) => {
+        const declaration: GeminiFunctionDeclaration = {
+          name: names.encode(tool.name),
+          description: tool.description.slice(0, 1000),
+        };
+        // Gemini rejects object schemas without properties, so omit them for no-arg tools
+        if (tool.parameters?.properties && Object.keys(tool.parameters.properties).length > 0) {
+          declaration.parameters = this.convertSchema(tool.parameters);
+        }
+        return declaration;
+      });
+
+    return [{ functionDeclarations }];
+  }
+
+  /**
+   * Convert our messages to Gemini contents. Tool results are sent back as
+   * functionResponse parts, which are matched by name rather than id, so we
+   * remember the name of every tool call the model made.
+   */
+  private convertMessages(messages: Message[], names: ToolNameMap): { systemInstruction?: GeminiRequest["systemInstruction"]; contents: GeminiContent[] } {
+    const systemParts: { text: string }[] = [];
+    const contents: GeminiContent[] = [];
+    const toolNames: Map<string, string> = new Map();
+
+    const push = (role: GeminiContent["role"], parts: GeminiPart[]) => {
+      if (parts.length === 0) return;
+      const last = contents[contents.length - 1];
+      if (last && last.role === role) {
+        last.parts.push(...parts);
+      } else {
+        contents.push({ role, parts });
+      }
+    };
+
+    for (const m of messages) {
+      switch (m.role) {
+        case "system":
+          if (m.content) systemParts.push({ text: m.content });
+          break;
+
+        case "user":
+          push("user", m.content ? [{ text: m.content }] : []);
+          break;
+
+        case "assistant": {
+          const parts: GeminiPart[] = [];
+          if (m.content) {
+            parts.push({ text: m.content });
+          }
+          for (const tc of m.toolCalls || []) {
+            toolNames.set(tc.id, names.encode(tc.name));
+            parts.push({ functionCall: { name: names.encode(tc.name), args: tc.arguments || {} } });
+          }
+          push("model", parts);
+          break;
+        }
+
+        case "tool": {
+          const name = (m.toolCallId && toolNames.get(m.toolCallId)) || "unknown_tool";
+          push("user", [{ functionResponse: { name, response: { content: m.content } } }]);
+          break;
+        }
+      }
+    }
+
+    return {
+      systemInstruction: systemParts.length > 0 ? { parts: systemParts } : undefined,
+      contents,
+    };
+  }
+
+  private buildBody(request: ChatRequest): { body: GeminiRequest; names: ToolNameMap } {
+    const names = createToolNameMap(
+      [...(request.tools || []).map((t) => t.name), ...request.messages.flatMap((m) => (m.toolCalls || []).map((tc) => tc.name))],
+      /[a-zA-Z0-9_.-]/
+    );
+    const { systemInstruction, contents } = this.convertMessages(request.messages, names);
+
+    const body: GeminiRequest = {
+      contents,
+      generationConfig: {
+        maxOutputTokens: request.maxTokens || 4096,
+        temperature: request.temperature ?? 0.7,
+      },
+    };
+
+    if (systemInstruction) {
+      body.systemInstruction = systemInstruction;
+    }
+
+    if (request.tools) {
+      body.tools = this.convertTools(request.tools, names);
+      body.toolConfig = { functionCallingConfig: { mode: "AUTO" } };
+    }
+
+    return { body, names };
+  }
+
+  private url(model: string, method: "generateContent" | "streamGenerateContent"): string {
+    const query = method === "streamGenerateContent" ? "?alt=sse" : "";
+    return `${this.baseUrl}/models/${encodeURIComponent(model)}:${method}${query}`;
+  }
+
+  private headers(): Record<string, string> {
+    return {
+      "Content-Type": "application/json",
+      "x-goog-api-key": this.apiKey,
+    };
+  }
+
+  private toToolCall(call: NonNullable<GeminiPart["functionCall"]>, names: ToolNameMap): ToolCall {
+    return {
+      id: call.id || `call_${Date.now()}_${this.callCounter++}`,
+      name: names.decode(call.name),
+      arguments: call.args || {},
+    };
+  }
+
+  async chat(request: ChatRequest): Promise<ChatResponse> {
+    const model = request.model || this.defaultModel;
+    const { body, names } = this.buildBody(request);
+    const response = await fetch(this.url(model, "generateContent"), {
+      method: "POST",
+      headers: this.headers(),
+      body: JSON.stringify(body),
+      signal: request.signal,
+    });
+
+    if (!response.ok) {
+      throw await providerError("Google", response);
+    }
+
+    const data = (await response.json()) as GeminiResponse;
+    const candidate = data.candidates?.[0];
+
+    if (!candidate) {
+      const reason = data.promptFeedback?.blockReason;
+      throw new Error(`Google API error: no candidates returned${reason ? ` (blocked: ${reason})` : ""}`);
+    }
+
+    let content = "";
+    const toolCalls: ToolCall[] = [];
+    for (const part of candidate.content?.parts || []) {
+      if (part.functionCall) {
+        toolCalls.push(this.toToolCall(part.functionCall, names));
+      } else if (part.text) {
+        content += part.thought ? `<think>${part.text}</think>` : part.text;
+      }
+    }
+
+    const usage = data.usageMetadata;
+
+    return {
+      id: data.responseId || `gemini_${Date.now()}`,
+      model: data.modelVersion || model,
+      content,
+      toolCalls: toolCalls.length > 0 ? toolCalls : undefined,
+      usage: usage
+        ? {
+            promptTokens: usage.promptTokenCount || 0,
+            completionTokens: usage.candidatesTokenCount || 0,
+            totalTokens: usage.totalTokenCount || 0,
+          }
+        : undefined,
+      finishReason:
+        toolCalls.length > 0 ? "tool_calls" : candidate.finishReason === "MAX_TOKENS" ? "length" : "stop",
+    };
+  }
+
+  async *chatStream(request: ChatRequest): AsyncGenerator<StreamChunk> {
+    const model = request.model || this.defaultModel;
+    const { body, names } = this.buildBody(request);
+    const response = await fetch(this.url(model, "streamGenerateContent"), {
+      method: "POST",
+      headers: { ...this.headers(), Accept: "text/event-stream" },
+      body: JSON.stringify(body),
+      signal: request.signal,
+    });
+
+    if (!response.ok) {
+      const error = await providerError("Google", response);
+      yield { type: "error", error: error.message, status: error.status, retryAfterMs: error.retryAfterMs };
+      return;
+    }
+
+    const reader = response.body?.getReader();
+    if (!reader) {
+      yield { type: "error", error: "No response body" };
+      return;
+    }
+
+    const decoder = new TextDecoder();
+    let buffer = "";
+    let inThought = false;
+    // usageMetadata is repeated with running totals; the last one wins
+    let usage: GeminiResponse["usageMetadata"];
+
+    try {
+      while (true) {
+        const { done, value } = await reader.read();
+        if (done) break;
+
+        buffer += decoder.decode(value, { stream: true });
+        const lines = buffer.split("\n");
+        buffer = lines.pop() || "";
+
+        for (const line of lines) {
+          const trimmed = line.trim();
+          if (!trimmed.startsWith("data:")) continue;
+
+          let chunk: GeminiResponse;
+          try {
+            chunk = JSON.parse(trimmed.slice(5).trim()) as GeminiResponse;
+          } catch {
+            // Skip invalid JSON
+            continue;
+          }
+
+          if (chunk.error) {
+            yield { type: "error", error: `Google API error: ${chunk.error.code} - ${chunk.error.message}` };
+            return;
+          }
+
+          if (chunk.usageMetadata) {
+            usage = chunk.usageMetadata;
+          }
+
+          // Each chunk carries complete parts; function calls are never split across chunks
+          for (const part of chunk.candidates?.[0]?.content?.parts || []) {
+            if (part.functionCall) {
+              yield { type: "tool_call", toolCall: this.toToolCall(part.functionCall, names) };
+            } else if (part.text) {
+              if (part.thought && !inThought) {
+                inThought = true;
+                yield { type: "text", content: "<think>" };
+              } else if (!part.thought && inThought) {
+                inThought = false;
+                yield { type: "text", content: "</think>" };
+              }
+              yield { type: "text", content: part.text };
+            }
+          }
+        }
+      }
+    } finally {
+      reader.releaseLock();
+    }
+
+    if (inThought) {
+      yield { type: "text", content: "</think>" };
+    }
+
+    if (usage) {
+      yield {
+        type: "usage",
+        model,
+        usage: {
+          promptTokens: usage.promptTokenCount || 0,
+          completionTokens: usage.candidatesTokenCount || 0,
+          totalTokens: usage.totalTokenCount || 0,
+        },
+      };
+    }
+
+    yield { type: "done" };
+  }
+}
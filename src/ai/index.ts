@@ -1,6 +1,9 @@
 import type { AIProvider, ChatRequest, StreamChunk } from "./types.js";
 import { MiniMaxProvider } from "./minimax.js";
-import { loadConfig, DEFAULT_PROVIDERS } from "../config/index.js";
+import { AnthropicProvider } from "./anthropic.js";
+import { GeminiProvider } from "./gemini.js";
+import { ResilientProvider, type ProviderEntry } from "./resilient.js";
+import { loadConfig, loadApiKey, DEFAULT_PROVIDERS } from "../config/index.js";
 
 // Provider registry
 const providers: Map<string, AIProvider> = new Map();
@@ -23,7 +26,11 @@ export function createProvider(
   switch (name) {
     case "minimax":
       return new MiniMaxProvider(apiKey, finalBaseUrl, finalModel);
-    // All providers use OpenAI-compatible API through MiniMax provider
+    case "anthropic":
+      return new AnthropicProvider(apiKey, finalBaseUrl, finalModel);
+    case "google":
+      return new GeminiProvider(apiKey, finalBaseUrl, finalModel);
+    // All other providers use OpenAI-compatible API through MiniMax provider
     case "openai":
     case "groq":
     case "deepseek":
@@ -36,7 +43,7 @@ export function createProvider(
   }
 }
 
-// Get or create provider
+// Get or create provider, wrapped with retries and the configured fallback chain
 export async function getProvider(name?: string): Promise<AIProvider> {
   const config = await loadConfig();
   const providerName = name || config.provider;
@@ -45,14 +52,27 @@ export async function getProvider(name?: string): Promise<AIProvider> {
     return providers.get(providerName)!;
   }
 
-  const apiKey = config.apiKey || "";
-  const provider = createProvider(
-    providerName,
-    apiKey,
-    config.baseUrl,
-    config.model
-  );
+  const entries: ProviderEntry[] = [
+    {
+      id: providerName,
+      provider: createProvider(providerName, config.apiKey || "", config.baseUrl, config.model),
+      primary: true,
+    },
+  ];
 
+  for (const fallback of config.fallbackProviders) {
+    if (fallback === providerName || !DEFAULT_PROVIDERS[fallback]) continue;
+    const apiKey = await loadApiKey(fallback);
+    // Skip fallbacks we have no credentials for (ollama runs keyless locally)
+    if (!apiKey && fallback !== "ollama") continue;
+    entries.push({
+      id: fallback,
+      provider: createProvider(fallback, apiKey || ""),
+      primary: false,
+    });
+  }
+
+  const provider = new ResilientProvider(entries, config.retry);
   providers.set(providerName, provider);
   return provider;
 }
@@ -65,3 +85,19 @@ export function clearProviders(): void {
 // Re-export types
 export * from "./types.js";
 export { MiniMaxProvider } from "./minimax.js";
+export { AnthropicProvider } from "./anthropic.js";
+export { GeminiProvider } from "./gemini.js";
+export { ResilientProvider, type RetryOptions, type ProviderEntry } from "./resilient.js";
+export { ProviderError } from "./errors.js";
+export {
+  MODEL_CONTEXT_LIMITS,
+  SUMMARY_PREFIX,
+  getContextLimit,
+  estimateTokens,
+  estimateMessagesTokens,
+  shouldCompact,
+  compactMessages,
+  type ContextOptions,
+  type CompactResult,
+} from "./context.js";
+export { MODEL_PRICES, getModelPrice, calculateCost, formatCost, type ModelPrice } from "./pricing.js";
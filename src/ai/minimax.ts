@@ -1,4 +1,5 @@
 import type { AIProvider, ChatRequest, ChatResponse, StreamChunk, Message, ToolDefinition } from "./types.js";
+import { providerError } from "./errors.js";
 
 interface OpenAIMessage {
   role: string;
@@ -20,6 +21,7 @@ interface OpenAIRequest {
   max_tokens?: number;
   temperature?: number;
   stream?: boolean;
+  stream_options?: { include_usage: boolean };
   tools?: OpenAITool[];
   tool_choice?: "auto" | "none";
 }
@@ -55,6 +57,12 @@ interface OpenAIStreamChunk {
     };
     finish_reason: string | null;
   }[];
+  // Only present on the final chunk when stream_options.include_usage is set
+  usage?: {
+    prompt_tokens: number;
+    completion_tokens: number;
+    total_tokens: number;
+  } | null;
 }
 
 interface OpenAIResponse {
@@ -195,11 +203,11 @@ export class MiniMaxProvider implements AIProvider {
         Authorization: `Bearer ${this.apiKey}`,
       },
       body: JSON.stringify(body),
+      signal: request.signal,
     });
 
     if (!response.ok) {
-      const error = await response.text();
-      throw new Error(`MiniMax API error: ${response.status} - ${error}`);
+      throw await providerError("MiniMax", response);
     }
 
     const data = (await response.json()) as OpenAIResponse;
@@ -233,6 +241,7 @@ export class MiniMaxProvider implements AIProvider {
       max_tokens: request.maxTokens || 4096,
       temperature: request.temperature || 0.7,
       stream: true,
+      stream_options: { include_usage: true },
     };
 
     if (request.tools) {
@@ -248,11 +257,12 @@ export class MiniMaxProvider implements AIProvider {
         Accept: "text/event-stream",
       },
       body: JSON.stringify(body),
+      signal: request.signal,
     });
 
     if (!response.ok) {
-      const error = await response.text();
-      yield { type: "error", error: `MiniMax API error: ${response.status} - ${error}` };
+      const error = await providerError("MiniMax", response);
+      yield { type: "error", error: error.message, status: error.status, retryAfterMs: error.retryAfterMs };
       return;
     }
 
@@ -304,6 +314,18 @@ export class MiniMaxProvider implements AIProvider {
                 }
               }
 
+              if (chunk.usage) {
+                yield {
+                  type: "usage",
+                  model: chunk.model || body.model,
+                  usage: {
+                    promptTokens: chunk.usage.prompt_tokens,
+                    completionTokens: chunk.usage.completion_tokens,
+                    totalTokens: chunk.usage.total_tokens,
+                  },
+                };
+              }
+
               if (chunk.choices[0]?.finish_reason === "tool_calls") {
                 for (const [_, tc] of toolCallsBuffer) {
                   yield {
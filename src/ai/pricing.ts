@@ -0,0 +1,99 @@
+import type { Usage } from "./types.js";
+
+// USD per 1M tokens
+export interface ModelPrice {
+  input: number;
+  output: number;
+}
+
+// List prices for the models offered in ModelMenu. Keys are matched exactly,
+// then by longest prefix, so dated variants (e.g. "-20250514") resolve too.
+export const MODEL_PRICES: Record<string, ModelPrice> = {
+  // MiniMax
+  "MiniMax-M2": { input: 0.3, output: 1.2 },
+  "MiniMax-Text-01": { input: 0.2, output: 1.1 },
+  "abab7-chat-preview": { input: 0.2, output: 1.1 },
+
+  // Anthropic
+  "claude-opus-4": { input: 15, output: 75 },
+  "claude-sonnet-4": { input: 3, output: 15 },
+  "claude-3-7-sonnet": { input: 3, output: 15 },
+  "claude-3-5-sonnet": { input: 3, output: 15 },
+  "claude-3-5-haiku": { input: 0.8, output: 4 },
+  "claude-3-opus": { input: 15, output: 75 },
+  "claude-3-haiku": { input: 0.25, output: 1.25 },
+
+  // OpenAI
+  "gpt-4o-mini": { input: 0.15, output: 0.6 },
+  "gpt-4o": { input: 2.5, output: 10 },
+  "gpt-4-turbo": { input: 10, output: 30 },
+  "gpt-3.5-turbo": { input: 0.5, output: 1.5 },
+  "o1-mini": { input: 1.1, output: 4.4 },
+  "o1": { input: 15, output: 60 },
+
+  // Google
+  "gemini-2.0-flash": { input: 0.1, output: 0.4 },
+  "gemini-1.5-pro": { input: 1.25, output: 5 },
+  "gemini-1.5-flash": { input: 0.075, output: 0.3 },
+
+  // Groq
+  "llama-3.3-70b-versatile": { input: 0.59, output: 0.79 },
+  "llama-3.1-70b-versatile": { input: 0.59, output: 0.79 },
+  "mixtral-8x7b-32768": { input: 0.24, output: 0.24 },
+
+  // DeepSeek
+  "deepseek-chat": { input: 0.27, output: 1.1 },
+  "deepseek-coder": { input: 0.14, output: 0.28 },
+  "deepseek-reasoner": { input: 0.55, output: 2.19 },
+};
+
+/**
+ * Look up the price for a model. OpenRouter-style "vendor/model" ids fall
+ * back to the bare model name. Local models (ollama) are free.
+ */
+export function getModelPrice(
+  model: string,
+  provider?: string,
+  overrides: Record<string, ModelPrice> = {}
+): ModelPrice | undefined {
+  if (provider === "ollama") {
+    return { input: 0, output: 0 };
+  }
+
+  const table = { ...MODEL_PRICES, ...overrides };
+  const candidates = [model, model.split("/").pop() || model];
+
+  for (const candidate of candidates) {
+    if (table[candidate]) return table[candidate];
+
+    const prefix = Object.keys(table)
+      .filter((key) => candidate.startsWith(key))
+      .sort((a, b) => b.length - a.length)[0];
+    if (prefix) return table[prefix];
+  }
+
+  return undefined;
+}
+
+/**
+ * Cost in USD for a request, or undefined if the model isn't priced
+ */
+export function calculateCost(
+  model: string,
+  usage: Usage,
+  provider?: string,
+  overrides?: Record<string, ModelPrice>
+): number | undefined {
+  const price = getModelPrice(model, provider, overrides);
+  if (!price) return undefined;
+  return (usage.promptTokens * price.input + usage.completionTokens * price.output) / 1_000_000;
+}
+
+/**
+ * Format a USD amount, keeping precision for sub-cent values
+ */
+export function formatCost(cost: number): string {
+  if (cost === 0) return "$0.00";
+  if (cost < 0.01) return `$${cost.toFixed(4)}`;
+  return `$${cost.toFixed(2)}`;
+}
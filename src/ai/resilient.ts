@@ -0,0 +1,148 @@
+import type { AIProvider, ChatRequest, ChatResponse, StreamChunk } from "./types.js";
+import { ProviderError } from "./errors.js";
+
+export interface RetryOptions {
+  maxRetries: number;
+  baseDelayMs: number;
+  maxDelayMs: number;
+}
+
+export interface ProviderEntry {
+  id: string; // Key in DEFAULT_PROVIDERS, e.g. "anthropic"
+  provider: AIProvider;
+  primary: boolean;
+}
+
+const DEFAULT_RETRY: RetryOptions = {
+  maxRetries: 3,
+  baseDelayMs: 1000,
+  maxDelayMs: 30000,
+};
+
+// Resolves early when the request is cancelled
+function sleep(ms: number, signal?: AbortSignal): Promise<void> {
+  return new Promise((resolve) => {
+    const done = () => {
+      clearTimeout(timer);
+      signal?.removeEventListener("abort", done);
+      resolve();
+    };
+    const timer = setTimeout(done, ms);
+    signal?.addEventListener("abort", done, { once: true });
+  });
+}
+
+// Network failures (DNS, reset connections) surface as plain errors from fetch
+function toProviderError(error: unknown): ProviderError {
+  if (error instanceof ProviderError) return error;
+  return new ProviderError(error instanceof Error ? error.message : String(error));
+}
+
+/**
+ * Wraps a primary provider and an ordered list of fallbacks. Each provider
+ * gets up to maxRetries retries on 429/5xx/network errors with exponential
+ * backoff (honouring Retry-After), then the next provider is tried.
+ */
+export class ResilientProvider implements AIProvider {
+  name: string;
+  private retry: RetryOptions;
+
+  constructor(private entries: ProviderEntry[], retry?: Partial<RetryOptions>) {
+    if (entries.length === 0) {
+      throw new Error("ResilientProvider needs at least one provider");
+    }
+    this.name = entries[0].provider.name;
+    this.retry = { ...DEFAULT_RETRY, ...retry };
+  }
+
+  private delayFor(attempt: number, error: ProviderError): number {
+    if (error.retryAfterMs !== undefined) {
+      return Math.min(error.retryAfterMs, this.retry.maxDelayMs);
+    }
+    const backoff = this.retry.baseDelayMs * 2 ** attempt;
+    const jitter = Math.random() * this.retry.baseDelayMs;
+    return Math.min(backoff + jitter, this.retry.maxDelayMs);
+  }
+
+  // The configured model only applies to the primary; fallbacks use their own default
+  private requestFor(entry: ProviderEntry, request: ChatRequest): ChatRequest {
+    return entry.primary ? request : { ...request, model: undefined };
+  }
+
+  async chat(request: ChatRequest): Promise<ChatResponse> {
+    let lastError: ProviderError | undefined;
+
+    for (const entry of this.entries) {
+      for (let attempt = 0; attempt <= this.retry.maxRetries; attempt++) {
+        try {
+          const response = await entry.provider.chat(this.requestFor(entry, request));
+          return { ...response, provider: entry.id };
+        } catch (error) {
+          // Cancellation is not a failure; don't retry or fall back
+          if (request.signal?.aborted) throw error;
+          lastError = toProviderError(error);
+          if (!lastError.retryable || attempt === this.retry.maxRetries) break;
+          await sleep(this.delayFor(attempt, lastError), request.signal);
+          request.signal?.throwIfAborted();
+        }
+      }
+    }
+
+    throw lastError;
+  }
+
+  async *chatStream(request: ChatRequest): AsyncGenerator<StreamChunk> {
+    let lastError: ProviderError | undefined;
+
+    for (const entry of this.entries) {
+      for (let attempt = 0; attempt <= this.retry.maxRetries; attempt++) {
+        let started = false;
+        let failure: ProviderError | undefined;
+
+        try {
+          for await (const chunk of entry.provider.chatStream(this.requestFor(entry, request))) {
+            if (chunk.type === "error" && !started) {
+              // Nothing has reached the caller yet, so this attempt can be retried
+              failure = new ProviderError(chunk.error || "Unknown error", chunk.status, chunk.retryAfterMs);
+              break;
+            }
+            if (!started) {
+              started = true;
+              yield { type: "provider", provider: entry.id };
+            }
+            yield chunk;
+          }
+        } catch (error) {
+          if (request.signal?.aborted) throw error;
+          if (started) {
+            // Output is already on screen; a retry would duplicate it
+            yield { type: "error", error: toProviderError(error).message };
+            return;
+          }
+          failure = toProviderError(error);
+        }
+
+        if (!failure) return;
+
+        lastError = failure;
+        if (!failure.retryable || attempt === this.retry.maxRetries) break;
+
+        const delay = this.delayFor(attempt, failure);
+        yield {
+          type: "retry",
+          provider: entry.id,
+          content: `${failure.message.slice(0, 120)} - retrying in ${(delay / 1000).toFixed(1)}s (${attempt + 1}/${this.retry.maxRetries})`,
+        };
+        await sleep(delay, request.signal);
+        request.signal?.throwIfAborted();
+      }
+
+      const next = this.entries[this.entries.indexOf(entry) + 1];
+      if (next) {
+        yield { type: "retry", provider: next.id, content: `Falling back to ${next.id}` };
+      }
+    }
+
+    yield { type: "error", error: lastError?.message || "All providers failed" };
+  }
+}
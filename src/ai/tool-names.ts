@@ -0,0 +1,39 @@
+// Providers limit tool names to 64 characters
+const MAX_TOOL_NAME = 64;
+
+export interface ToolNameMap {
+  encode(name: string): string; // Our name as sent to the provider
+  decode(name: string): string; // A name the provider sent back, as ours
+}
+
+/**
+ * Tool names as a provider accepts them: characters outside `allowed` become
+ * "_" and long names are cut. MCP tools can have any name, so two may clean
+ * up to the same one; later ones get a numbered suffix. Declarations, tool
+ * calls in the history and the calls the model makes must all go through
+ * the same map, so build one per request with every name it uses.
+ */
+export function createToolNameMap(names: string[], allowed: RegExp): ToolNameMap {
+  const encoded = new Map<string, string>();
+  const decoded = new Map<string, string>();
+
+  const cleanUp = (name: string) => [...name].map((c) => (allowed.test(c) ? c : "_")).join("");
+  const encode = (name: string): string => {
+    const known = encoded.get(name);
+    if (known) return known;
+
+    const clean = cleanUp(name);
+    let candidate = clean.slice(0, MAX_TOOL_NAME);
+    for (let n = 2; decoded.has(candidate); n++) {
+      candidate = `${clean.slice(0, MAX_TOOL_NAME - String(n).length - 1)}_${n}`;
+    }
+    encoded.set(name, candidate);
+    decoded.set(candidate, name);
+    return candidate;
+  };
+
+  // Names that are fine as they are keep them
+  const valid = names.filter((name) => name.length <= MAX_TOOL_NAME && cleanUp(name) === name);
+  [...valid, ...names].forEach(encode);
+  return { encode, decode: (name) => decoded.get(name) ?? name };
+}
@@ -18,15 +18,56 @@ export interface ToolResult {
   success: boolean;
   output?: string;
   error?: string;
+  diff?: FileDiff[]; // Files the tool wrote, as unified diffs
+}
+
+// Shown live while a tool runs; never sent to the model
+export type ToolProgress =
+  | { type: "output"; stream: "stdout" | "stderr"; line: string } // A line a command printed
+  | { type: "status"; message: string }; // e.g. "Scanned 40/120 files"
+
+// Unified diff of one file
+export interface DiffLine {
+  type: "context" | "add" | "remove";
+  text: string;
+}
+
+export interface DiffHunk {
+  oldStart: number;
+  oldLines: number;
+  newStart: number;
+  newLines: number;
+  lines: DiffLine[];
+}
+
+export interface FileDiff {
+  path: string;
+  oldPath?: string; // Previous path of a renamed file
+  status: "created" | "modified" | "deleted" | "renamed";
+  additions: number;
+  deletions: number;
+  hunks: DiffHunk[];
+}
+
+// Token usage reported by the API
+export interface Usage {
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
 }
 
 // Streaming types
 export interface StreamChunk {
-  type: "text" | "tool_call" | "tool_result" | "done" | "error";
+  type: "text" | "tool_call" | "tool_result" | "done" | "error" | "retry" | "provider" | "usage";
   content?: string;
   toolCall?: ToolCall;
   toolResult?: ToolResult;
   error?: string;
+  status?: number; // HTTP status for "error" chunks
+  retryAfterMs?: number; // Server-requested delay for "error" chunks
+  provider?: string; // Provider that is answering, for "provider" and "retry" chunks
+  usage?: Usage; // Token usage for the request, for "usage" chunks
+  model?: string; // Model that produced the usage, for "usage" chunks
 }
 
 // Chat request
@@ -37,6 +78,7 @@ export interface ChatRequest {
   temperature?: number;
   stream?: boolean;
   tools?: ToolDefinition[];
+  signal?: AbortSignal; // Aborts the HTTP request (and any retry wait)
 }
 
 // Tool definition
@@ -49,6 +91,11 @@ export interface ToolDefinition {
       type: string;
       description: string;
       enum?: string[];
+      items?: { // Element schema of "array" parameters
+        type: string;
+        properties?: Record<string, { type: string; description: string }>;
+        required?: string[];
+      };
     }>;
     required?: string[];
   };
@@ -60,12 +107,9 @@ export interface ChatResponse {
   model: string;
   content: string;
   toolCalls?: ToolCall[];
-  usage?: {
-    promptTokens: number;
-    completionTokens: number;
-    totalTokens: number;
-  };
+  usage?: Usage;
   finishReason: "stop" | "tool_calls" | "length" | "error";
+  provider?: string; // Provider that actually answered (set by ResilientProvider)
 }
 
 // Provider interface
@@ -23,6 +23,54 @@ const ConfigSchema = z.object({
   serverPort: z.number().default(3721),
   maxTokens: z.number().default(4096),
   temperature: z.number().default(0.7),
+  // Providers to try, in order, once the primary's retry budget is exhausted
+  fallbackProviders: z.array(z.string()).default([]),
+  retry: z.object({
+    maxRetries: z.number().default(3),
+    baseDelayMs: z.number().default(1000),
+    maxDelayMs: z.number().default(30000),
+  }).default({}),
+  // Summarise older turns once the context passes compactThreshold of the window
+  autoCompact: z.boolean().default(true),
+  compactThreshold: z.number().min(0.1).max(1).default(0.8),
+  // Per-model price overrides in USD per 1M tokens, merged over MODEL_PRICES
+  prices: z.record(z.object({
+    input: z.number(),
+    output: z.number(),
+  })).default({}),
+  // Where file tools may read and write (see tools/workspace.ts for glob rules)
+  workspace: z.object({
+    enabled: z.boolean().default(true),
+    root: z.string().optional(), // Defaults to the working directory
+    allow: z.array(z.string()).default([]), // Extra paths outside the root, e.g. "/tmp/**"
+    deny: z.array(z.string()).default([".env", ".env.local", ".env.*.local", "*.pem", "*.key", "id_rsa*", "id_ed25519*", ".ssh", ".aws", ".gnupg"]),
+  }).default({}),
+  // Read-only tool calls from one response that run at the same time
+  maxParallelTools: z.number().min(1).default(4),
+  // Sub-agents started with delegate_task
+  delegate: z.object({
+    enabled: z.boolean().default(true),
+    maxIterations: z.number().min(1).default(8), // Steps per task
+    tools: z.array(z.string()).optional(), // Tools they may use; defaults to the read-only ones
+  }).default({}),
+  // How much of one tool output is sent to the model; the rest is saved
+  // to a file it can read in parts (see tools/output.ts)
+  toolOutput: z.object({
+    maxTokens: z.number().optional(), // Fixed budget instead of contextShare
+    contextShare: z.number().min(0.01).max(1).default(0.1), // Fraction of the model's context window
+    headRatio: z.number().min(0).max(1).default(0.6), // How much of what is kept comes from the start
+  }).default({}),
+  // How run_command runs shell commands (see tools/command.ts for rule syntax)
+  commands: z.object({
+    allow: z.array(z.string()).default([]), // When set, only these programs may run
+    deny: z.array(z.string()).default(["sudo", "su", "doas", "mkfs*", "shutdown", "reboot", "halt", "poweroff", "rm -rf /", "rm -rf ~", "rm -rf ~/"]),
+    network: z.boolean().default(true), // false runs commands in a network namespace with no interfaces
+    scrubEnv: z.array(z.string()).default(["*_API_KEY"]), // Variables commands don't inherit
+    timeout: z.number().default(30), // Seconds of wall-clock time
+    cpuSeconds: z.number().default(120),
+    memoryMb: z.number().default(4096), // Data segment limit per process
+    maxOutput: z.number().default(1024 * 1024), // Bytes of stdout and stderr
+  }).default({}),
 });
 
 export type Config = z.infer<typeof ConfigSchema>;
@@ -76,7 +124,7 @@ export const CONFIG_DIR = join(homedir(), ".zesbe-modern");
 export const CONFIG_PATH = join(CONFIG_DIR, "config.json");
 
 // Load API key from env or file
-async function loadApiKey(provider: string): Promise<string | undefined> {
+export async function loadApiKey(provider: string): Promise<string | undefined> {
   const envKey = `${provider.toUpperCase()}_API_KEY`;
   if (process.env[envKey]) {
     return process.env[envKey];
@@ -151,13 +199,18 @@ You have access to powerful tools:
 ### File Operations
 - **read_file**: Read file contents with optional line ranges
 - **write_file**: Create new files or overwrite existing ones
-- **edit_file**: Make surgical edits by finding and replacing specific text
+- **edit_file**: Make surgical edits by finding and replacing specific text (several edits to one file in one call via edits)
+- **apply_patch**: Apply a unified diff to one or more files, including creating, deleting and renaming them
 - **list_directory**: Explore project structure
 - **glob_files**: Find files by name pattern
 - **search_code**: Search for patterns across codebase
 
 ### System
 - **run_command**: Execute shell commands (git, npm, tests, builds)
+- **start_job** / **read_job_output** / **write_job_input** / **job_status** / **kill_job**: Run long-lived commands (dev servers, watchers, long test suites) in the background; stop jobs you no longer need
+
+### Delegation
+- **delegate_task**: Hand a self-contained investigation (where is X implemented, how does module Y work) to a sub-agent with read-only tools; you get back only its summary, which keeps exploratory output out of your context
 
 ### Web & Research
 - **web_search**: Search the internet for documentation, tutorials, solutions
@@ -165,12 +218,15 @@ You have access to powerful tools:
 
 ## Guidelines
 1. **Research First**: If unsure about a library/API, use web_search to find documentation
-2. **Understand Code**: Always read relevant files before making changes
+2. **Understand Code**: Always read relevant files before making changes; request independent reads and searches in one response, since read-only tools run in parallel
 3. **Minimal Changes**: Use edit_file for small changes instead of rewriting entire files
 4. **Explain Changes**: Briefly explain what you're doing and why
 5. **Verify Results**: After changes, verify they work (run tests, check syntax)
 6. **Best Practices**: Follow language-specific conventions and best practices
 7. **Security**: Never expose secrets, credentials, or sensitive data
+8. **Large Outputs**: Tool outputs too large for the context keep their start and end; the note at the end says what was left out and which file holds the full output, so read that file in parts instead of re-running the tool
+9. **Workspace**: File tools only reach the project workspace and never secret files like .env; if access is denied, ask the user instead of working around it
+10. **Command Policy**: run_command refuses denied programs and stops commands that exceed time, CPU or output limits; read the error details and change approach rather than disguising the command
 
 ## Response Style
 - Be concise and direct
@@ -1,17 +1,61 @@
 #!/usr/bin/env node
 import readline from 'readline';
 import chalk from 'chalk';
-import { loadConfig } from '../config/index.js';
-import { getProvider, type Message as AIMessage } from '../ai/index.js';
-import { TOOL_DEFINITIONS } from '../tools/index.js';
+import { loadConfig, CODING_SYSTEM_PROMPT } from '../config/index.js';
+import {
+  getProvider,
+  formatCost,
+  shouldCompact,
+  compactMessages,
+  type AIProvider,
+  type Message as AIMessage,
+} from '../ai/index.js';
+import { TOOL_DEFINITIONS, previewFileChanges } from '../tools/index.js';
+import { loadWorkspace } from '../tools/workspace.js';
+import { runJobsCommand } from '../tools/jobs.js';
 import { SLASH_COMMANDS } from '../tui/components/CommandMenu.js';
+import { renderMarkdown } from '../utils/index.js';
+import { mcpManager } from '../mcp/index.js';
+import {
+  createSession,
+  addMessage,
+  recordUsage,
+  markCompacted,
+  saveSession,
+  toApiMessages,
+  type ChatSession,
+  type UsageRecord,
+} from '../utils/history.js';
+import { runHistoryCommand } from '../utils/history-index.js';
+import { runExportCommand } from '../utils/export.js';
+import { rewindPoints, checkpointsSince, forkSession, switchBranch, formatBranches } from '../utils/branches.js';
+import {
+  createCheckpoint,
+  checkpointFiles,
+  restoreCheckpoints,
+  describeRestore,
+  runCheckpointCommand,
+} from '../utils/checkpoints.js';
+import { createUsageRecord, combineUsage, formatSessionUsage, formatTokens } from '../utils/usage.js';
+import { formatUnifiedDiff } from '../utils/diff.js';
+import { editToolArguments, isEditable } from '../utils/editor.js';
+import { loadPermissionRules, describeToolCall, type EditedAnswer, type PermissionAnswer } from '../permissions/index.js';
+import { Agent, ToolRegistry } from '../core/index.js';
+import type { FileDiff, ToolCall } from '../ai/types.js';
 
 interface ConsoleSession {
   messages: AIMessage[];
   rl: readline.Interface;
+  history: ChatSession; // Saved to ~/.zesbe-modern/history after every turn
+  abort: AbortController | null; // Set while a response is running; Ctrl+C aborts it
+  draft?: string; // Prefilled into the next prompt, e.g. a message picked with /rewind
 }
 
-export async function startConsole() {
+export interface ConsoleOptions {
+  resume?: ChatSession; // Saved session to continue
+}
+
+export async function startConsole(options: ConsoleOptions = {}) {
   const config = await loadConfig();
 
   console.log(chalk.cyan('\n╭─────────────────────────────────────────────╮'));
@@ -30,9 +74,22 @@ export async function startConsole() {
   });
 
   const session: ConsoleSession = {
-    messages: [],
-    rl
+    messages: options.resume ? toApiMessages(options.resume) : [],
+    rl,
+    history: options.resume || createSession(config.provider, config.model),
+    abort: null,
   };
+  let busy = false;
+
+  if (options.resume) {
+    const count = options.resume.messages.filter((m) => m.role === 'user' || m.role === 'assistant').length;
+    console.log(chalk.green(`↩️  Resumed "${options.resume.title}" (${count} messages)\n`));
+  }
+
+  // Connect MCP servers in the background; their tools join once ready
+  mcpManager.initialize().catch((error) => {
+    console.error(chalk.red(`MCP init failed: ${error instanceof Error ? error.message : 'Unknown error'}`));
+  });
 
   rl.prompt();
 
@@ -44,8 +101,13 @@ export async function startConsole() {
       return;
     }
 
-    // Pause readline while AI is responding to prevent input overlap
-    rl.pause();
+    // Lines typed on a terminal while the AI is responding are ignored
+    if (busy) return;
+    busy = true;
+
+    // Piped input waits until the response completes; a terminal keeps
+    // reading so Ctrl+C can cancel
+    if (!process.stdin.isTTY) rl.pause();
 
     try {
       await handleInput(session, trimmed);
@@ -54,12 +116,26 @@ export async function startConsole() {
     }
 
     // Resume readline after AI response completes
+    busy = false;
     rl.resume();
     rl.prompt();
+    if (session.draft) {
+      rl.write(session.draft);
+      session.draft = undefined;
+    }
+  });
+
+  rl.on('SIGINT', () => {
+    if (session.abort) {
+      session.abort.abort();
+      return;
+    }
+    rl.close();
   });
 
-  rl.on('close', () => {
+  rl.on('close', async () => {
     console.log(chalk.gray('\nGoodbye! 👋'));
+    await mcpManager.disconnectAll();
     process.exit(0);
   });
 }
@@ -90,14 +166,61 @@ async function handleSlashCommand(session: ConsoleSession, command: string) {
       process.exit(0);
       break;
 
-    case 'clear':
+    case 'clear': {
+      const config = await loadConfig();
       console.clear();
       session.messages = [];
+      session.history = createSession(config.provider, config.model);
       console.log(chalk.green('✅ Conversation history cleared'));
       break;
+    }
+
+    case 'compact':
+      await compactSession(session, await getProvider(), true);
+      break;
+
+    case 'rewind':
+      await rewindSession(session, args[0]);
+      break;
+
+    case 'branches':
+      if (args[0]) {
+        const branch = switchBranch(session.history, args[0]);
+        if (!branch) {
+          console.log(chalk.red(`Unknown branch: ${args[0]}`));
+          break;
+        }
+        session.messages = toApiMessages(session.history);
+        await saveSession(session.history);
+        console.log(chalk.green(`🌿 Switched to branch ${branch.id} (${branch.name}), ${session.history.messages.length} messages`));
+      } else {
+        console.log('\n' + renderMarkdown(formatBranches(session.history)) + '\n');
+      }
+      break;
+
+    case 'undo':
+    case 'checkpoints':
+      console.log('\n' + renderMarkdown(await runCheckpointCommand(cmd, args, session.history.id)) + '\n');
+      break;
+
+    case 'export':
+      console.log(renderMarkdown(await runExportCommand(args, session.history)));
+      break;
+
+    case 'jobs':
+      console.log('\n' + renderMarkdown(runJobsCommand(args)) + '\n');
+      break;
+
+    case 'usage':
+      console.log('\n' + renderMarkdown(formatSessionUsage(session.history)) + '\n');
+      break;
 
     case 'history':
-      showHistory(session);
+      if (args.filter(Boolean).length === 0) {
+        showHistory(session);
+      } else {
+        console.log('\n' + renderMarkdown(await runHistoryCommand(args, session.history)) + '\n');
+      }
       break;
 
     case 'provider':
@@ -124,6 +247,12 @@ async function handleChatMessage(session: ConsoleSession, input: string) {
 
   // Add user message
   session.messages.push({ role: 'user', content: input });
+  addMessage(session.history, 'user', input);
+  const userEntry = session.history.messages[session.history.messages.length - 1];
+
+  // Files the turn writes are snapshotted here first, for /undo and /rewind
+  const checkpoint = createCheckpoint(input, { sessionId: session.history.id });
+  const turnUsage: UsageRecord[] = [];
 
   console.log(chalk.gray('─'.repeat(50)));
   console.log(`${chalk.blue('You:')} ${input}`);
@@ -131,72 +260,320 @@ async function handleChatMessage(session: ConsoleSession, input: string) {
 
   try {
     const provider = await getProvider();
+    const systemPrompt: AIMessage = { role: 'system', content: CODING_SYSTEM_PROMPT };
 
-    process.stdout.write(chalk.green('🤖 AI: '));
-
-    // Use streaming method (same as TUI)
-    const generator = provider.chatStream({
-      messages: session.messages,
+    const agent = new Agent({
+      provider,
+      providerName: config.provider,
       model: config.model,
-      temperature: config.temperature,
       maxTokens: config.maxTokens,
-      tools: config.yolo ? TOOL_DEFINITIONS : undefined,
+      temperature: config.temperature,
+      toolOutput: config.toolOutput,
+      maxParallelTools: config.maxParallelTools,
+      delegate: config.delegate.enabled ? config.delegate : undefined,
+      tools: new ToolRegistry({ checkpoint }),
+      permissions: {
+        rules: await loadPermissionRules(),
+        fallback: config.yolo ? 'allow' : 'ask',
+        ask: (toolCall, diff) => askPermission(session, toolCall, diff),
+      },
+      // Long tool loops can outgrow the context window mid-turn
+      prepareMessages: async (messages) => {
+        session.messages = messages.slice(1);
+        await compactSession(session, provider, false);
+        return [systemPrompt, ...session.messages];
+      },
     });
 
-    let rawResponse = "";
-    let displayedLength = 0;
+    let text = '';
+    // Output lines each running tool has printed so far, by tool call id;
+    // read-only calls from one response run side by side
+    const streamedLines = new Map<string, number>();
+    // Set while several tools run, so their output is labelled
+    let parallel = false;
+    const label = (toolCall: ToolCall) => (parallel ? `[${toolCall.name}] ` : '');
+    let answeredBy = { provider: config.provider, model: config.model };
+    showProgress('🤖 Thinking... (Ctrl+C to stop)');
+    session.abort = new AbortController();
+
+    for await (const event of agent.run([systemPrompt, ...session.messages], session.abort.signal)) {
+      if (event.type === 'thinking') {
+        showProgress('🤖 Thinking...');
+      } else if (event.type === 'text') {
+        text += event.delta;
+        showProgress(`🤖 Writing... (${text.trim().length} chars)`);
+      } else if (event.type === 'provider') {
+        if (event.provider !== config.provider) {
+          clearProgress();
+          console.log(chalk.gray(`(via ${event.provider})`));
+        }
+      } else if (event.type === 'usage') {
+        answeredBy = { provider: event.provider, model: event.model };
+        const record = createUsageRecord(event.provider, event.model, event.usage, config.prices);
+        turnUsage.push(record);
+        recordUsage(session.history, record);
+      } else if (event.type === 'retry') {
+        clearProgress();
+        console.log(chalk.yellow(`↻ ${event.message}`));
+      } else if (event.type === 'message' && event.message.toolCalls) {
+        // Render the text that came with the tool calls before running them
+        clearProgress();
+        if (text.trim()) {
+          console.log(`${chalk.green('🤖 AI:')}\n${renderMarkdown(text)}`);
+        }
+        text = '';
+        addMessage(session.history, 'assistant', event.message.content, { toolCalls: event.message.toolCalls, ...answeredBy });
+      } else if (event.type === 'tool_start') {
+        console.log(chalk.yellow(`🔧 ${describeToolCall(event.toolCall)}`));
+        if (streamedLines.size > 0) parallel = true;
+        streamedLines.set(event.toolCall.id, 0);
+      } else if (event.type === 'tool_progress') {
+        if (event.progress.type === 'status') {
+          showProgress(`⏳ ${label(event.toolCall)}${event.progress.message}`);
+        } else {
+          clearProgress();
+          console.log(chalk.gray(`  │ ${label(event.toolCall)}${event.progress.line}`));
+          streamedLines.set(event.toolCall.id, (streamedLines.get(event.toolCall.id) ?? 0) + 1);
+        }
+      } else if (event.type === 'subagent') {
+        // The sub-agent's tool calls, nested under delegate_task
+        if (event.event.type === 'tool_start') {
+          clearProgress();
+          console.log(chalk.gray(`  ↳ ${label(event.toolCall)}${describeToolCall(event.event.toolCall)}`));
+        }
+      } else if (event.type === 'tool_end') {
+        clearProgress();
+        const lines = streamedLines.get(event.toolCall.id) ?? 0;
+        if (parallel) {
+          console.log(chalk.gray(`  ${event.toolCall.name}:`));
+        }
+        streamedLines.delete(event.toolCall.id);
+        if (streamedLines.size === 0) parallel = false;
+        if (lines > 0 && event.result.success) {
+          // The output was printed as it came
+          console.log(chalk.gray(`  ✓ done (${lines} lines)`));
+        } else if (event.result.diff?.length) {
+          // The summary line, then the diff in colour
+          console.log(renderMarkdown(`\`\`\`\n${event.output.split('\n')[0]}\n\`\`\``));
+          printDiff(event.result.diff);
+        } else {
+          console.log(renderMarkdown(`\`\`\`\n${truncateLines(event.output, 20)}\n\`\`\``));
+        }
+        addMessage(session.history, 'tool', event.output, {
+          toolCallId: event.toolCall.id,
+          toolName: event.toolCall.name,
+          success: event.result.success,
+          diff: event.result.diff,
+        });
+        if (checkpoint.files.length > 0) userEntry.checkpointId = checkpoint.id;
+        showProgress('🤖 Thinking...');
+      } else if (event.type === 'error') {
+        clearProgress();
+        console.log(chalk.red(`❌ ${event.error}`));
+      } else if (event.type === 'done') {
+        clearProgress();
+        session.messages = event.messages.slice(1);
+
+        // Render the (markdown) answer once the response is complete
+        if (event.content) {
+          console.log(`${chalk.green('🤖 AI:')}\n${renderMarkdown(event.content)}`);
+        }
+        if ((event.reason === 'stop' || event.reason === 'aborted') && event.content) {
+          addMessage(session.history, 'assistant', event.content, {
+            thinking: event.thinking,
+            usage: combineUsage(turnUsage),
+            interrupted: event.reason === 'aborted' || undefined,
+            ...answeredBy,
+          });
+        }
+        if (event.reason === 'aborted') {
+          console.log(chalk.yellow('⏹  Interrupted'));
+        }
+        if (event.reason === 'max_iterations') {
+          console.log(chalk.yellow(`⚠️ Stopped after ${event.iterations} tool iterations`));
+        }
+      }
+    }
+
+    const turnTotal = combineUsage(turnUsage);
+    if (turnTotal) {
+      const cost = turnTotal.cost !== undefined ? ` • ${formatCost(turnTotal.cost)}` : '';
+      console.log(chalk.gray(`📊 ${formatTokens(turnTotal.totalTokens)} tokens${cost}`));
+    }
+  } catch (error) {
+    clearProgress();
+    console.error(chalk.red(`\n❌ Error: ${error instanceof Error ? error.message : 'Unknown error'}`));
+  } finally {
+    // Whatever way the turn ended, keep the tool calls and results it produced
+    await saveSession(session.history).catch(() => {});
+    session.abort = null;
+  }
 
-    for await (const chunk of generator) {
-      if (chunk.type === "text" && chunk.content) {
-        rawResponse += chunk.content;
+  console.log(chalk.gray('─'.repeat(50)));
+}
 
-        // Filter thinking blocks from accumulated response
-        let filtered = rawResponse;
+// Single status line rewritten in place while a response streams
+function showProgress(text: string) {
+  if (!process.stdout.isTTY) return;
+  readline.clearLine(process.stdout, 0);
+  readline.cursorTo(process.stdout, 0);
+  process.stdout.write(chalk.gray(text));
+}
 
-        // Remove complete <think>...</think> blocks
-        filtered = filtered.replace(/<think>[\s\S]*?<\/think>/g, '');
+function clearProgress() {
+  if (!process.stdout.isTTY) return;
+  readline.clearLine(process.stdout, 0);
+  readline.cursorTo(process.stdout, 0);
+}
 
-        // If we're in the middle of a thinking block, don't show new content
-        if (filtered.includes('<think>') && !filtered.includes('</think>')) {
-          // Still accumulating thinking content, wait
-          continue;
-        }
+function truncateLines(text: string, maxLines: number): string {
+  const lines = text.split('\n');
+  if (lines.length <= maxLines) return text;
+  return [...lines.slice(0, maxLines), `... (${lines.length - maxLines} more lines)`].join('\n');
+}
 
-        // Remove any remaining partial tags
-        filtered = filtered.replace(/<think>[\s\S]*/g, ''); // Remove unclosed <think>
-        filtered = filtered.replace(/<\/?think>/g, ''); // Remove stray tags
+/**
+ * Print a unified diff with additions green and removals red
+ */
+function printDiff(diffs: FileDiff[], maxLines = 40) {
+  const lines = formatUnifiedDiff(diffs).split('\n');
+  for (const line of lines.slice(0, maxLines)) {
+    if (line.startsWith('+++') || line.startsWith('---')) console.log(chalk.bold(line));
+    else if (line.startsWith('@@')) console.log(chalk.cyan(line));
+    else if (line.startsWith('+')) console.log(chalk.green(line));
+    else if (line.startsWith('-')) console.log(chalk.red(line));
+    else console.log(chalk.gray(line));
+  }
+  if (lines.length > maxLines) console.log(chalk.gray(`... (${lines.length - maxLines} more diff lines)`));
+}
 
-        // Only display new content
-        if (filtered.length > displayedLength) {
-          const newContent = filtered.slice(displayedLength);
-          process.stdout.write(newContent);
-          displayedLength = filtered.length;
-        }
-      } else if (chunk.type === "tool_call" && chunk.toolCall) {
-        console.log(chalk.yellow(`\n🔧 Tool: ${chunk.toolCall.name}`));
-      } else if (chunk.type === "error") {
-        console.log(chalk.red(`\n❌ ${chunk.error}`));
-        break;
+/**
+ * Approve/deny/always prompt for tool calls whose policy is "ask". File
+ * edits show their diff first and can be edited in $EDITOR.
+ */
+async function askPermission(session: ConsoleSession, toolCall: ToolCall, diff?: FileDiff[]): Promise<PermissionAnswer | EditedAnswer> {
+  const signal = session.abort?.signal;
+  const editable = !!diff && isEditable(toolCall);
+  let edited: Record<string, unknown> | null = null;
+
+  for (;;) {
+    if (diff?.length) printDiff(diff);
+    const options = editable ? '[y]es / [n]o / [a]lways / [e]dit' : '[y]es / [n]o / [a]lways';
+    const reply = await new Promise<string>((resolve) => {
+      // Ctrl+C during the question cancels the run, which counts as "no"
+      signal?.addEventListener('abort', () => resolve(''), { once: true });
+      session.rl.question(chalk.yellow(`🔐 Allow ${toolCall.name}? ${options}: `), { signal }, resolve);
+    });
+    if (!process.stdin.isTTY) session.rl.pause();
+    if (signal?.aborted) return 'deny';
+
+    const answer = reply.trim().toLowerCase();
+    if ((answer === 'e' || answer === 'edit') && editable) {
+      const args = await editToolArguments({ ...toolCall, arguments: edited || toolCall.arguments });
+      if (!args) {
+        console.log(chalk.gray('No changes made.'));
+        continue;
       }
+      edited = args;
+      diff = (await previewFileChanges(toolCall.name, args, await loadWorkspace()).catch(() => null)) || undefined;
+      continue;
+    }
+    if (answer === 'a' || answer === 'always') {
+      console.log(chalk.green('♾️  Saved rule to ~/.zesbe-modern/permissions.json'));
+      return edited ? { answer: 'always', arguments: edited } : 'always';
     }
+    if (answer === 'y' || answer === 'yes') {
+      return edited ? { answer: 'once', arguments: edited } : 'once';
+    }
+    console.log(chalk.red('🚫 Denied'));
+    return 'deny';
+  }
+}
 
-    console.log(); // New line after response
+/**
+ * List the user messages to rewind to, or fork a new branch at message
+ * number `target` and prefill it for editing
+ */
+async function rewindSession(session: ConsoleSession, target?: string) {
+  const points = rewindPoints(session.history);
+  if (points.length === 0) {
+    console.log(chalk.gray('Nothing to rewind to yet.'));
+    return;
+  }
 
-    // Store clean response in history
-    const cleanResponse = rawResponse
-      .replace(/<think>[\s\S]*?<\/think>/g, '')
-      .replace(/<\/?think>/g, '')
-      .trim();
+  // Numbered by user message, oldest first
+  const point = points[Number(target?.replace(/^#/, '')) - 1];
+  if (!point) {
+    console.log(chalk.cyan('\n⏪ Rewind to which message?\n'));
+    for (const [i, { index, message }] of points.entries()) {
+      const files = (await checkpointFiles(checkpointsSince(session.history, index))).length;
+      const changed = files > 0 ? chalk.yellow(`  (${files} file${files === 1 ? '' : 's'} changed since)`) : '';
+      console.log(`  ${chalk.green(`#${i + 1}`.padEnd(5))} ${message.content.replace(/\s+/g, ' ').slice(0, 70)}${changed}`);
+    }
+    console.log(chalk.gray('\nUse /rewind <#>; the current conversation stays available in /branches\n'));
+    return;
+  }
+
+  const checkpoints = checkpointsSince(session.history, point.index);
+  const files = await checkpointFiles(checkpoints);
+  let restore = false;
+  if (files.length > 0) {
+    const reply = await new Promise<string>((resolve) => {
+      session.rl.question(chalk.yellow(`♻️  Restore ${files.length} file(s) changed since then? [y/N] `), resolve);
+    });
+    if (!process.stdin.isTTY) session.rl.pause();
+    restore = ['y', 'yes'].includes(reply.trim().toLowerCase());
+  }
+
+  const original = point.message.content;
+  const branch = forkSession(session.history, point.index, `edit of "${original.replace(/\s+/g, ' ').slice(0, 30)}"`);
+  session.messages = toApiMessages(session.history);
+  if (restore) {
+    const restored = describeRestore(await restoreCheckpoints(checkpoints, session.history.id));
+    if (restored) console.log(chalk.green(restored));
+  }
+  await saveSession(session.history);
+
+  console.log(chalk.green(`⏪ Rewound to message #${points.indexOf(point) + 1} on new branch ${branch.id}. Edit it and press Enter.`));
+  session.draft = original;
+}
+
+/**
+ * Summarise older turns once the conversation nears the model's context
+ * window, or unconditionally when forced by /compact
+ */
+async function compactSession(session: ConsoleSession, provider: AIProvider, force: boolean) {
+  const config = await loadConfig();
+  const options = {
+    model: config.model,
+    provider: config.provider,
+    threshold: config.compactThreshold,
+    reserveTokens: config.maxTokens,
+  };
+
+  if (!force && (!config.autoCompact || !shouldCompact(session.messages, options))) {
+    return;
+  }
 
-    if (cleanResponse) {
-      session.messages.push({ role: 'assistant', content: cleanResponse });
+  console.log(chalk.gray('📦 Compacting conversation...'));
+  try {
+    const result = await compactMessages(session.messages, provider, force ? { ...options, keepRatio: 0 } : options);
+    if (!result) {
+      console.log(chalk.gray('Nothing to compact yet.'));
+      return;
     }
 
+    session.messages = result.messages;
+    markCompacted(session.history, result.removed.filter((m) => m.role !== 'system').length, result.summary);
+    if (result.usage) {
+      recordUsage(session.history, createUsageRecord(config.provider, config.model, result.usage, config.prices));
+    }
+    console.log(chalk.green(
+      `📦 Compacted ${result.removed.length} messages (~${formatTokens(result.tokensBefore)} → ~${formatTokens(result.tokensAfter)} tokens)`
+    ));
   } catch (error) {
-    console.error(chalk.red(`\n❌ Error: ${error instanceof Error ? error.message : 'Unknown error'}`));
+    console.error(chalk.red(`❌ Compaction failed: ${error instanceof Error ? error.message : 'Unknown error'}`));
   }
-
-  console.log(chalk.gray('─'.repeat(50)));
 }
 
 function showHelp() {
@@ -244,6 +621,7 @@ async function showConfig() {
   console.log(`  Theme:       ${chalk.gray(config.theme)}`);
   console.log(`  Max Tokens:  ${chalk.gray(config.maxTokens)}`);
   console.log(`  Temperature: ${chalk.gray(config.temperature)}`);
+  console.log(`  Fallbacks:   ${chalk.gray(config.fallbackProviders.join(', ') || '(none)')}`);
   console.log(`  Server Port: ${chalk.gray(config.serverPort)}\n`);
 }
 
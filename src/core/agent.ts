@@ -0,0 +1,433 @@
+import type { AIProvider, FileDiff, Message, ToolCall, ToolProgress, ToolResult, Usage } from "../ai/types.js";
+import {
+  checkPermission,
+  filterAllowedTools,
+  addPermissionRule,
+  alwaysAllowRule,
+  loadPermissionRules,
+  type EditedAnswer,
+  type PermissionAnswer,
+  type PermissionPolicy,
+  type ScopedRule,
+} from "../permissions/index.js";
+import { ToolRegistry, formatToolOutput } from "./tools.js";
+import { formatUnifiedDiff } from "../utils/diff.js";
+import { getContextLimit, estimateMessagesTokens, renderTranscript } from "../ai/context.js";
+import { limitOutput } from "../tools/output.js";
+import { batchToolCalls, MAX_PARALLEL_TOOLS, READ_ONLY_TOOLS } from "../tools/index.js";
+import { DELEGATE_TOOL, DELEGATE_PROMPT, DELEGATE_WRAP_UP } from "./delegate.js";
+import type { Config } from "../config/index.js";
+
+export type AgentStopReason = "stop" | "max_iterations" | "aborted" | "error";
+
+export type AgentEvent =
+  | { type: "text"; delta: string }
+  | { type: "thinking"; delta: string }
+  | { type: "provider"; provider: string } // Fallback provider took over
+  | { type: "retry"; message: string }
+  | { type: "usage"; usage: Usage; model: string; provider: string }
+  | { type: "message"; message: Message } // Assistant tool-call or tool message added to the conversation
+  | { type: "tool_start"; toolCall: ToolCall }
+  | { type: "tool_progress"; toolCall: ToolCall; progress: ToolProgress } // Live output; not sent to the model
+  | { type: "tool_end"; toolCall: ToolCall; result: ToolResult; output: string; denied?: boolean }
+  | { type: "subagent"; toolCall: ToolCall; event: AgentEvent } // What a delegate_task sub-agent is doing; its usage comes as plain usage events
+  | { type: "error"; error: string }
+  | {
+      type: "done";
+      reason: AgentStopReason;
+      content: string; // Final answer without thinking
+      thinking?: string;
+      messages: Message[]; // Full conversation including this run
+      iterations: number;
+    };
+
+export interface AgentPermissions {
+  rules: ScopedRule[];
+  fallback: PermissionPolicy; // Policy when no rule matches
+  // Interactive prompt; without it "ask" is treated as deny. File-writing
+  // tools pass the diff they would apply, which the user may edit.
+  ask?: (toolCall: ToolCall, diff?: FileDiff[]) => Promise<PermissionAnswer | EditedAnswer>;
+}
+
+export interface AgentOptions {
+  provider: AIProvider;
+  providerName: string; // Used to attribute usage until a fallback answers
+  model: string;
+  maxTokens?: number;
+  temperature?: number;
+  tools?: ToolRegistry; // No tools are offered when omitted
+  permissions?: AgentPermissions;
+  maxIterations?: number;
+  maxParallelTools?: number; // Read-only calls from one response run this many at a time
+  delegate?: DelegateOptions; // Offer delegate_task; sub-agents can't delegate further
+  toolOutput?: Partial<Config["toolOutput"]>; // How much of each tool output the model gets
+  // Called before every request, e.g. to compact the context
+  prepareMessages?: (messages: Message[]) => Promise<Message[]>;
+}
+
+export interface DelegateOptions {
+  maxIterations?: number; // Steps a sub-agent gets (default 8)
+  tools?: string[]; // Tools it may use (default: the read-only ones)
+}
+
+// Tool outputs always get at least this many tokens, however full the context
+const MIN_OUTPUT_TOKENS = 500;
+
+const THINK_OPEN = "<think>";
+const THINK_CLOSE = "</think>";
+
+/**
+ * Splits streamed text into answer and thinking parts. Providers wrap
+ * reasoning in <think> tags, which may arrive split across chunks.
+ */
+class ThinkingSplitter {
+  private buffer = "";
+  private inThinking = false;
+
+  push(chunk: string): AgentEvent[] {
+    this.buffer += chunk;
+    const events: AgentEvent[] = [];
+
+    for (;;) {
+      const tag = this.inThinking ? THINK_CLOSE : THINK_OPEN;
+      const index = this.buffer.indexOf(tag);
+      if (index === -1) break;
+      this.emit(events, this.buffer.slice(0, index));
+      this.buffer = this.buffer.slice(index + tag.length);
+      this.inThinking = !this.inThinking;
+    }
+
+    // Hold back a trailing partial tag until the next chunk
+    const tag = this.inThinking ? THINK_CLOSE : THINK_OPEN;
+    let keep = 0;
+    for (let len = Math.min(tag.length - 1, this.buffer.length); len > 0; len--) {
+      if (tag.startsWith(this.buffer.slice(-len))) {
+        keep = len;
+        break;
+      }
+    }
+    this.emit(events, this.buffer.slice(0, this.buffer.length - keep));
+    this.buffer = this.buffer.slice(this.buffer.length - keep);
+
+    return events;
+  }
+
+  flush(): AgentEvent[] {
+    const events: AgentEvent[] = [];
+    this.emit(events, this.buffer);
+    this.buffer = "";
+    return events;
+  }
+
+  private emit(events: AgentEvent[], text: string) {
+    if (!text) return;
+    events.push(this.inThinking ? { type: "thinking", delta: text } : { type: "text", delta: text });
+  }
+}
+
+/**
+ * The tool-calling loop shared by the TUI, console and server: stream a
+ * response, run any requested tools (subject to permissions), send the
+ * results back and repeat until the model answers without tool calls.
+ */
+export class Agent {
+  constructor(private options: AgentOptions) {}
+
+  async *run(messages: Message[], signal?: AbortSignal): AsyncGenerator<AgentEvent> {
+    const { provider, tools, permissions } = this.options;
+    const maxIterations = this.options.maxIterations ?? 10;
+    let conversation = [...messages];
+    let rules = permissions?.rules || [];
+    let answeringProvider = this.options.providerName;
+    let iteration = 0;
+
+    const done = (reason: AgentStopReason, content = "", thinking = ""): AgentEvent => ({
+      type: "done",
+      reason,
+      content: content.trim(),
+      thinking: thinking.trim() || undefined,
+      messages: conversation,
+      iterations: iteration,
+    });
+
+    while (iteration < maxIterations) {
+      if (signal?.aborted) {
+        yield done("aborted");
+        return;
+      }
+      iteration++;
+
+      if (this.options.prepareMessages) {
+        conversation = await this.options.prepareMessages(conversation);
+      }
+
+      const splitter = new ThinkingSplitter();
+      const toolCalls: ToolCall[] = [];
+      let content = "";
+      let thinking = "";
+
+      try {
+        const generator = provider.chatStream({
+          messages: conversation,
+          model: this.options.model,
+          maxTokens: this.options.maxTokens,
+          temperature: this.options.temperature,
+          tools: tools ? filterAllowedTools(this.options.delegate ? [...tools.list(), DELEGATE_TOOL] : tools.list(), rules) : undefined,
+          signal,
+        });
+
+        for await (const chunk of generator) {
+          if (signal?.aborted) break;
+
+          if (chunk.type === "text" && chunk.content) {
+            for (const event of splitter.push(chunk.content)) {
+              if (event.type === "text") content += event.delta;
+              if (event.type === "thinking") thinking += event.delta;
+              yield event;
+            }
+          } else if (chunk.type === "tool_call" && chunk.toolCall) {
+            toolCalls.push(chunk.toolCall);
+          } else if (chunk.type === "provider" && chunk.provider) {
+            answeringProvider = chunk.provider;
+            yield { type: "provider", provider: chunk.provider };
+          } else if (chunk.type === "retry" && chunk.content) {
+            yield { type: "retry", message: chunk.content };
+          } else if (chunk.type === "usage" && chunk.usage) {
+            yield {
+              type: "usage",
+              usage: chunk.usage,
+              model: chunk.model || this.options.model,
+              provider: answeringProvider,
+            };
+          } else if (chunk.type === "error" && chunk.error) {
+            yield { type: "error", error: chunk.error };
+            yield done("error", content, thinking);
+            return;
+          }
+        }
+      } catch (error) {
+        // fetch rejects with an AbortError when cancelled
+        if (!signal?.aborted) throw error;
+      }
+
+      for (const event of splitter.flush()) {
+        if (event.type === "text") content += event.delta;
+        if (event.type === "thinking") thinking += event.delta;
+        yield event;
+      }
+
+      // Keep the partial answer; consumers mark it as interrupted
+      if (signal?.aborted) {
+        if (content.trim()) {
+          conversation.push({ role: "assistant", content: content.trim() });
+        }
+        yield done("aborted", content, thinking);
+        return;
+      }
+
+      // Without tools there is nothing to run a stray call with
+      if (toolCalls.length === 0 || !tools) {
+        if (content.trim()) {
+          conversation.push({ role: "assistant", content: content.trim() });
+        }
+        yield done("stop", content, thinking);
+        return;
+      }
+
+      const assistant: Message = { role: "assistant", content: content.trim(), toolCalls };
+      conversation.push(assistant);
+      yield { type: "message", message: assistant };
+
+      // Consecutive read-only calls run together, anything else alone and in order
+      for (const batch of batchToolCalls(toolCalls, (name) => tools!.isReadOnly(name))) {
+        const finished = new Map<ToolCall, { result: ToolResult; denied?: boolean }>();
+        const approved: { toolCall: ToolCall; run: ToolCall }[] = [];
+
+        // Ask about every call before running any, so prompts don't interleave with tools
+        for (const toolCall of batch) {
+          if (signal?.aborted) {
+            // Every tool call needs a result, even ones skipped by cancellation
+            finished.set(toolCall, { result: { toolCallId: toolCall.id, success: false, error: "Cancelled by user" } });
+            continue;
+          }
+          yield { type: "tool_start", toolCall };
+
+          const answer = await this.authorize(toolCall, rules);
+          if (answer.answer === "always") {
+            rules = await loadPermissionRules();
+          }
+
+          if (answer.answer === "deny") {
+            const result = { toolCallId: toolCall.id, success: false, error: `Permission denied for ${toolCall.name}` };
+            finished.set(toolCall, { result, denied: true });
+          } else {
+            approved.push({ toolCall, run: answer.arguments ? { ...toolCall, arguments: answer.arguments } : toolCall });
+          }
+        }
+
+        const results = yield* this.runTools(approved.map(({ run }) => run), signal);
+        approved.forEach(({ toolCall, run }, i) => {
+          const result = results[i];
+          // Tell the model what was actually written
+          if (run !== toolCall && result.success && result.diff) {
+            result.output = `${result.output}\n\nThe user edited this change before approving it. Applied diff:\n${formatUnifiedDiff(result.diff)}`;
+          }
+          finished.set(toolCall, { result });
+        });
+
+        for (const toolCall of batch) {
+          const { result, denied } = finished.get(toolCall)!;
+          const output = await limitOutput(toolCall.name, formatToolOutput(result), {
+            maxTokens: this.outputBudget(conversation),
+            headRatio: this.options.toolOutput?.headRatio,
+          });
+
+          yield { type: "tool_end", toolCall, result, output, denied };
+
+          const message: Message = { role: "tool", content: output, toolCallId: toolCall.id };
+          conversation.push(message);
+          yield { type: "message", message };
+        }
+      }
+
+      if (signal?.aborted) {
+        yield done("aborted");
+        return;
+      }
+    }
+
+    yield done("max_iterations");
+  }
+
+  /**
+   * Tokens one tool output may use: a share of the model's context window,
+   * and no more than half of what is left of it
+   */
+  private outputBudget(conversation: Message[]): number {
+    const { model, providerName, maxTokens = 0, toolOutput = {} } = this.options;
+    const window = getContextLimit(model, providerName);
+    const share = toolOutput.maxTokens ?? Math.floor(window * (toolOutput.contextShare ?? 0.1));
+    const room = window - maxTokens - estimateMessagesTokens(conversation);
+    return Math.max(MIN_OUTPUT_TOKENS, Math.min(share, Math.floor(room / 2)));
+  }
+
+  /**
+   * Run tool calls side by side, at most maxParallelTools at a time,
+   * yielding their progress events while they run. Results keep the order
+   * of the calls.
+   */
+  private async *runTools(toolCalls: ToolCall[], signal?: AbortSignal): AsyncGenerator<AgentEvent, ToolResult[]> {
+    const limit = this.options.maxParallelTools ?? MAX_PARALLEL_TOOLS;
+    const queue: AgentEvent[] = [];
+    const executions: Promise<ToolResult>[] = [];
+    let wake: (() => void) | null = null;
+    let running = 0;
+
+    const startNext = () => {
+      while (running < limit && executions.length < toolCalls.length) {
+        const toolCall = toolCalls[executions.length];
+        const execution = toolCall.name === DELEGATE_TOOL.name && this.options.delegate
+          ? this.delegate(toolCall, signal, (event) => {
+            queue.push(event);
+            wake?.();
+          })
+          : this.options.tools!.execute(toolCall, signal, (progress) => {
+            queue.push({ type: "tool_progress", toolCall, progress });
+            wake?.();
+          });
+        executions.push(execution);
+        running++;
+        // A rejection is rethrown by the return below, possibly after a pause at a yield
+        execution.catch(() => {}).finally(() => {
+          running--;
+          startNext();
+          wake?.();
+        });
+      }
+    };
+    startNext();
+
+    for (;;) {
+      while (queue.length > 0) {
+        yield queue.shift()!;
+      }
+      if (running === 0) return Promise.all(executions);
+      await new Promise<void>((resolvePromise) => (wake = resolvePromise));
+      wake = null;
+    }
+  }
+
+  /**
+   * Run delegate_task: a child agent with a fresh conversation, a subset of
+   * the tools and a step budget works on the task, and only its final
+   * answer becomes the result. Its events are passed to onEvent.
+   */
+  private async delegate(toolCall: ToolCall, signal: AbortSignal | undefined, onEvent: (event: AgentEvent) => void): Promise<ToolResult> {
+    const { task, context } = toolCall.arguments;
+    if (typeof task !== "string" || !task.trim()) {
+      return { toolCallId: toolCall.id, success: false, error: "task is required" };
+    }
+
+    const { maxIterations = 8, tools = [...READ_ONLY_TOOLS] } = this.options.delegate!;
+    const options: AgentOptions = {
+      ...this.options,
+      tools: this.options.tools!.restrict(tools),
+      maxIterations,
+      delegate: undefined,
+      prepareMessages: undefined,
+    };
+    let steps = 0;
+    let error: string | undefined;
+
+    const run = async (agent: Agent, messages: Message[]) => {
+      let done: Extract<AgentEvent, { type: "done" }> | undefined;
+      for await (const event of agent.run(messages, signal)) {
+        onEvent(event.type === "usage" ? event : { type: "subagent", toolCall, event });
+        if (event.type === "tool_start") steps++;
+        if (event.type === "error") error = event.error;
+        if (event.type === "done") done = event;
+      }
+      return done!;
+    };
+
+    let done = await run(new Agent(options), [
+      { role: "system", content: DELEGATE_PROMPT },
+      { role: "user", content: typeof context === "string" && context.trim() ? `${task}\n\nContext:\n${context}` : task },
+    ]);
+    const ranOut = done.reason === "max_iterations";
+    if (ranOut) {
+      // One more turn, without tools, to get an answer out of what it has
+      // read. Providers reject tool turns when no tools are offered, so the
+      // work so far goes in as a transcript.
+      done = await run(new Agent({ ...options, tools: undefined, maxIterations: 1 }), [
+        { role: "system", content: DELEGATE_PROMPT },
+        { role: "user", content: `${renderTranscript(done.messages.slice(1))}\n\n${DELEGATE_WRAP_UP}` },
+      ]);
+    }
+
+    if (done.reason === "aborted") return { toolCallId: toolCall.id, success: false, error: "Cancelled by user" };
+    if (done.reason === "error") return { toolCallId: toolCall.id, success: false, error: `Sub-agent failed: ${error}` };
+    if (!done.content) {
+      const why = ranOut ? `used its ${maxIterations} steps` : "finished";
+      return { toolCallId: toolCall.id, success: false, error: `Sub-agent ${why} without an answer (${steps} tool calls)` };
+    }
+    const budget = ranOut ? `, stopped at its limit of ${maxIterations} steps` : "";
+    return { toolCallId: toolCall.id, success: true, output: `${done.content}\n\n[Sub-agent: ${steps} tool calls${budget}]` };
+  }
+
+  private async authorize(toolCall: ToolCall, rules: ScopedRule[]): Promise<{ answer: PermissionAnswer; arguments?: Record<string, unknown> }> {
+    const { permissions, tools } = this.options;
+    if (!permissions) return { answer: "once" };
+
+    const decision = checkPermission(rules, toolCall.name, toolCall.arguments, permissions.fallback);
+    if (decision.policy === "allow") return { answer: "once" };
+    if (decision.policy === "deny" || !permissions.ask) return { answer: "deny" };
+
+    const reply = await permissions.ask(toolCall, await tools?.preview(toolCall));
+    const approved = typeof reply === "string" ? { answer: reply } : reply;
+    if (approved.answer === "always") {
+      await addPermissionRule(alwaysAllowRule(toolCall));
+    }
+    return approved;
+  }
+}
@@ -0,0 +1,35 @@
+import type { ToolDefinition } from "../ai/types.js";
+
+// Offered by the agent itself rather than the tool registry, since running
+// it needs the provider; see Agent.delegate
+export const DELEGATE_TOOL: ToolDefinition = {
+  name: "delegate_task",
+  description:
+    "Hand a self-contained investigation to a sub-agent, e.g. finding where something is implemented or how a module works. It has its own context and a limited set of tools and steps, and returns only its summary, so the files and search results it goes through don't fill yours.",
+  parameters: {
+    type: "object",
+    properties: {
+      task: {
+        type: "string",
+        description: "What to find out, detailed enough to work on without the rest of the conversation",
+      },
+      context: {
+        type: "string",
+        description: "Facts the sub-agent should know, e.g. relevant files or what you already ruled out (optional)",
+      },
+    },
+    required: ["task"],
+  },
+};
+
+// System prompt of the sub-agent
+export const DELEGATE_PROMPT = `You are a sub-agent working on one task for another AI coding assistant, which only sees your final answer.
+
+- Use your tools to investigate; you have a limited number of steps, so request independent reads and searches together
+- Don't ask questions: nobody will answer them. If something is unclear, state your assumption
+- Finish with a concise summary of what you found: the answer first, then the evidence (file paths with line numbers, names, short snippets where they matter)
+- Say what you could not find or verify`;
+
+// Sent when the sub-agent used up its steps without answering
+export const DELEGATE_WRAP_UP =
+  "You have used all your steps. Above is what you did. Summarise what you found so far and what is still open.";
@@ -0,0 +1,98 @@
+import type { FileDiff, ToolCall, ToolDefinition, ToolProgress, ToolResult } from "../ai/types.js";
+import { TOOL_DEFINITIONS, READ_ONLY_TOOLS, executeTools, previewFileChanges } from "../tools/index.js";
+import { mcpManager } from "../mcp/index.js";
+import type { Checkpoint } from "../utils/checkpoints.js";
+import { loadWorkspace, type Workspace } from "../tools/workspace.js";
+
+export interface ToolRegistryOptions {
+  mcp?: boolean; // Include tools from connected MCP servers (default true)
+  filter?: (tool: ToolDefinition) => boolean; // Restrict the available tools
+  checkpoint?: Checkpoint; // Snapshot files before built-in tools write them
+  workspace?: Workspace | null; // Paths built-in tools may use; loaded from config by default, null turns it off
+}
+
+/**
+ * Built-in tools plus MCP tools, dispatched by name
+ */
+export class ToolRegistry {
+  private workspace?: Promise<Workspace | null>;
+
+  constructor(private options: ToolRegistryOptions = {}) {}
+
+  private getWorkspace(): Promise<Workspace | null> {
+    this.workspace ??= this.options.workspace !== undefined
+      ? Promise.resolve(this.options.workspace)
+      : loadWorkspace();
+    return this.workspace;
+  }
+
+  list(): ToolDefinition[] {
+    const tools = this.options.mcp === false
+      ? TOOL_DEFINITIONS
+      : [...TOOL_DEFINITIONS, ...mcpManager.getTools()];
+    return this.options.filter ? tools.filter(this.options.filter) : tools;
+  }
+
+  has(name: string): boolean {
+    return this.list().some((tool) => tool.name === name);
+  }
+
+  /**
+   * A registry offering only the named tools, sharing this one's checkpoint
+   * and workspace
+   */
+  restrict(names: string[]): ToolRegistry {
+    const { filter } = this.options;
+    const restricted = new ToolRegistry({
+      ...this.options,
+      filter: (tool) => names.includes(tool.name) && (!filter || filter(tool)),
+    });
+    restricted.workspace = this.getWorkspace();
+    return restricted;
+  }
+
+  // MCP tools are treated as mutating; nothing says what they do
+  isReadOnly(name: string): boolean {
+    return READ_ONLY_TOOLS.has(name);
+  }
+
+  async execute(toolCall: ToolCall, signal?: AbortSignal, onProgress?: (progress: ToolProgress) => void): Promise<ToolResult> {
+    if (!this.has(toolCall.name)) {
+      return { toolCallId: toolCall.id, success: false, error: `Unknown tool: ${toolCall.name}` };
+    }
+
+    // MCP tools are prefixed with mcp_<server>_
+    if (toolCall.name.startsWith("mcp_")) {
+      const output = await mcpManager.callTool(toolCall.name, toolCall.arguments, signal);
+      return { toolCallId: toolCall.id, success: true, output };
+    }
+
+    const [result] = await executeTools([toolCall], {
+      signal,
+      checkpoint: this.options.checkpoint,
+      workspace: await this.getWorkspace(),
+      onProgress,
+    });
+    return result;
+  }
+
+  /**
+   * What a file-writing tool call would change, for the approval prompt.
+   * Undefined for other tools or when the change can't be worked out.
+   */
+  async preview(toolCall: ToolCall): Promise<FileDiff[] | undefined> {
+    if (!this.has(toolCall.name)) return undefined;
+    try {
+      return (await previewFileChanges(toolCall.name, toolCall.arguments, await this.getWorkspace())) || undefined;
+    } catch {
+      return undefined;
+    }
+  }
+}
+
+/**
+ * Text sent back to the model for a tool result
+ */
+export function formatToolOutput(result: ToolResult): string {
+  return result.success ? result.output || "(no output)" : `Error: ${result.error}`;
+}
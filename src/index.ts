@@ -7,6 +7,17 @@ import { startConsole } from "./console/index.js";
 import { startServer } from "./server/index.js";
 import { loadConfig, saveConfig, listProviders, DEFAULT_PROVIDERS } from "./config/index.js";
 import { program as mcpProgram } from "./cli/mcp-cli.js";
+import { listSessions, loadSession, loadLatestSession } from "./utils/history.js";
+import {
+  searchSessions,
+  parseSearchQuery,
+  parseDate,
+  updateSessionMeta,
+  type SessionMetaChange,
+} from "./utils/history-index.js";
+import { EXPORT_FORMATS, exportSession, exportSessionToFile, importSession, type ExportFormat } from "./utils/export.js";
+import { summarizeUsage, sumUsage, formatTokens, type UsageGrouping } from "./utils/usage.js";
+import { formatCost } from "./ai/index.js";
 
 // Simple banner like Claude Code
 const banner = "";
@@ -19,6 +30,21 @@ function isRawModeSupported(): boolean {
   }
 }
 
+async function updateSessionFromCli(id: string, change: SessionMetaChange, json: boolean) {
+  const session = await updateSessionMeta(id, change);
+  if (!session) {
+    console.error(chalk.red(`Session not found: ${id}`));
+    process.exit(1);
+  }
+
+  if (json) {
+    console.log(JSON.stringify({ id: session.id, tags: session.tags || [], pinned: session.pinned || false }));
+  } else {
+    const tags = session.tags?.map((t) => `#${t}`).join(" ") || "(no tags)";
+    console.log(chalk.green(`✓ ${session.id}: ${tags}${session.pinned ? " 📌 pinned" : ""}`));
+  }
+}
+
 async function main() {
   const argv = await yargs(hideBin(process.argv))
     .scriptName("zesbe")
@@ -33,18 +59,37 @@ async function main() {
         type: "boolean",
         description: "Force Ink TUI mode (experimental, may have glitches)",
         default: false
+      },
+      resume: {
+        alias: "r",
+        type: "string",
+        description: "Resume a saved session by ID",
+      },
+      continue: {
+        alias: "c",
+        type: "boolean",
+        description: "Continue the most recent session",
+        default: false
       }
     }, async (argv) => {
       console.log(banner);
 
+      const resume = argv.resume
+        ? await loadSession(argv.resume)
+        : argv.continue ? await loadLatestSession() : undefined;
+      if (resume === null) {
+        console.error(chalk.red(argv.resume ? `Session not found: ${argv.resume}` : "No saved sessions to continue"));
+        process.exit(1);
+      }
+
       // INK TUI DISABLED BY DEFAULT - use --tui flag to enable
       if (argv.tui && !argv.console) {
         console.log(chalk.yellow('⚠️  Ink TUI mode (experimental - may have glitches)\n'));
-        await startTUI();
+        await startTUI({ resume });
       } else {
         // Default: stable console mode
         console.log(chalk.cyan('🖥️  Using stable console mode\n'));
-        await startConsole();
+        await startConsole({ resume });
       }
     })
     .command("server", "Start the backend server", {
@@ -82,6 +127,8 @@ async function main() {
         console.log(`  Theme:       ${chalk.gray(config.theme)}`);
         console.log(`  Max Tokens:  ${chalk.gray(config.maxTokens)}`);
         console.log(`  Temperature: ${chalk.gray(config.temperature)}`);
+        console.log(`  Fallbacks:   ${chalk.gray(config.fallbackProviders.join(", ") || "(none)")}`);
+        console.log(`  Retries:     ${chalk.gray(config.retry.maxRetries)}`);
         console.log(`  Server Port: ${chalk.gray(config.serverPort)}`);
         console.log();
         return;
@@ -124,6 +171,20 @@ async function main() {
           case "serverPort":
             updates.serverPort = parseInt(value, 10);
             break;
+          case "fallbackProviders": {
+            const fallbacks = value.split(",").map((p) => p.trim()).filter(Boolean);
+            const unknown = fallbacks.filter((p) => !DEFAULT_PROVIDERS[p]);
+            if (unknown.length > 0) {
+              console.error(chalk.red(`Unknown provider: ${unknown.join(", ")}`));
+              console.log(chalk.gray(`Available: ${listProviders().join(", ")}`));
+              process.exit(1);
+            }
+            updates.fallbackProviders = fallbacks;
+            break;
+          }
+          case "maxRetries":
+            updates.retry = { ...config.retry, maxRetries: parseInt(value, 10) };
+            break;
           default:
             console.error(chalk.red(`Unknown config key: ${key}`));
             process.exit(1);
@@ -147,6 +208,160 @@ async function main() {
       }
       console.log();
     })
+    .command("usage", "Summarise token usage and spend", {
+      by: {
+        type: "string",
+        choices: ["day", "provider", "model"],
+        description: "Only show one grouping",
+      },
+      days: {
+        alias: "d",
+        type: "number",
+        default: 30,
+        description: "Only include the last N days (0 for all time)",
+      },
+      json: {
+        type: "boolean",
+        default: false,
+        description: "Output JSON",
+      },
+    }, async (argv) => {
+      const sessions = await listSessions();
+      const groupings: UsageGrouping[] = argv.by ? [argv.by as UsageGrouping] : ["day", "provider", "model"];
+      const sinceDays = argv.days || undefined;
+
+      const since = sinceDays ? Date.now() - sinceDays * 24 * 60 * 60 * 1000 : 0;
+      const records = sessions
+        .flatMap((s) => s.usage || [])
+        .filter((r) => new Date(r.timestamp).getTime() >= since);
+      const total = sumUsage(records);
+
+      if (argv.json) {
+        const summary: Record<string, unknown> = { total };
+        for (const by of groupings) {
+          summary[by] = summarizeUsage(sessions, by, sinceDays);
+        }
+        console.log(JSON.stringify(summary, null, 2));
+        return;
+      }
+
+      const period = sinceDays ? `last ${sinceDays} days` : "all time";
+      console.log(chalk.cyan(`\nToken usage (${period}):\n`));
+
+      if (total.requests === 0) {
+        console.log(chalk.gray("  No usage recorded yet.\n"));
+        return;
+      }
+
+      for (const by of groupings) {
+        console.log(chalk.yellow(`  By ${by}:`));
+        for (const row of summarizeUsage(sessions, by, sinceDays)) {
+          const unpriced = row.unpriced > 0 ? chalk.gray(` (+${row.unpriced} unpriced)`) : "";
+          console.log(
+            `    ${row.key.padEnd(28)} ${chalk.white(formatTokens(row.promptTokens).padStart(8))} in ` +
+            `${chalk.white(formatTokens(row.completionTokens).padStart(8))} out  ${chalk.green(formatCost(row.cost).padStart(9))}${unpriced}`
+          );
+        }
+        console.log();
+      }
+
+      console.log(`  ${chalk.bold("Total:")} ${formatTokens(total.totalTokens)} tokens, ${chalk.green(formatCost(total.cost))} across ${total.requests} requests\n`);
+    })
+    .command("history", "Search, tag, pin, export and import saved sessions", (y) => y
+      .option("json", {
+        type: "boolean",
+        default: false,
+        description: "Output JSON",
+      })
+      .command(["search [query..]", "$0 [query..]"], "Search sessions (lists recent ones without a query)", {
+        provider: { type: "string", description: "Only sessions answered by this provider" },
+        model: { type: "string", description: "Only sessions using a matching model" },
+        tag: { alias: "t", type: "string", description: "Only sessions with this tag" },
+        pinned: { type: "boolean", description: "Only pinned sessions" },
+        since: { type: "string", description: "Updated since a date or N days ago (e.g. 7d)" },
+        until: { type: "string", description: "Updated until a date" },
+        limit: { alias: "n", type: "number", default: 20, description: "Maximum results (0 for all)" },
+      }, async (argv) => {
+        const query = ((argv.query as string[] | undefined) || []).join(" ");
+        const results = await searchSessions({
+          ...parseSearchQuery(query),
+          ...(argv.provider && { provider: argv.provider }),
+          ...(argv.model && { model: argv.model }),
+          ...(argv.tag && { tag: argv.tag }),
+          ...(argv.pinned !== undefined && { pinned: argv.pinned }),
+          ...(argv.since && { since: parseDate(argv.since) }),
+          ...(argv.until && { until: parseDate(argv.until) }),
+          limit: argv.limit || undefined,
+        });
+
+        if (argv.json) {
+          console.log(JSON.stringify(results, null, 2));
+          return;
+        }
+
+        if (results.length === 0) {
+          console.log(chalk.gray("\nNo matching sessions.\n"));
+          return;
+        }
+
+        console.log();
+        for (const { session, snippet } of results) {
+          const pin = session.pinned ? "📌 " : "";
+          const tags = session.tags.map((t) => chalk.magenta(`#${t}`)).join(" ");
+          console.log(`${pin}${chalk.white(session.title)} ${tags}`);
+          console.log(chalk.gray(`  ${session.id}  ${session.updatedAt.slice(0, 10)}  ${session.provider}/${session.model}  ${session.messageCount} msgs`));
+          if (snippet) console.log(chalk.gray(`  ${snippet}`));
+        }
+        console.log(chalk.gray(`\nResume one with zesbe --resume <id>\n`));
+      })
+      .command("tag <id> <tags..>", "Add tags to a session", {}, async (argv) => {
+        await updateSessionFromCli(argv.id as string, { addTags: (argv.tags as string[]).map(String) }, argv.json as boolean);
+      })
+      .command("untag <id> <tags..>", "Remove tags from a session", {}, async (argv) => {
+        await updateSessionFromCli(argv.id as string, { removeTags: (argv.tags as string[]).map(String) }, argv.json as boolean);
+      })
+      .command("pin <id>", "Pin a session to the top of the list", {}, async (argv) => {
+        await updateSessionFromCli(argv.id as string, { pinned: true }, argv.json as boolean);
+      })
+      .command("unpin <id>", "Unpin a session", {}, async (argv) => {
+        await updateSessionFromCli(argv.id as string, { pinned: false }, argv.json as boolean);
+      })
+      .command("export <id>", "Export a session transcript", {
+        format: { alias: "f", type: "string", choices: EXPORT_FORMATS, default: "md", description: "Transcript format" },
+        output: { alias: "o", type: "string", description: "Write to a file instead of stdout" },
+        collapse: { type: "boolean", default: true, description: "Fold thinking and tool output (--no-collapse to expand)" },
+        thinking: { type: "boolean", default: true, description: "Include thinking blocks" },
+      }, async (argv) => {
+        const session = await loadSession(argv.id as string);
+        if (!session) {
+          console.error(chalk.red(`Session not found: ${argv.id}`));
+          process.exit(1);
+        }
+
+        const format = argv.format as ExportFormat;
+        const options = { collapse: argv.collapse, thinking: argv.thinking };
+        if (argv.output) {
+          await exportSessionToFile(session, format, argv.output, options);
+          console.error(chalk.green(`✓ Exported ${session.id} to ${argv.output}`));
+        } else {
+          process.stdout.write(exportSession(session, format, options));
+        }
+      })
+      .command("import <file>", "Import a JSON transcript as a new session", {}, async (argv) => {
+        try {
+          const session = await importSession(argv.file as string);
+          if (argv.json) {
+            console.log(JSON.stringify({ id: session.id, title: session.title, messages: session.messages.length }));
+          } else {
+            console.log(chalk.green(`✓ Imported "${session.title}" as ${session.id}`));
+            console.log(chalk.gray(`  Resume it with zesbe --resume ${session.id}`));
+          }
+        } catch (error) {
+          console.error(chalk.red(error instanceof Error ? error.message : "Import failed"));
+          process.exit(1);
+        }
+      })
+    )
     .command("tui", "Start Ink TUI mode (experimental)", {}, async () => {
       if (isRawModeSupported()) {
         console.log(chalk.yellow('⚠️  Starting Ink TUI mode (experimental)\n'));
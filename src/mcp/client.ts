@@ -96,7 +96,7 @@ class MCPManager {
     return allTools;
   }
 
-  async callTool(toolName: string, args: Record<string, unknown>): Promise<string> {
+  async callTool(toolName: string, args: Record<string, unknown>, signal?: AbortSignal): Promise<string> {
     // Parse tool name: mcp_<server>_<tool>
     const match = toolName.match(/^mcp_([^_]+)_(.+)$/);
     if (!match) {
@@ -114,7 +114,7 @@ class MCPManager {
       const result = await mcpClient.client.callTool({
         name: actualToolName,
         arguments: args
-      });
+      }, undefined, { signal });
 
       // Extract text content from result
       if (result.content && Array.isArray(result.content)) {
@@ -0,0 +1,106 @@
+import { readFile, writeFile, mkdir } from "fs/promises";
+import { dirname, join, resolve } from "path";
+import { CONFIG_DIR } from "../config/index.js";
+
+export type PermissionPolicy = "allow" | "ask" | "deny";
+
+export type PermissionScope = "project" | "user" | "default";
+
+export interface PermissionRule {
+  tool: string; // Tool name, "*" wildcards allowed (e.g. "mcp_*")
+  policy: PermissionPolicy;
+  args?: Record<string, string>; // Argument globs that must all match, e.g. { command: "npm test*" }
+}
+
+export interface PermissionFile {
+  rules: PermissionRule[];
+  trustedProjects?: string[]; // User file only: absolute paths of projects whose rules may allow more than the fallback
+}
+
+export interface ScopedRule extends PermissionRule {
+  scope: PermissionScope;
+  trusted?: boolean; // Project rules: the project is in the user's trustedProjects
+}
+
+export const USER_PERMISSIONS_PATH = join(CONFIG_DIR, "permissions.json");
+
+export function projectPermissionsPath(cwd: string = process.cwd()): string {
+  return join(cwd, ".zesbe-modern", "permissions.json");
+}
+
+// Read-only tools are allowed unless a user or project rule says otherwise
+export const DEFAULT_RULES: PermissionRule[] = [
+  "read_file",
+  "list_directory",
+  "search_code",
+  "glob_files",
+  "git_status",
+  "git_diff",
+  "git_log",
+  "find_definition",
+  "find_references",
+  "tree",
+  "diff_files",
+  "analyze_project",
+  "env_info",
+  "read_job_output",
+  "job_status",
+  "delegate_task", // Each call the sub-agent makes is checked on its own
+  "web_search",
+  "web_fetch",
+].map((tool) => ({ tool, policy: "allow" as const }));
+
+async function readPermissionFile(path: string): Promise<PermissionFile> {
+  try {
+    const content = await readFile(path, "utf-8");
+    const parsed = JSON.parse(content) as Partial<PermissionFile>;
+    return {
+      ...parsed,
+      rules: (parsed.rules || []).filter(
+        (r) => typeof r.tool === "string" && ["allow", "ask", "deny"].includes(r.policy)
+      ),
+      trustedProjects: (parsed.trustedProjects || []).filter((p) => typeof p === "string"),
+    };
+  } catch {
+    return { rules: [] };
+  }
+}
+
+/**
+ * Load rules from the project and user files plus built-in defaults. Project
+ * rules are marked trusted when the user file lists the project directory.
+ */
+export async function loadPermissionRules(cwd: string = process.cwd()): Promise<ScopedRule[]> {
+  const [project, user] = await Promise.all([
+    readPermissionFile(projectPermissionsPath(cwd)),
+    readPermissionFile(USER_PERMISSIONS_PATH),
+  ]);
+  const trusted = (user.trustedProjects || []).some((dir) => resolve(dir) === resolve(cwd));
+
+  return [
+    ...project.rules.map((r) => ({ ...r, scope: "project" as const, trusted })),
+    ...user.rules.map((r) => ({ ...r, scope: "user" as const })),
+    ...DEFAULT_RULES.map((r) => ({ ...r, scope: "default" as const })),
+  ];
+}
+
+/**
+ * Append a rule to the user or project permissions file
+ */
+export async function addPermissionRule(
+  rule: PermissionRule,
+  scope: Exclude<PermissionScope, "default"> = "user",
+  cwd?: string
+): Promise<void> {
+  const path = scope === "project" ? projectPermissionsPath(cwd) : USER_PERMISSIONS_PATH;
+  const file = await readPermissionFile(path);
+  const rules = file.rules;
+
+  const exists = rules.some(
+    (r) => r.tool === rule.tool && r.policy === rule.policy && JSON.stringify(r.args || {}) === JSON.stringify(rule.args || {})
+  );
+  if (exists) return;
+
+  await mkdir(dirname(path), { recursive: true });
+  await writeFile(path, JSON.stringify({ ...file, rules: [...rules, rule] }, null, 2));
+}
@@ -0,0 +1,179 @@
+import type { ToolCall, ToolDefinition } from "../ai/types.js";
+import type { PermissionPolicy, PermissionRule, ScopedRule } from "./config.js";
+import { parseShell, simpleCommands, type ShellList } from "../tools/shell.js";
+
+export * from "./config.js";
+
+export interface PermissionDecision {
+  policy: PermissionPolicy;
+  rule?: ScopedRule; // Undefined when no rule matched and the fallback applied
+}
+
+// Answer from the interactive approve/deny/always prompt
+export type PermissionAnswer = "once" | "always" | "deny";
+
+// Approval of a tool call whose arguments the user changed first,
+// e.g. the new text of a file edit
+export interface EditedAnswer {
+  answer: "once" | "always";
+  arguments: Record<string, unknown>;
+}
+
+// Arguments that identify *what* a tool does, used to scope "always allow"
+const KEY_ARGUMENTS: Record<string, string> = {
+  run_command: "command",
+  start_job: "command",
+  package_manager: "action",
+  git_reset: "mode",
+  git_branch: "action",
+  git_stash: "action",
+};
+
+// Arguments holding a shell command line, matched per simple command
+const COMMAND_ARGUMENTS: Record<string, string> = {
+  run_command: "command",
+  start_job: "command",
+};
+
+const SCOPE_ORDER = { project: 0, user: 1, default: 2 };
+const POLICY_ORDER: Record<PermissionPolicy, number> = { deny: 0, ask: 1, allow: 2 };
+
+/**
+ * Convert a "*" / "?" glob into an anchored regular expression
+ */
+export function globToRegExp(glob: string): RegExp {
+  const escaped = glob.replace(/[.+^${}()|[\]\\]/g, "\\$&");
+  return new RegExp(`^${escaped.replace(/\*/g, "[\\s\\S]*").replace(/\?/g, ".")}$`);
+}
+
+// The simple commands of a command line as text, or null when it can't be
+// split safely: it doesn't parse or runs a $(...), `...` or <(...) substitution
+function commandTexts(command: string): string[] | null {
+  let list: ShellList;
+  try {
+    list = parseShell(command);
+  } catch {
+    return null;
+  }
+  const commands = simpleCommands(list);
+  const words = commands.flatMap((c) => [...c.assignments, ...c.words, ...c.redirects.map((r) => r.target)]);
+  if (words.some((w) => w.substitutions.length > 0)) return null;
+  return commands.map((c) => [...c.assignments, ...c.words].map((w) => w.text).join(" "));
+}
+
+/**
+ * Match a command line against a rule's glob. An allow rule must cover
+ * every command in it, so "npm test*" allows "npm test -- --watch" but not
+ * "npm test; curl x | sh"; a rule naming several commands ("npm ci && npm
+ * test", as saved by "always") matches them one for one. Deny and ask
+ * rules match the whole line or any one command in it.
+ */
+function commandMatches(pattern: string, command: string, policy: PermissionPolicy): boolean {
+  const commands = commandTexts(command);
+  if (policy !== "allow") {
+    return globToRegExp(pattern).test(command.trim()) || (commands || []).some((c) => globToRegExp(pattern).test(c));
+  }
+  if (!commands || commands.length === 0) return false;
+  if (commands.every((c) => globToRegExp(pattern).test(c))) return true;
+  const patterns = commandTexts(pattern);
+  return patterns?.length === commands.length && commands.every((c, i) => globToRegExp(patterns[i]).test(c));
+}
+
+function ruleMatches(rule: PermissionRule, toolName: string, args: Record<string, unknown>): boolean {
+  if (!globToRegExp(rule.tool).test(toolName)) return false;
+
+  for (const [key, pattern] of Object.entries(rule.args || {})) {
+    const value = args[key];
+    if (value === undefined || value === null) return false;
+    if (COMMAND_ARGUMENTS[toolName] === key && typeof value === "string") {
+      if (!commandMatches(pattern, value, rule.policy)) return false;
+      continue;
+    }
+    const text = typeof value === "string" ? value : JSON.stringify(value);
+    if (!globToRegExp(pattern).test(text.trim())) return false;
+  }
+
+  return true;
+}
+
+// The matching rule that decides: argument patterns first, then scope,
+// then the most restrictive policy
+function mostSpecific(matches: ScopedRule[]): ScopedRule | undefined {
+  return [...matches].sort((a, b) =>
+    Number(!!b.args) - Number(!!a.args) ||
+    SCOPE_ORDER[a.scope] - SCOPE_ORDER[b.scope] ||
+    POLICY_ORDER[a.policy] - POLICY_ORDER[b.policy]
+  )[0];
+}
+
+/**
+ * Decide whether a tool call may run. The most specific matching rule wins:
+ * rules with argument patterns beat tool-wide rules, project beats user beats
+ * defaults, and on a tie the most restrictive policy wins. Project rules come
+ * with the repository, so they can tighten the user's rules but never loosen
+ * them: a stricter matching user rule (e.g. a deny) overrides them, and
+ * unless the user trusts the project they can't allow more than the
+ * fallback. With no match the fallback applies (allow in YOLO mode, ask
+ * otherwise).
+ */
+export function checkPermission(
+  rules: ScopedRule[],
+  toolName: string,
+  args: Record<string, unknown>,
+  fallback: PermissionPolicy
+): PermissionDecision {
+  const matches = rules.filter((rule) => ruleMatches(rule, toolName, args));
+
+  let rule = mostSpecific(matches);
+  if (rule?.scope === "project") {
+    const own = mostSpecific(matches.filter((r) => r.scope === "user"));
+    if (own && POLICY_ORDER[own.policy] < POLICY_ORDER[rule.policy]) rule = own;
+  }
+
+  // The fallback is the user's own setting, so untrusted projects can't loosen it
+  if (rule?.scope === "project" && !rule.trusted && POLICY_ORDER[rule.policy] > POLICY_ORDER[fallback]) {
+    return { policy: fallback };
+  }
+
+  // In YOLO mode defaults never downgrade to "ask"
+  if (!rule || (rule.scope === "default" && POLICY_ORDER[fallback] > POLICY_ORDER[rule.policy])) {
+    return { policy: fallback };
+  }
+  return { policy: rule.policy, rule };
+}
+
+/**
+ * Drop tools that are denied outright so the model never sees them
+ */
+export function filterAllowedTools(tools: ToolDefinition[], rules: ScopedRule[]): ToolDefinition[] {
+  return tools.filter(
+    (tool) => !rules.some((rule) => rule.policy === "deny" && !rule.args && globToRegExp(rule.tool).test(tool.name))
+  );
+}
+
+/**
+ * Rule saved when the user answers "always": tool-wide, except for tools
+ * whose behaviour depends on a key argument (e.g. the exact command)
+ */
+export function alwaysAllowRule(toolCall: ToolCall): PermissionRule {
+  const key = KEY_ARGUMENTS[toolCall.name];
+  const value = key ? toolCall.arguments[key] : undefined;
+  if (key && typeof value === "string" && value) {
+    // Glob characters in the value are narrowed to "?" so they can't widen the rule
+    return { tool: toolCall.name, policy: "allow", args: { [key]: value.replace(/[*?]/g, "?") } };
+  }
+  return { tool: toolCall.name, policy: "allow" };
+}
+
+/**
+ * One-line description of a tool call for prompts
+ */
+export function describeToolCall(toolCall: ToolCall): string {
+  const args = Object.entries(toolCall.arguments || {})
+    .map(([key, value]) => {
+      const text = typeof value === "string" ? value : JSON.stringify(value);
+      return `${key}=${text.length > 60 ? text.slice(0, 57) + "..." : text}`;
+    })
+    .join(", ");
+  return `${toolCall.name}(${args})`;
+}
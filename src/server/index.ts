@@ -1,9 +1,12 @@
-import { Hono } from "hono";
+import { Hono, type Context } from "hono";
 import { cors } from "hono/cors";
 import { stream } from "hono/streaming";
-import { getProvider, type Message, type StreamChunk } from "../ai/index.js";
-import { TOOL_DEFINITIONS, executeTools } from "../tools/index.js";
+import { getProvider, type Message, type StreamChunk, type ToolCall, type ToolResult, type Usage } from "../ai/index.js";
+import { TOOL_DEFINITIONS, batchToolCalls } from "../tools/index.js";
 import { loadConfig, saveConfig, listProviders, DEFAULT_PROVIDERS } from "../config/index.js";
+import { checkPermission, loadPermissionRules } from "../permissions/index.js";
+import { Agent, ToolRegistry, type AgentEvent } from "../core/index.js";
+import { createCheckpoint } from "../utils/checkpoints.js";
 
 const app = new Hono();
 
@@ -56,27 +59,78 @@ app.get("/tools", (c) => {
   return c.json(TOOL_DEFINITIONS);
 });
 
-// Chat endpoint (non-streaming)
+// Build an agent for a chat request. There is no one to ask for approval,
+// so tools needing it are denied unless YOLO mode is on.
+async function createAgent(body: { provider?: string; model?: string; tools?: boolean; messages?: Message[] }): Promise<Agent> {
+  const config = await loadConfig();
+  const provider = await getProvider(body.provider);
+
+  // File writes are snapshotted like in the TUI, so `/checkpoints all` can restore them
+  const lastUser = [...(body.messages || [])].reverse().find((m) => m.role === "user");
+  const checkpoint = createCheckpoint(lastUser?.content || "server request");
+
+  return new Agent({
+    provider,
+    providerName: body.provider || config.provider,
+    model: body.model || config.model,
+    maxTokens: config.maxTokens,
+    temperature: config.temperature,
+    toolOutput: config.toolOutput,
+    maxParallelTools: config.maxParallelTools,
+    delegate: config.delegate.enabled ? config.delegate : undefined,
+    tools: body.tools !== false ? new ToolRegistry({ checkpoint }) : undefined,
+    permissions: {
+      rules: await loadPermissionRules(),
+      fallback: config.yolo ? "allow" : "ask",
+    },
+  });
+}
+
+// Chat endpoint (non-streaming) - runs the full tool loop
 app.post("/chat", async (c) => {
   try {
     const body = await c.req.json();
     const messages: Message[] = body.messages || [];
-    const providerName = body.provider;
-    const model = body.model;
-    const useTools = body.tools !== false;
-
-    const provider = await getProvider(providerName);
-    const config = await loadConfig();
-
-    const response = await provider.chat({
-      messages,
-      model: model || config.model,
-      maxTokens: config.maxTokens,
-      temperature: config.temperature,
-      tools: useTools ? TOOL_DEFINITIONS : undefined,
-    });
+    const agent = await createAgent(body);
+
+    const usage: Usage = { promptTokens: 0, completionTokens: 0, totalTokens: 0 };
+    const toolResults: { name: string; arguments: Record<string, unknown>; output: string; success: boolean }[] = [];
+    let provider: string | undefined;
+    let error: string | undefined;
 
-    return c.json(response);
+    for await (const event of agent.run(messages, c.req.raw.signal)) {
+      if (event.type === "usage") {
+        usage.promptTokens += event.usage.promptTokens;
+        usage.completionTokens += event.usage.completionTokens;
+        usage.totalTokens += event.usage.totalTokens;
+        provider = event.provider;
+      } else if (event.type === "tool_end") {
+        toolResults.push({
+          name: event.toolCall.name,
+          arguments: event.toolCall.arguments,
+          output: event.output,
+          success: event.result.success,
+        });
+      } else if (event.type === "error") {
+        error = event.error;
+      } else if (event.type === "done") {
+        if (error) {
+          return c.json({ error }, 500);
+        }
+        return c.json({
+          content: event.content,
+          thinking: event.thinking,
+          finishReason: event.reason,
+          iterations: event.iterations,
+          toolResults,
+          messages: event.messages.slice(messages.length),
+          usage,
+          provider,
+        });
+      }
+    }
+
+    return c.json({ error: "Agent stopped without a response" }, 500);
   } catch (error) {
     return c.json(
       { error: error instanceof Error ? error.message : "Unknown error" },
@@ -85,29 +139,42 @@ app.post("/chat", async (c) => {
   }
 });
 
-// Chat stream endpoint
-app.post("/chat/stream", async (c) => {
+// Agent events in the StreamChunk shape /chat/stream has always sent.
+// Thinking, progress and sub-agent activity have no chunk type and are left out.
+function toStreamChunk(event: AgentEvent): StreamChunk | null {
+  switch (event.type) {
+    case "text":
+      return { type: "text", content: event.delta };
+    case "provider":
+      return { type: "provider", provider: event.provider };
+    case "retry":
+      return { type: "retry", content: event.message };
+    case "usage":
+      return { type: "usage", usage: event.usage, model: event.model, provider: event.provider };
+    case "tool_start":
+      return { type: "tool_call", toolCall: event.toolCall };
+    case "tool_end":
+      return { type: "tool_result", toolCall: event.toolCall, toolResult: event.result };
+    case "error":
+      return { type: "error", error: event.error };
+    case "done":
+      return { type: "done" };
+    default:
+      return null;
+  }
+}
+
+// Run the agent for a chat request and send each event as SSE data
+async function streamAgent(c: Context, format: (event: AgentEvent) => object | null): Promise<Response> {
   const body = await c.req.json();
   const messages: Message[] = body.messages || [];
-  const providerName = body.provider;
-  const model = body.model;
-  const useTools = body.tools !== false;
-
-  const provider = await getProvider(providerName);
-  const config = await loadConfig();
+  const agent = await createAgent(body);
 
   return stream(c, async (stream) => {
     try {
-      const generator = provider.chatStream({
-        messages,
-        model: model || config.model,
-        maxTokens: config.maxTokens,
-        temperature: config.temperature,
-        tools: useTools ? TOOL_DEFINITIONS : undefined,
-      });
-
-      for await (const chunk of generator) {
-        await stream.write(`data: ${JSON.stringify(chunk)}\n\n`);
+      for await (const event of agent.run(messages, c.req.raw.signal)) {
+        const data = format(event);
+        if (data) await stream.write(`data: ${JSON.stringify(data)}\n\n`);
       }
     } catch (error) {
       await stream.write(
@@ -118,7 +185,36 @@ app.post("/chat/stream", async (c) => {
       );
     }
   });
-});
+}
+
+// Chat stream endpoint - runs the full tool loop, sent as StreamChunks
+app.post("/chat/stream", (c) => streamAgent(c, toStreamChunk));
+
+// Chat events endpoint - one SSE event per agent event, including thinking,
+// tool progress and sub-agent activity
+app.post("/chat/events", (c) => streamAgent(c, (event) => event));
+
+// Run tools sent directly, with the checkpoint and permission rules /chat
+// applies; as there, tools needing approval are denied unless YOLO mode is on
+async function executeRequestTools(calls: ToolCall[]): Promise<ToolResult[]> {
+  const config = await loadConfig();
+  const rules = await loadPermissionRules();
+  const tools = new ToolRegistry({ checkpoint: createCheckpoint(`server: ${calls.map((c) => c.name).join(", ")}`) });
+
+  const run = (toolCall: ToolCall): Promise<ToolResult> => {
+    const { policy } = checkPermission(rules, toolCall.name, toolCall.arguments || {}, config.yolo ? "allow" : "ask");
+    if (policy !== "allow") {
+      return Promise.resolve({ toolCallId: toolCall.id, success: false, error: `Permission denied for ${toolCall.name}` });
+    }
+    return tools.execute(toolCall);
+  };
+
+  const results: ToolResult[] = [];
+  for (const batch of batchToolCalls(calls, (name) => tools.isReadOnly(name))) {
+    results.push(...(await Promise.all(batch.map(run))));
+  }
+  return results;
+}
 
 // Execute tool
 app.post("/tools/execute", async (c) => {
@@ -126,8 +222,8 @@ app.post("/tools/execute", async (c) => {
     const body = await c.req.json();
     const { name, arguments: args } = body;
 
-    const result = await executeTools([{ name, arguments: args, id: `tool_${Date.now()}` }]);
-    return c.json(result[0]);
+    const [result] = await executeRequestTools([{ name, arguments: args || {}, id: `tool_${Date.now()}` }]);
+    return c.json(result);
   } catch (error) {
     return c.json(
       { error: error instanceof Error ? error.message : "Unknown error" },
@@ -140,10 +236,13 @@ app.post("/tools/execute", async (c) => {
 app.post("/tools/batch", async (c) => {
   try {
     const body = await c.req.json();
-    const tools = body.tools || [];
+    const calls: ToolCall[] = (body.tools || []).map((tool: ToolCall, i: number) => ({
+      ...tool,
+      arguments: tool.arguments || {},
+      id: tool.id || `tool_${Date.now()}_${i}`,
+    }));
 
-    const results = await executeTools(tools);
-    return c.json(results);
+    return c.json(await executeRequestTools(calls));
   } catch (error) {
     return c.json(
       { error: error instanceof Error ? error.message : "Unknown error" },
@@ -0,0 +1,348 @@
+import { basename } from "path";
+import { loadConfig, type Config } from "../config/index.js";
+import { globToRegExp } from "../permissions/index.js";
+import { ProcessError, runProcess, type ProcessOptions } from "./process.js";
+import { parseShell, simpleCommands, ShellParseError, type SimpleCommand } from "./shell.js";
+
+export type CommandPolicy = Config["commands"];
+
+export interface PolicyViolation {
+  type: "policy_violation";
+  reason: "denied" | "not_allowed" | "unverifiable" | "parse_error";
+  command: string; // The offending part of the command line
+  rule?: string;
+  detail: string;
+}
+
+// Why run_command refused or stopped a command; sent to the model as JSON
+export type CommandErrorDetails =
+  | PolicyViolation
+  | { type: "resource_limit"; limit: "timeout" | "output" | "cpu"; max: number; unit: "s" | "bytes"; command: string }
+  | { type: "sandbox_unavailable"; detail: string };
+
+export class CommandError extends Error {
+  constructor(summary: string, public details: CommandErrorDetails) {
+    super(`${summary}\n${JSON.stringify(details)}`);
+    this.name = "CommandError";
+  }
+}
+
+// Words that open or continue a control structure; the program follows them
+const RESERVED_PREFIXES = new Set(["if", "then", "else", "elif", "while", "until", "do", "!", "time"]);
+// Words that end a structure or bind a name rather than run anything
+const RESERVED_STATEMENTS = new Set(["fi", "done", "for", "select", "in", "esac", "{", "}"]);
+
+// Programs that run another program given as an argument; the value is
+// the options that take a separate value, and whether a leading operand
+// (timeout's duration) comes before the command
+const WRAPPERS: Record<string, { valueOptions: string[]; operand?: boolean; assignments?: boolean }> = {
+  env: { valueOptions: ["-u", "--unset", "-C", "--chdir", "-S", "--split-string"], assignments: true },
+  sudo: { valueOptions: ["-u", "-g", "-C", "-D", "-h", "-p", "-r", "-t", "-U"] },
+  doas: { valueOptions: ["-u", "-C"] },
+  nice: { valueOptions: ["-n", "--adjustment"] },
+  ionice: { valueOptions: ["-c", "-n", "-p", "-P", "-u"] },
+  nohup: { valueOptions: [] },
+  setsid: { valueOptions: [] },
+  stdbuf: { valueOptions: ["-i", "-o", "-e"] },
+  time: { valueOptions: ["-f", "-o"] },
+  timeout: { valueOptions: ["-s", "--signal", "-k", "--kill-after"], operand: true },
+  xargs: { valueOptions: ["-I", "-n", "-P", "-d", "-L", "-s", "-a", "-E", "-i"] },
+  exec: { valueOptions: ["-a"] },
+  command: { valueOptions: [] },
+  builtin: { valueOptions: [] },
+  watch: { valueOptions: ["-n", "--interval", "-d"] },
+  busybox: { valueOptions: [] }, // The applet is the program, e.g. busybox sh -c ...
+  toybox: { valueOptions: [] },
+};
+
+// find actions that run the command after them, up to a ";" or "+"
+const FIND_ACTIONS = new Set(["-exec", "-execdir", "-ok", "-okdir"]);
+
+const SHELLS = new Set(["sh", "bash", "zsh", "dash", "ksh", "fish"]);
+
+// One program invocation found in a command line
+interface Invocation {
+  argv: string[];
+  dynamic: boolean; // The program name depends on a variable or substitution
+  text: string;
+}
+
+function invocationsOf(command: SimpleCommand): Invocation[] {
+  let words = command.words;
+  while (words.length > 0 && !words[0].dynamic && RESERVED_PREFIXES.has(words[0].text)) words = words.slice(1);
+  if (words.length === 0 || RESERVED_STATEMENTS.has(words[0].text)) return [];
+
+  const argv = words.map((w) => w.text);
+  const found: Invocation[] = [{ argv, dynamic: words[0].dynamic, text: argv.join(" ") }];
+  const program = basename(argv[0]);
+
+  // The program a wrapper runs is checked too
+  const wrapper = WRAPPERS[program];
+  if (wrapper && !words[0].dynamic) {
+    let i = 1;
+    let operandSeen = !wrapper.operand;
+    while (i < words.length) {
+      const arg = argv[i];
+      if (arg === "--") {
+        i++;
+        break;
+      }
+      if (arg.startsWith("-")) {
+        i += wrapper.valueOptions.includes(arg) ? 2 : 1;
+      } else if (wrapper.assignments && /^[A-Za-z_][A-Za-z0-9_]*=/.test(arg)) {
+        i++;
+      } else if (!operandSeen) {
+        operandSeen = true;
+        i++;
+      } else break;
+    }
+    if (i < words.length) {
+      found.push(...invocationsOf({ ...command, words: words.slice(i) }));
+    }
+  }
+
+  // find . -exec prog {} ; runs prog for each file
+  if (program === "find" && !words[0].dynamic) {
+    for (let i = 1; i < words.length; i++) {
+      if (!FIND_ACTIONS.has(argv[i])) continue;
+      const end = argv.findIndex((arg, j) => j > i && (arg === ";" || arg === "+"));
+      const stop = end === -1 ? words.length : end;
+      if (stop > i + 1) found.push(...invocationsOf({ ...command, words: words.slice(i + 1, stop) }));
+      i = stop;
+    }
+  }
+
+  // sh -c "...", bash -lc "..." and eval run a string as a command line
+  const script = SHELLS.has(program)
+    ? words.findIndex((w, i) => i > 0 && /^-[a-z]*c[a-z]*$/.test(w.text)) + 1
+    : program === "eval" ? 1 : 0;
+  if (script > 0 && script < words.length) {
+    const source = program === "eval" ? argv.slice(1).join(" ") : argv[script];
+    if (words.slice(script).some((w) => w.dynamic)) {
+      found.push({ argv: [source], dynamic: true, text: source });
+    } else {
+      found.push(...parseInvocations(source));
+    }
+  }
+
+  return found;
+}
+
+function parseInvocations(source: string): Invocation[] {
+  return simpleCommands(parseShell(source)).flatMap(invocationsOf);
+}
+
+/**
+ * Rules without a space name a program ("sudo", "mkfs*"); rules with one
+ * are matched against the whole invocation ("git push --force*"), and
+ * deny rules also by their arguments (see argvMatches)
+ */
+function ruleMatches(rule: string, invocation: Invocation): boolean {
+  if (rule.includes(" ")) return globToRegExp(rule).test(invocation.text);
+  return globToRegExp(rule).test(basename(invocation.argv[0]));
+}
+
+// Long options read as the short flag they stand for in deny rules
+const LONG_FLAGS: Record<string, string> = { "--recursive": "r", "--force": "f" };
+
+const shortFlags = (arg: string): string[] | null =>
+  /^-[A-Za-z]+$/.test(arg) ? [...arg.slice(1)] : LONG_FLAGS[arg] ? [LONG_FLAGS[arg]] : null;
+
+// "/*", "/." and trailing slashes name the same directory as the path itself
+function targetOf(arg: string): string {
+  let target = arg;
+  for (;;) {
+    const next = target.replace(/\/(\*|\.)?$/, "") || "/";
+    if (next === target) return target;
+    target = next;
+  }
+}
+
+/**
+ * Deny rules with spaces also match on the parsed arguments, so flags can
+ * come in any order or grouping and a directory can be given as "dir/" or
+ * "dir/*": "rm -rf /" blocks "rm -fr /", "rm -r -f /*" and "rm -rf --
+ * /tmp /". Each flag of the rule must be given and each other word of it
+ * must match some argument.
+ */
+function argvMatches(rule: string, invocation: Invocation): boolean {
+  const [program, ...words] = rule.trim().split(/\s+/);
+  if (!globToRegExp(program).test(basename(invocation.argv[0]))) return false;
+
+  const args = invocation.argv.slice(1);
+  const flags = new Set(args.flatMap((arg) => shortFlags(arg) || []));
+  const targets = args.map(targetOf);
+  return words.every((word) => {
+    const needed = shortFlags(word);
+    if (needed) return needed.every((flag) => flags.has(flag));
+    const pattern = globToRegExp(targetOf(word));
+    return targets.some((target) => pattern.test(target));
+  });
+}
+
+function denies(rule: string, invocation: Invocation): boolean {
+  return ruleMatches(rule, invocation) || (rule.includes(" ") && argvMatches(rule, invocation));
+}
+
+/**
+ * Check a command line against the policy: every program it runs
+ * (including in pipes, subshells, substitutions and sh -c strings) must
+ * not match a deny rule and, when there is an allowlist, must match it.
+ * Returns the violation, or null when the command may run.
+ */
+export function checkCommand(command: string, policy: CommandPolicy): PolicyViolation | null {
+  let invocations: Invocation[];
+  try {
+    invocations = parseInvocations(command);
+  } catch (error) {
+    if (!(error instanceof ShellParseError)) throw error;
+    return {
+      type: "policy_violation",
+      reason: "parse_error",
+      command,
+      detail: `The command could not be parsed (${error.message}), so it can't be checked. Fix the syntax or split it into simpler commands.`,
+    };
+  }
+
+  for (const invocation of invocations) {
+    const rule = policy.deny.find((r) => denies(r, invocation));
+    if (rule) {
+      return { type: "policy_violation", reason: "denied", command: invocation.text, rule, detail: `"${rule}" is denied by the command policy.` };
+    }
+  }
+
+  if (policy.allow.length > 0) {
+    for (const invocation of invocations) {
+      if (invocation.dynamic) {
+        return {
+          type: "policy_violation",
+          reason: "unverifiable",
+          command: invocation.text,
+          detail: "The program to run depends on a variable or substitution, so it can't be checked against the allowlist.",
+        };
+      }
+      if (!policy.allow.some((r) => ruleMatches(r, invocation))) {
+        return {
+          type: "policy_violation",
+          reason: "not_allowed",
+          command: invocation.text,
+          detail: `Only these commands may run: ${policy.allow.join(", ")}.`,
+        };
+      }
+    }
+  }
+
+  return null;
+}
+
+// Environment for commands, without variables matching the scrub globs
+export function scrubEnvironment(env: NodeJS.ProcessEnv, patterns: string[]): NodeJS.ProcessEnv {
+  const scrub = patterns.map((pattern) => globToRegExp(pattern));
+  return Object.fromEntries(Object.entries(env).filter(([name]) => !scrub.some((pattern) => pattern.test(name))));
+}
+
+let isolation: Promise<string[] | null> | undefined;
+
+// Prefix that runs a program without network access: unshare (as root or
+// with user namespaces) or bubblewrap, whichever works here
+function networkIsolation(): Promise<string[] | null> {
+  isolation ??= (async () => {
+    const candidates = [
+      ["unshare", "--net"],
+      ["unshare", "--net", "--map-root-user"],
+      ["bwrap", "--dev-bind", "/", "/", "--unshare-net", "--die-with-parent"],
+    ];
+    for (const prefix of candidates) {
+      try {
+        await runProcess(prefix[0], [...prefix.slice(1), "true"], { timeout: 5000 });
+        return prefix;
+      } catch {
+        // Not installed or not permitted here
+      }
+    }
+    return null;
+  })();
+  return isolation;
+}
+
+// How to start a command line that passed the policy
+export interface PreparedCommand {
+  program: string;
+  args: string[];
+  env: NodeJS.ProcessEnv;
+}
+
+/**
+ * Check a command line against the policy and build the /bin/sh invocation
+ * that runs it with a scrubbed environment, CPU and memory rlimits and, if
+ * configured, no network. Violations are thrown as CommandErrors.
+ */
+export async function prepareCommand(command: string, policy: CommandPolicy): Promise<PreparedCommand> {
+  const violation = checkCommand(command, policy);
+  if (violation) throw new CommandError(`Command blocked by policy: ${violation.detail}`, violation);
+
+  let prefix: string[] = [];
+  if (!policy.network) {
+    const found = await networkIsolation();
+    if (!found) {
+      const detail = "commands.network is false, but neither unshare nor bwrap can create a network namespace here.";
+      throw new CommandError(`Command not run: ${detail}`, { type: "sandbox_unavailable", detail });
+    }
+    prefix = found;
+  }
+
+  // The command is passed as $1 and evaluated after the limits are set,
+  // so it is never spliced into the script. The soft CPU limit sends
+  // SIGXCPU; the hard one a second later kills anything that ignores it.
+  const cpu = `ulimit -t ${policy.cpuSeconds + 1} 2>/dev/null; ulimit -S -t ${policy.cpuSeconds} 2>/dev/null`;
+  const limits = `${cpu}; ulimit -d ${policy.memoryMb * 1024} 2>/dev/null; eval "$1"`;
+  const [program, ...args] = [...prefix, "/bin/sh", "-c", limits, "sh", command];
+  return { program, args, env: scrubEnvironment(process.env, policy.scrubEnv) };
+}
+
+/**
+ * Run a command line under the policy (see prepareCommand) with a
+ * wall-clock timeout and an output cap. Violations and exceeded limits are
+ * thrown as CommandErrors.
+ */
+export async function runCommand(
+  command: string,
+  cwd: string,
+  policy: CommandPolicy,
+  signal?: AbortSignal,
+  onLine?: ProcessOptions["onLine"]
+): Promise<{ stdout: string; stderr: string }> {
+  const { program, args, env } = await prepareCommand(command, policy);
+
+  try {
+    const { stdout, stderr } = await runProcess(program, args, {
+      cwd,
+      env,
+      signal,
+      timeout: policy.timeout * 1000,
+      maxBuffer: policy.maxOutput,
+      label: command,
+      onLine,
+    });
+    return { stdout, stderr };
+  } catch (error) {
+    if (!(error instanceof ProcessError)) throw error;
+    if (error.reason === "timeout") {
+      throw new CommandError(`Command timed out after ${policy.timeout}s`, { type: "resource_limit", limit: "timeout", max: policy.timeout, unit: "s", command });
+    }
+    if (error.reason === "output") {
+      throw new CommandError(`Command output exceeded ${policy.maxOutput} bytes`, { type: "resource_limit", limit: "output", max: policy.maxOutput, unit: "bytes", command });
+    }
+    if (error.signal === "SIGXCPU" || error.code === 128 + 24) {
+      throw new CommandError(`Command used more than ${policy.cpuSeconds}s of CPU time`, { type: "resource_limit", limit: "cpu", max: policy.cpuSeconds, unit: "s", command });
+    }
+    throw error;
+  }
+}
+
+/**
+ * The command policy from config
+ */
+export async function loadCommandPolicy(): Promise<CommandPolicy> {
+  return (await loadConfig()).commands;
+}
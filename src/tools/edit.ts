@@ -0,0 +1,239 @@
+// One replacement in an edit_file call
+export interface TextEdit {
+  old_text: string;
+  new_text: string;
+  replace_all?: boolean; // Replace every match instead of requiring a unique one
+  occurrence?: number; // 1-based: which of several matches to replace
+}
+
+type MatchMode = "exact" | "line endings" | "whitespace";
+
+interface Match {
+  start: number;
+  end: number;
+}
+
+const MODE_NOTES: Record<MatchMode, string> = {
+  exact: "",
+  "line endings": "matched after normalising line endings",
+  whitespace: "matched ignoring whitespace differences",
+};
+
+// Rough character comparisons notFoundMessage may spend looking for the
+// closest region; past this it reports a plain "not found"
+const MAX_SCAN_WORK = 20_000_000;
+
+function toEdit(raw: unknown): TextEdit {
+  if (!raw || typeof raw !== "object") throw new Error("Each edit must be an object with old_text and new_text");
+  const edit = raw as Record<string, unknown>;
+
+  if (typeof edit.old_text !== "string" || edit.old_text === "") throw new Error("old_text is required and must not be empty");
+  if (typeof edit.new_text !== "string") throw new Error("new_text is required");
+
+  let occurrence: number | undefined;
+  if (edit.occurrence !== undefined && edit.occurrence !== null && edit.occurrence !== "") {
+    occurrence = Number(edit.occurrence);
+    if (!Number.isInteger(occurrence) || occurrence < 1) throw new Error("occurrence must be a whole number from 1");
+  }
+
+  return {
+    old_text: edit.old_text,
+    new_text: edit.new_text,
+    replace_all: edit.replace_all === true || edit.replace_all === "true",
+    occurrence,
+  };
+}
+
+/**
+ * The edits an edit_file call asks for: either the `edits` array (which
+ * models sometimes send as a JSON string) or a single old_text/new_text
+ */
+export function parseEdits(args: Record<string, unknown>): TextEdit[] {
+  let edits = args.edits;
+  if (edits === undefined || edits === null || edits === "") return [toEdit(args)];
+
+  if (typeof edits === "string") {
+    try {
+      edits = JSON.parse(edits);
+    } catch {
+      throw new Error("edits must be an array of {old_text, new_text} objects");
+    }
+  }
+  if (!Array.isArray(edits) || edits.length === 0) throw new Error("edits must be a non-empty array");
+  if (args.old_text !== undefined) throw new Error("Pass either old_text/new_text or edits, not both");
+
+  return edits.map(toEdit);
+}
+
+function findAll(content: string, needle: string): Match[] {
+  const matches: Match[] = [];
+  for (let i = content.indexOf(needle); i !== -1; i = content.indexOf(needle, i + needle.length)) {
+    matches.push({ start: i, end: i + needle.length });
+  }
+  return matches;
+}
+
+function escapeRegExp(text: string): string {
+  return text.replace(/[.*+?^${}()|[\]\\]/g, "\\$&");
+}
+
+/**
+ * Find old_text exactly, then with the file's line endings, then with any
+ * run of whitespace allowed wherever old_text has whitespace
+ */
+function findMatches(content: string, oldText: string, eol: string): { matches: Match[]; mode: MatchMode } {
+  const exact = findAll(content, oldText);
+  if (exact.length > 0) return { matches: exact, mode: "exact" };
+
+  const converted = oldText.replace(/\r?\n/g, eol);
+  if (converted !== oldText) {
+    const matches = findAll(content, converted);
+    if (matches.length > 0) return { matches, mode: "line endings" };
+  }
+
+  const tokens = oldText.trim().split(/\s+/).filter(Boolean);
+  if (tokens.length === 0) return { matches: [], mode: "whitespace" };
+  const pattern = new RegExp(tokens.map(escapeRegExp).join("\\s+"), "g");
+  try {
+    const matches = [...content.matchAll(pattern)].map((m) => ({ start: m.index!, end: m.index! + m[0].length }));
+    return { matches, mode: "whitespace" };
+  } catch {
+    // Too large to compile; only exact matches count then
+    return { matches: [], mode: "whitespace" };
+  }
+}
+
+function lineAt(content: string, offset: number): number {
+  let line = 1;
+  for (let i = content.indexOf("\n"); i !== -1 && i < offset; i = content.indexOf("\n", i + 1)) line++;
+  return line;
+}
+
+function bigrams(text: string): Map<string, number> {
+  const counts = new Map<string, number>();
+  for (let i = 0; i < text.length - 1; i++) {
+    const pair = text.slice(i, i + 2);
+    counts.set(pair, (counts.get(pair) || 0) + 1);
+  }
+  return counts;
+}
+
+// Dice coefficient of two lines' character pairs, 0..1
+function similarity(a: Map<string, number>, b: Map<string, number>, aText: string, bText: string): number {
+  if (aText === bText) return 1;
+  if (a.size === 0 || b.size === 0) return 0;
+  let shared = 0;
+  let total = 0;
+  for (const [pair, count] of a) {
+    shared += Math.min(count, b.get(pair) || 0);
+    total += count;
+  }
+  for (const count of b.values()) total += count;
+  return (2 * shared) / total;
+}
+
+/**
+ * Explain a failed match: the region of the file most like old_text and
+ * the first line where they differ. Large files with long old_text get
+ * only the plain message, since the search is synchronous.
+ */
+function notFoundMessage(content: string, oldText: string): string {
+  const message = "Text not found in file. Make sure old_text matches exactly.";
+  const fileLines = content.split(/\r?\n/);
+  const wanted = oldText.replace(/^\s*\n|\n\s*$/g, "").split(/\r?\n/);
+  const size = Math.min(wanted.length, fileLines.length);
+  if (size === 0) return message;
+  // Every file line is compared with up to size lines of old_text
+  if (content.length * size + oldText.length * fileLines.length > MAX_SCAN_WORK) return message;
+
+  const fileGrams = fileLines.map((line) => bigrams(line.trim()));
+  const wantedGrams = wanted.map((line) => bigrams(line.trim()));
+
+  let best = { line: 0, score: -1 };
+  for (let i = 0; i + size <= fileLines.length; i++) {
+    let score = 0;
+    for (let j = 0; j < size; j++) {
+      score += similarity(fileGrams[i + j], wantedGrams[j], fileLines[i + j].trim(), wanted[j].trim());
+    }
+    if (score > best.score) best = { line: i, score };
+  }
+
+  const percent = Math.round((best.score / size) * 100);
+  if (percent < 30) return `${message}\nNo similar region found.`;
+
+  const region = fileLines.slice(best.line, best.line + size);
+  const out = [
+    message,
+    `Closest match at lines ${best.line + 1}-${best.line + size} (${percent}% similar):`,
+    ...region.map((line, i) => `${String(best.line + i + 1).padStart(4)} │ ${line}`),
+  ];
+  const diff = region.findIndex((line, i) => line !== wanted[i]);
+  if (diff !== -1) {
+    out.push(
+      `First difference at line ${best.line + diff + 1}:`,
+      `  expected: ${JSON.stringify(wanted[diff])}`,
+      `  found:    ${JSON.stringify(region[diff])}`
+    );
+  }
+  return out.join("\n");
+}
+
+function applyEdit(content: string, edit: TextEdit): { content: string; note: string } {
+  if (edit.old_text === edit.new_text) throw new Error("old_text and new_text are identical");
+
+  const eol = content.includes("\r\n") ? "\r\n" : "\n";
+  const { matches, mode } = findMatches(content, edit.old_text, eol);
+  if (matches.length === 0) throw new Error(notFoundMessage(content, edit.old_text));
+
+  let selected = matches;
+  if (edit.occurrence !== undefined) {
+    if (edit.occurrence > matches.length) {
+      throw new Error(`occurrence ${edit.occurrence} requested but old_text matches ${matches.length} place${matches.length === 1 ? "" : "s"}`);
+    }
+    selected = [matches[edit.occurrence - 1]];
+  } else if (matches.length > 1 && !edit.replace_all) {
+    const lines = matches.map((m) => lineAt(content, m.start)).join(", ");
+    throw new Error(
+      `old_text matches ${matches.length} places (lines ${lines}). ` +
+      `Include more surrounding text to make it unique, set occurrence (1-${matches.length}), or set replace_all.`
+    );
+  }
+
+  // Keep the file's line endings, and its indentation when matched loosely
+  let replacement = edit.new_text.replace(/\r?\n/g, eol);
+  if (mode === "whitespace") {
+    if (/^\s/.test(edit.old_text)) replacement = replacement.trimStart();
+    if (/\s$/.test(edit.old_text)) replacement = replacement.trimEnd();
+  }
+
+  let result = content;
+  for (const match of [...selected].reverse()) {
+    result = result.slice(0, match.start) + replacement + result.slice(match.end);
+  }
+
+  const notes = [MODE_NOTES[mode], selected.length > 1 ? `replaced ${selected.length} occurrences` : ""].filter(Boolean);
+  return { content: result, note: notes.join(", ") };
+}
+
+/**
+ * Apply edits in order to a file's content. Throws on the first edit that
+ * can't be applied, so either every edit lands or none do.
+ */
+export function applyEdits(content: string, edits: TextEdit[]): { content: string; notes: string[] } {
+  const notes: string[] = [];
+  let result = content;
+
+  edits.forEach((edit, i) => {
+    const label = edits.length > 1 ? `Edit ${i + 1} of ${edits.length}: ` : "";
+    try {
+      const applied = applyEdit(result, edit);
+      result = applied.content;
+      if (applied.note) notes.push(`${label}${applied.note}`);
+    } catch (error) {
+      const reason = error instanceof Error ? error.message : String(error);
+      throw new Error(edits.length > 1 ? `${label}${reason}\nNo edits were applied.` : reason);
+    }
+  });
+
+  return { content: result, notes };
+}
@@ -1,10 +1,306 @@
-import { readFile, writeFile, mkdir, readdir, stat } from "fs/promises";
-import { exec } from "child_process";
-import { promisify } from "util";
-import { dirname, join, resolve } from "path";
-import type { ToolDefinition, ToolResult } from "../ai/types.js";
+import { readFile, writeFile, mkdir, readdir, stat, unlink } from "fs/promises";
+import { basename, dirname, join, resolve } from "path";
+import type { FileDiff, ToolDefinition, ToolProgress, ToolResult } from "../ai/types.js";
+import type { Checkpoint } from "../utils/checkpoints.js";
+import { diffFile, diffStats } from "../utils/diff.js";
+import { applyEdits, parseEdits } from "./edit.js";
+import { parsePatch, applyHunks, formatHunkResult } from "./patch.js";
+import type { Workspace } from "./workspace.js";
+import { runProcess, checkArgument, splitArguments } from "./process.js";
+import { runCommand, loadCommandPolicy, type CommandPolicy } from "./command.js";
+import { jobManager, describeJob } from "./jobs.js";
+
+// A file write a tool is about to make; before is null for new files,
+// after is null for deleted ones
+interface PlannedWrite {
+  path: string;
+  before: string | null;
+  after: string | null;
+  oldPath?: string; // Set when the file is renamed from here to path
+}
+
+// What a tool call runs with besides its arguments
+export interface ToolContext {
+  signal?: AbortSignal;
+  checkpoint?: Checkpoint; // Files are snapshotted here before being written
+  workspace?: Workspace | null; // Path arguments must stay inside this when set
+  commandPolicy?: CommandPolicy; // Rules and limits for run_command and start_job (default: from config)
+  onProgress?: (progress: ToolProgress) => void; // Live output of long-running tools; the result is unaffected
+}
+
+// Argument holding the new text of each file-writing tool, which the
+// approval prompt lets the user edit
+export const EDITABLE_ARGUMENTS: Record<string, string> = {
+  write_file: "content",
+  edit_file: "new_text",
+  batch_edit: "new_text",
+  apply_patch: "patch",
+};
+
+// Tools that only look at things, so calls to them can run side by side.
+// read_job_output is not one: reading moves the job's output cursor.
+export const READ_ONLY_TOOLS = new Set([
+  "read_file",
+  "list_directory",
+  "search_code",
+  "glob_files",
+  "git_status",
+  "git_diff",
+  "git_log",
+  "find_definition",
+  "find_references",
+  "tree",
+  "diff_files",
+  "analyze_project",
+  "env_info",
+  "job_status",
+  "web_search",
+  "web_fetch",
+]);
+
+// How many read-only calls run at once
+export const MAX_PARALLEL_TOOLS = 4;
+
+// Branch names git accepts, minus anything that could read as an option or a range
+const BRANCH_NAME = /^(?!.*\.\.)[\w./@+-]+$/;
+
+// Package specs across npm, cargo, pip and go ("lodash@^4", "requests>=2", "github.com/x/y@v1")
+const PACKAGE_SPEC = /^[\w@./:~^<>=!+,*-]+$/;
+
+// Identifiers find_definition and find_references accept; they become part of a regex
+const SYMBOL = /^[A-Za-z_$][\w$]*$/;
+
+// Line cap for searches and listings, a guard against runaway scans; what
+// the model gets is trimmed to fit the context by the agent (see output.ts)
+const MAX_RESULT_LINES = 2000;
+
+// File types code searches look at unless told otherwise
+const CODE_FILES = ["*.ts", "*.tsx", "*.js", "*.jsx", "*.py", "*.go", "*.rs"];
+
+// Absolute path for a path argument, checked against the workspace if there is one
+async function locate(path: string, workspace?: Workspace | null): Promise<string> {
+  return workspace ? workspace.resolve(path) : resolve(path);
+}
+
+// Drop search results (one per line, path first) that the workspace hides
+function hideDenied(output: string, workspace?: Workspace | null): string {
+  if (!workspace) return output;
+  return output
+    .split("\n")
+    .filter((line) => !line || workspace.isVisible(line.split(":")[0]))
+    .join("\n");
+}
+
+// Native tree output, run with -f so each entry is a full path that can be
+// checked like hideDenied does; entries are shown by name again
+function hideDeniedTree(output: string, workspace?: Workspace | null): string {
+  return output
+    .split("\n")
+    .flatMap((line, index) => {
+      const [, branch, entry] = line.match(/^([│├└─\s\u00a0]*)(.*)$/)!;
+      if (index === 0 || !entry) return [line];
+      const path = entry.split(" -> ")[0];
+      if (workspace && !workspace.isVisible(path)) return [];
+      return [branch + basename(path) + entry.slice(path.length)];
+    })
+    .join("\n");
+}
+
+// Only http(s) URLs, so curl can't be pointed at files or read the URL as an option
+function checkUrl(value: string): string {
+  let url: URL;
+  try {
+    url = new URL(value);
+  } catch {
+    throw new Error(`Invalid URL: ${JSON.stringify(value)}`);
+  }
+  if (url.protocol !== "http:" && url.protocol !== "https:") {
+    throw new Error(`Only http and https URLs can be fetched, not ${url.protocol}`);
+  }
+  return url.toString();
+}
+
+// Rough HTML to text: drop scripts, styles and tags, decode common entities
+function htmlToText(html: string): string {
+  return html
+    .replace(/<script[^>]*>[\s\S]*?<\/script>/gi, "")
+    .replace(/<style[^>]*>[\s\S]*?<\/style>/gi, "")
+    .replace(/<[^>]*>/g, "")
+    .replace(/&nbsp;/g, " ")
+    .replace(/&lt;/g, "<")
+    .replace(/&gt;/g, ">")
+    .replace(/&amp;/g, "&")
+    .replace(/ +/g, " ")
+    .replace(/\n+/g, "\n")
+    .split("\n")
+    .slice(0, 200)
+    .join("\n");
+}
+
+async function readIfExists(path: string): Promise<string | null> {
+  try {
+    return await readFile(path, "utf-8");
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code === "ENOENT") return null;
+    throw error;
+  }
+}
+
+async function planWriteFile(args: Record<string, unknown>, workspace?: Workspace | null): Promise<PlannedWrite[]> {
+  const path = await locate(args.path as string, workspace);
+  return [{ path, before: await readIfExists(path), after: args.content as string }];
+}
+
+async function planEditFile(args: Record<string, unknown>, workspace?: Workspace | null): Promise<{ writes: PlannedWrite[]; notes: string[] }> {
+  const path = await locate(args.path as string, workspace);
+  const edits = parseEdits(args);
+
+  const content = await readFile(path, "utf-8");
+  const { content: after, notes } = applyEdits(content, edits);
+  return { writes: [{ path, before: content, after }], notes };
+}
+
+async function planBatchEdit(
+  args: Record<string, unknown>,
+  workspace?: Workspace | null,
+  onProgress?: (progress: ToolProgress) => void
+): Promise<{ writes: PlannedWrite[]; matched: number }> {
+  const pattern = args.pattern as string;
+  const oldText = args.old_text as string;
+  const newText = args.new_text as string;
+  const basePath = await locate((args.path as string) || ".", workspace);
+
+  // Find matching files
+  const { stdout: filesOut } = await runProcess(
+    "find",
+    [basePath, "-type", "f", "-name", pattern.replace(/\*\*/g, "*"), "!", "-path", "*/node_modules/*", "!", "-path", "*/.git/*"],
+    { timeout: 10000, allowFailure: true }
+  );
 
-const execAsync = promisify(exec);
+  const files = filesOut.split('\n').filter(f => f.trim() && (!workspace || workspace.isVisible(f)));
+  const writes: PlannedWrite[] = [];
+
+  for (const [i, file] of files.entries()) {
+    try {
+      const content = await readFile(file, "utf-8");
+      if (content.includes(oldText)) {
+        writes.push({ path: file, before: content, after: content.split(oldText).join(newText) });
+      }
+    } catch {}
+    if ((i + 1) % 25 === 0 || i === files.length - 1) {
+      onProgress?.({ type: "status", message: `Scanned ${i + 1}/${files.length} files, ${writes.length} to change` });
+    }
+  }
+
+  return { writes, matched: files.length };
+}
+
+/**
+ * Apply a patch in memory. Throws with the per-hunk report unless every
+ * hunk of every file applies, so nothing is written on failure.
+ */
+async function planApplyPatch(args: Record<string, unknown>, workspace?: Workspace | null): Promise<{ writes: PlannedWrite[]; report: string[] }> {
+  const base = await locate((args.path as string) || ".", workspace);
+  const files = parsePatch(args.patch as string);
+  const writes: PlannedWrite[] = [];
+  const report: string[] = [];
+  const touched = new Set<string>();
+  let failed = false;
+
+  for (const file of files) {
+    const oldPath = file.oldPath === null ? null : resolve(base, file.oldPath);
+    const newPath = file.newPath === null ? null : resolve(base, file.newPath);
+    const target = (newPath || oldPath)!;
+    const label = oldPath && newPath && oldPath !== newPath
+      ? `${file.oldPath} → ${file.newPath} (renamed)`
+      : `${file.newPath || file.oldPath} (${!oldPath ? "created" : !newPath ? "deleted" : "modified"})`;
+
+    try {
+      for (const path of [oldPath, newPath]) {
+        if (path) await locate(path, workspace);
+      }
+      for (const path of new Set([oldPath, newPath])) {
+        if (path && touched.has(path)) throw new Error("file appears more than once in the patch");
+        if (path) touched.add(path);
+      }
+
+      const before = oldPath ? await readIfExists(oldPath) : null;
+      if (oldPath && before === null) throw new Error("file not found");
+      if (newPath && newPath !== oldPath && (await readIfExists(newPath)) !== null) throw new Error(`${file.newPath} already exists`);
+
+      if (!newPath) {
+        report.push(`✓ ${label}`);
+        writes.push({ path: target, before, after: null });
+        continue;
+      }
+
+      const { content, results } = applyHunks(before ?? "", file.hunks);
+      report.push(`${results.every((r) => r.ok) ? "✓" : "✗"} ${label}`);
+      results.forEach((result, i) => report.push(formatHunkResult(file.hunks[i], result, i)));
+      if (results.some((r) => !r.ok)) {
+        failed = true;
+        continue;
+      }
+      writes.push({ path: newPath, before, after: content, oldPath: oldPath && oldPath !== newPath ? oldPath : undefined });
+    } catch (error) {
+      failed = true;
+      report.push(`✗ ${label}: ${error instanceof Error ? error.message : String(error)}`);
+    }
+  }
+
+  if (failed) throw new Error(`Patch not applied; no files were changed.\n${report.join("\n")}`);
+  return { writes, report };
+}
+
+function toDiff(write: PlannedWrite): FileDiff {
+  const diff = diffFile(write.path, write.before, write.after);
+  return write.oldPath ? { ...diff, status: "renamed", oldPath: write.oldPath } : diff;
+}
+
+/**
+ * The diff a file-writing tool call would produce, without writing
+ * anything. Null for tools that don't write files.
+ */
+export async function previewFileChanges(
+  name: string,
+  args: Record<string, unknown>,
+  workspace?: Workspace | null
+): Promise<FileDiff[] | null> {
+  let writes: PlannedWrite[];
+  switch (name) {
+    case "write_file":
+      writes = await planWriteFile(args, workspace);
+      break;
+    case "edit_file":
+      writes = (await planEditFile(args, workspace)).writes;
+      break;
+    case "batch_edit":
+      writes = (await planBatchEdit(args, workspace)).writes;
+      break;
+    case "apply_patch":
+      writes = (await planApplyPatch(args, workspace)).writes;
+      break;
+    default:
+      return null;
+  }
+  return writes.map(toDiff);
+}
+
+// Snapshot, then write, delete or rename each planned file
+async function applyWrites(writes: PlannedWrite[], checkpoint?: Checkpoint): Promise<FileDiff[]> {
+  for (const { path, after, oldPath } of writes) {
+    if (oldPath) await checkpoint?.snapshot(oldPath);
+    await checkpoint?.snapshot(path);
+    if (after === null) {
+      await unlink(path);
+      continue;
+    }
+    await mkdir(dirname(path), { recursive: true });
+    await writeFile(path, after, "utf-8");
+    if (oldPath) await unlink(oldPath);
+  }
+  return writes.map(toDiff);
+}
 
 // Tool definitions for AI - Enterprise-grade coding tools
 export const TOOL_DEFINITIONS: ToolDefinition[] = [
@@ -281,7 +577,7 @@ export const TOOL_DEFINITIONS: ToolDefinition[] = [
   },
   {
     name: "edit_file",
-    description: "Edit a file by replacing specific text. Use this for surgical code changes instead of rewriting entire files.",
+    description: "Edit a file by replacing specific text. Use this for surgical code changes instead of rewriting entire files. old_text must match exactly one place unless replace_all or occurrence is given. Pass edits to make several changes to one file at once; if any of them fails, none are applied.",
     parameters: {
       type: "object",
       properties: {
@@ -291,14 +587,54 @@ export const TOOL_DEFINITIONS: ToolDefinition[] = [
         },
         old_text: {
           type: "string",
-          description: "The exact text to find and replace (must match exactly)",
+          description: "The exact text to find and replace. Include enough surrounding lines to make it unique",
         },
         new_text: {
           type: "string",
           description: "The new text to replace with",
         },
+        replace_all: {
+          type: "string",
+          description: "Optional: 'true' to replace every occurrence of old_text",
+        },
+        occurrence: {
+          type: "string",
+          description: "Optional: which match to replace (1 = first) when old_text appears more than once",
+        },
+        edits: {
+          type: "array",
+          description: "Optional: several edits applied in order instead of old_text/new_text",
+          items: {
+            type: "object",
+            properties: {
+              old_text: { type: "string", description: "Exact text to find" },
+              new_text: { type: "string", description: "Replacement text" },
+              replace_all: { type: "string", description: "Optional: 'true' to replace every occurrence" },
+              occurrence: { type: "string", description: "Optional: which match to replace (1 = first)" },
+            },
+            required: ["old_text", "new_text"],
+          },
+        },
       },
-      required: ["path", "old_text", "new_text"],
+      required: ["path"],
+    },
+  },
+  {
+    name: "apply_patch",
+    description: "Apply a unified diff (as printed by diff -u or git diff) to one or more files. Use --- /dev/null to create a file, +++ /dev/null to delete one, and git's rename from/rename to lines to rename. Hunks may be a few lines off or differ in whitespace. Nothing is changed unless every hunk applies.",
+    parameters: {
+      type: "object",
+      properties: {
+        patch: {
+          type: "string",
+          description: "The unified diff text",
+        },
+        path: {
+          type: "string",
+          description: "Optional: Directory the paths in the patch are relative to (default: current directory)",
+        },
+      },
+      required: ["patch"],
     },
   },
   {
@@ -321,7 +657,7 @@ export const TOOL_DEFINITIONS: ToolDefinition[] = [
   },
   {
     name: "run_command",
-    description: "Execute a shell command. Use for: git, npm, running tests, building projects, etc.",
+    description: "Execute a shell command. Use for: git, npm, running tests, building projects, etc. Commands are checked against the command policy and run with time, CPU, memory and output limits; a refused or stopped command returns an error with JSON details of the rule or limit.",
     parameters: {
       type: "object",
       properties: {
@@ -337,6 +673,96 @@ export const TOOL_DEFINITIONS: ToolDefinition[] = [
       required: ["command"],
     },
   },
+  {
+    name: "start_job",
+    description: "Start a long-running command in the background (dev servers, watchers, long test suites) and return its job id. The command policy and CPU/memory limits of run_command apply, but there is no time limit. Read its output with read_job_output and stop it with kill_job when done.",
+    parameters: {
+      type: "object",
+      properties: {
+        command: {
+          type: "string",
+          description: "The shell command to start",
+        },
+        cwd: {
+          type: "string",
+          description: "Working directory for the command",
+        },
+      },
+      required: ["command"],
+    },
+  },
+  {
+    name: "read_job_output",
+    description: "Read the output a background job printed since the last read, and whether it is still running",
+    parameters: {
+      type: "object",
+      properties: {
+        id: {
+          type: "string",
+          description: "Job id from start_job",
+        },
+        wait: {
+          type: "string",
+          description: "Seconds to wait for new output if there is none yet (default 0, max 60)",
+        },
+      },
+      required: ["id"],
+    },
+  },
+  {
+    name: "write_job_input",
+    description: "Send text to a background job's stdin. Include \\n to press Enter.",
+    parameters: {
+      type: "object",
+      properties: {
+        id: {
+          type: "string",
+          description: "Job id from start_job",
+        },
+        input: {
+          type: "string",
+          description: "Text to write",
+        },
+        close: {
+          type: "string",
+          description: "Set to 'true' to close stdin after writing (sends end-of-file)",
+        },
+      },
+      required: ["id", "input"],
+    },
+  },
+  {
+    name: "job_status",
+    description: "List background jobs with their status, or show one job",
+    parameters: {
+      type: "object",
+      properties: {
+        id: {
+          type: "string",
+          description: "Job id (all jobs if omitted)",
+        },
+      },
+      required: [],
+    },
+  },
+  {
+    name: "kill_job",
+    description: "Stop a background job and everything it started",
+    parameters: {
+      type: "object",
+      properties: {
+        id: {
+          type: "string",
+          description: "Job id from start_job",
+        },
+        signal: {
+          type: "string",
+          description: "Signal to send: SIGTERM (default), SIGINT or SIGKILL",
+        },
+      },
+      required: ["id"],
+    },
+  },
   {
     name: "search_code",
     description: "Search for text/pattern in code files. Use grep-like search to find code patterns, function definitions, imports, etc.",
@@ -625,16 +1051,21 @@ export const TOOL_DEFINITIONS: ToolDefinition[] = [
 // Tool implementations
 export async function executeTool(
   name: string,
-  args: Record<string, unknown>
+  args: Record<string, unknown>,
+  context: ToolContext = {}
 ): Promise<ToolResult> {
   const toolCallId = `tool_${Date.now()}`;
+  const { signal, checkpoint, workspace, onProgress } = context;
+  // Passed to commands that can run for a while, so their output shows as it comes
+  const onLine = onProgress && ((line: string, stream: "stdout" | "stderr") => onProgress({ type: "output", stream, line }));
 
   try {
     let output: string;
+    let diff: FileDiff[] | undefined;
 
     switch (name) {
       case "read_file": {
-        const path = resolve(args.path as string);
+        const path = await locate(args.path as string, workspace);
         const content = await readFile(path, "utf-8");
         const lines = content.split("\n");
 
@@ -651,48 +1082,43 @@ export async function executeTool(
       }
 
       case "write_file": {
-        const path = resolve(args.path as string);
-        const content = args.content as string;
-        await mkdir(dirname(path), { recursive: true });
-        await writeFile(path, content, "utf-8");
-        output = `Successfully wrote ${content.length} bytes to ${path}`;
+        const writes = await planWriteFile(args, workspace);
+        diff = await applyWrites(writes, checkpoint);
+        output = `Successfully wrote ${(args.content as string).length} bytes to ${writes[0].path} (${diffStats(diff)} lines)`;
         break;
       }
 
       case "edit_file": {
-        const path = resolve(args.path as string);
-        const oldText = args.old_text as string;
-        const newText = args.new_text as string;
-
-        const content = await readFile(path, "utf-8");
-        if (!content.includes(oldText)) {
-          return {
-            toolCallId,
-            success: false,
-            error: `Text not found in file. Make sure old_text matches exactly.`,
-          };
-        }
+        const { writes, notes } = await planEditFile(args, workspace);
+        diff = await applyWrites(writes, checkpoint);
+        output = [`Successfully edited ${writes[0].path} (${diffStats(diff)} lines)`, ...notes.map((n) => `Note: ${n}`)].join("\n");
+        break;
+      }
 
-        const newContent = content.replace(oldText, newText);
-        await writeFile(path, newContent, "utf-8");
-        output = `Successfully edited ${path}\nReplaced ${oldText.length} chars with ${newText.length} chars`;
+      case "apply_patch": {
+        const { writes, report } = await planApplyPatch(args, workspace);
+        diff = await applyWrites(writes, checkpoint);
+        output = `Patch applied to ${writes.length} file${writes.length === 1 ? "" : "s"} (${diffStats(diff)} lines)\n${report.join("\n")}`;
         break;
       }
 
       case "list_directory": {
-        const dirPath = resolve((args.path as string) || ".");
+        const dirPath = await locate((args.path as string) || ".", workspace);
         const recursive = args.recursive === "true";
 
         if (recursive) {
           // Recursive listing using find, excluding common large directories
-          const { stdout } = await execAsync(
-            `find "${dirPath}" -maxdepth 4 \\( -name "node_modules" -o -name ".git" -o -name "dist" -o -name "build" -o -name ".cache" -o -name "__pycache__" \\) -prune -o -print 2>/dev/null | head -80`,
-            { timeout: 10000 }
+          const pruned = ["node_modules", ".git", "dist", "build", ".cache", "__pycache__"].flatMap((name, i) => [...(i ? ["-o"] : []), "-name", name]);
+          const { stdout } = await runProcess(
+            "find",
+            [dirPath, "-maxdepth", "4", "(", ...pruned, ")", "-prune", "-o", "-print"],
+            { timeout: 10000, maxLines: MAX_RESULT_LINES, allowFailure: true, signal }
           );
-          output = stdout || "No files found";
+          output = hideDenied(stdout, workspace) || "No files found";
         } else {
           const entries = await readdir(dirPath, { withFileTypes: true });
-          const formatted = entries.map((e) => {
+          const visible = workspace ? entries.filter((e) => workspace.isVisible(join(dirPath, e.name))) : entries;
+          const formatted = visible.map((e) => {
             const type = e.isDirectory() ? "[DIR]" : "[FILE]";
             return `${type} ${e.name}`;
           });
@@ -703,45 +1129,85 @@ export async function executeTool(
 
       case "run_command": {
         const command = args.command as string;
-        const cwd = (args.cwd as string) || process.cwd();
-        const { stdout, stderr } = await execAsync(command, {
-          cwd,
-          timeout: 30000,
-          maxBuffer: 1024 * 1024,
-        });
+        const cwd = await locate((args.cwd as string) || ".", workspace);
+        const policy = context.commandPolicy ?? (await loadCommandPolicy());
+        const { stdout, stderr } = await runCommand(command, cwd, policy, signal, onLine);
         output = stdout || stderr || "(no output)";
         break;
       }
 
-      case "search_code": {
-        const pattern = args.pattern as string;
-        const searchPath = resolve((args.path as string) || ".");
-        const filePattern = args.file_pattern as string;
+      case "start_job": {
+        const command = args.command as string;
+        const cwd = await locate((args.cwd as string) || ".", workspace);
+        const policy = context.commandPolicy ?? (await loadCommandPolicy());
+        const job = await jobManager.start(command, cwd, policy);
+        // Give it a moment so commands that fail straight away say so
+        const { output: early, skipped } = await jobManager.read(job.id, 1000);
+        output = `Started job ${job.id} (pid ${job.pid}): ${command}\nStatus: ${describeJob(job)}`;
+        if (skipped > 0) output += `\n[${skipped} characters of earlier output were dropped]`;
+        if (early) output += `\n\n${early}`;
+        break;
+      }
 
-        // Build grep command
-        let cmd = `grep -rn --include="*.ts" --include="*.tsx" --include="*.js" --include="*.jsx" --include="*.py" --include="*.go" --include="*.rs" --include="*.java" --include="*.json" --include="*.md"`;
+      case "read_job_output": {
+        const wait = Math.min(Math.max(Number(args.wait) || 0, 0), 60);
+        const { job, output: text, skipped } = await jobManager.read(Number(args.id), wait * 1000);
+        output = `Job ${job.id}: ${describeJob(job)}`;
+        if (skipped > 0) output += `\n[${skipped} characters of earlier output were dropped]`;
+        output += text ? `\n\n${text}` : "\n\n(no new output)";
+        break;
+      }
 
-        if (filePattern) {
-          cmd = `grep -rn --include="${filePattern}"`;
-        }
+      case "write_job_input": {
+        const job = jobManager.write(Number(args.id), (args.input as string) || "", args.close === "true" || args.close === true);
+        output = `Wrote ${((args.input as string) || "").length} characters to job ${job.id}${args.close === "true" || args.close === true ? " and closed its stdin" : ""}`;
+        break;
+      }
 
-        cmd += ` "${pattern}" "${searchPath}" 2>/dev/null | head -50`;
+      case "job_status": {
+        const jobs = args.id !== undefined && args.id !== "" ? [jobManager.get(Number(args.id))] : jobManager.list();
+        output = jobs.length === 0
+          ? "No background jobs"
+          : jobs.map((job) => `${job.id}\t${describeJob(job)}\tpid ${job.pid}\t${job.command}`).join("\n");
+        break;
+      }
 
-        const { stdout } = await execAsync(cmd, { timeout: 15000 });
-        output = stdout || "No matches found";
+      case "kill_job": {
+        const signal = (args.signal as string) || "SIGTERM";
+        if (!["SIGTERM", "SIGINT", "SIGKILL"].includes(signal)) throw new Error(`Invalid signal: ${signal}`);
+        const job = jobManager.kill(Number(args.id), signal as NodeJS.Signals);
+        output = job.status === "running"
+          ? `Sent ${signal} to job ${job.id}: ${job.command}`
+          : `Job ${job.id} is not running (${describeJob(job)})`;
+        break;
+      }
+
+      case "search_code": {
+        const pattern = args.pattern as string;
+        const searchPath = await locate((args.path as string) || ".", workspace);
+        const filePattern = args.file_pattern as string;
+
+        const includes = filePattern ? [filePattern] : [...CODE_FILES, "*.java", "*.json", "*.md"];
+        const { stdout } = await runProcess(
+          "grep",
+          ["-rn", ...includes.map((glob) => `--include=${glob}`), "-e", pattern, "--", searchPath],
+          { timeout: 15000, maxLines: MAX_RESULT_LINES, allowFailure: true, signal }
+        );
+        output = hideDenied(stdout, workspace) || "No matches found";
         break;
       }
 
       case "glob_files": {
         const pattern = args.pattern as string;
-        const basePath = resolve((args.path as string) || ".");
+        const basePath = await locate((args.path as string) || ".", workspace);
 
         // Use find with pattern matching
-        const { stdout } = await execAsync(
-          `find "${basePath}" -type f -name "${pattern.replace(/\*\*/g, '*')}" 2>/dev/null | head -100`,
-          { timeout: 10000 }
+        const { stdout } = await runProcess(
+          "find",
+          [basePath, "-type", "f", "-name", pattern.replace(/\*\*/g, "*")],
+          { timeout: 10000, maxLines: MAX_RESULT_LINES, allowFailure: true, signal }
         );
-        output = stdout || "No files found";
+        output = hideDenied(stdout, workspace) || "No files found";
         break;
       }
 
@@ -751,9 +1217,10 @@ export async function executeTool(
 
         try {
           // Use DuckDuckGo HTML for search
-          const { stdout } = await execAsync(
-            `curl -s -A "Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36" "https://html.duckduckgo.com/html/?q=${query}"`,
-            { timeout: 15000, maxBuffer: 1024 * 1024 }
+          const { stdout } = await runProcess(
+            "curl",
+            ["-s", "-A", "Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36", `https://html.duckduckgo.com/html/?q=${query}`],
+            { timeout: 15000, maxBuffer: 1024 * 1024, signal }
           );
 
           // Parse search results - look for organic results
@@ -809,25 +1276,26 @@ export async function executeTool(
       }
 
       case "web_fetch": {
-        const url = args.url as string;
+        const url = checkUrl(args.url as string);
 
         try {
-          // Fetch with curl, convert HTML to readable text
-          const { stdout } = await execAsync(
-            `curl -s -L -A "Mozilla/5.0" --max-time 10 "${url}" | sed 's/<script[^>]*>.*<\\/script>//g' | sed 's/<style[^>]*>.*<\\/style>//g' | sed 's/<[^>]*>//g' | sed 's/&nbsp;/ /g' | sed 's/&amp;/\\&/g' | sed 's/&lt;/</g' | sed 's/&gt;/>/g' | tr -s ' \\n' | head -200`,
-            { timeout: 20000, maxBuffer: 2 * 1024 * 1024 }
+          // Fetch with curl (redirects stay on http/https), convert HTML to readable text
+          const { stdout: html } = await runProcess(
+            "curl",
+            ["-s", "-L", "--proto", "=http,https", "--proto-redir", "=http,https", "-A", "Mozilla/5.0", "--max-time", "10", url],
+            { timeout: 20000, signal }
           );
+          const stdout = htmlToText(html);
 
           if (!stdout.trim()) {
             output = "Could not fetch content from URL. The page might be JavaScript-rendered.";
           } else {
-            // Clean up and truncate
+            // Clean up; long pages are trimmed to fit the context by the agent
             const cleaned = stdout
               .split('\n')
               .map(line => line.trim())
               .filter(line => line.length > 0)
-              .join('\n')
-              .slice(0, 8000);
+              .join('\n');
             output = `Content from ${url}:\n\n${cleaned}`;
           }
         } catch (e) {
@@ -840,59 +1308,61 @@ export async function executeTool(
       // GIT OPERATIONS
       // ============================================
       case "git_status": {
-        const gitPath = resolve((args.path as string) || ".");
-        const { stdout } = await execAsync(`cd "${gitPath}" && git status --short --branch`, { timeout: 10000 });
+        const gitPath = await locate((args.path as string) || ".", workspace);
+        const { stdout } = await runProcess("git", ["status", "--short", "--branch"], { cwd: gitPath, timeout: 10000, signal });
         output = stdout || "No changes";
         break;
       }
 
       case "git_diff": {
-        const gitPath = resolve((args.path as string) || ".");
-        const file = args.file ? ` -- "${args.file}"` : "";
-        const staged = args.staged === "true" ? " --staged" : "";
-        const { stdout } = await execAsync(`cd "${gitPath}" && git diff${staged}${file}`, { timeout: 15000, maxBuffer: 2 * 1024 * 1024 });
+        const gitPath = await locate((args.path as string) || ".", workspace);
+        const staged = args.staged === "true" ? ["--staged"] : [];
+        const file = args.file ? ["--", args.file as string] : [];
+        const { stdout } = await runProcess("git", ["diff", ...staged, ...file], { cwd: gitPath, timeout: 15000, signal });
         output = stdout || "No differences";
         break;
       }
 
       case "git_log": {
-        const gitPath = resolve((args.path as string) || ".");
+        const gitPath = await locate((args.path as string) || ".", workspace);
         const count = parseInt(args.count as string) || 10;
-        const format = args.oneline === "true" ? "--oneline" : "--pretty=format:'%h %s (%cr) <%an>'";
-        const { stdout } = await execAsync(`cd "${gitPath}" && git log -${count} ${format}`, { timeout: 10000 });
+        const format = args.oneline === "true" ? "--oneline" : "--pretty=format:%h %s (%cr) <%an>";
+        const { stdout } = await runProcess("git", ["log", `-${count}`, format], { cwd: gitPath, timeout: 10000, signal });
         output = stdout || "No commits";
         break;
       }
 
       case "git_commit": {
-        const gitPath = resolve((args.path as string) || ".");
+        const gitPath = await locate((args.path as string) || ".", workspace);
         const message = args.message as string;
-        const all = args.all === "true" ? "-a " : "";
-        const { stdout } = await execAsync(`cd "${gitPath}" && git commit ${all}-m "${message.replace(/"/g, '\\"')}"`, { timeout: 15000 });
+        const all = args.all === "true" ? ["-a"] : [];
+        const { stdout } = await runProcess("git", ["commit", ...all, "-m", message], { cwd: gitPath, timeout: 15000, signal });
         output = stdout || "Committed";
         break;
       }
 
       case "git_branch": {
-        const gitPath = resolve((args.path as string) || ".");
+        const gitPath = await locate((args.path as string) || ".", workspace);
         const action = (args.action as string) || "list";
-        const branchName = args.name as string;
+        const branchName = action === "list" ? "" : checkArgument(args.name as string, "branch name", BRANCH_NAME);
+        const git = (...gitArgs: string[]) => runProcess("git", gitArgs, { cwd: gitPath, timeout: 10000, signal });
 
         switch (action) {
           case "list":
-            const { stdout: listOut } = await execAsync(`cd "${gitPath}" && git branch -a`, { timeout: 10000 });
+            const { stdout: listOut } = await git("branch", "-a");
             output = listOut || "No branches";
             break;
           case "create":
-            const { stdout: createOut } = await execAsync(`cd "${gitPath}" && git branch "${branchName}"`, { timeout: 10000 });
+            const { stdout: createOut } = await git("branch", branchName);
             output = createOut || `Created branch: ${branchName}`;
             break;
           case "switch":
-            const { stdout: switchOut } = await execAsync(`cd "${gitPath}" && git checkout "${branchName}"`, { timeout: 10000 });
-            output = switchOut || `Switched to: ${branchName}`;
+            // The trailing "--" keeps a branch named like a file from being read as a path
+            const { stdout: switchOut, stderr: switchErr } = await git("checkout", branchName, "--");
+            output = switchOut || switchErr || `Switched to: ${branchName}`;
             break;
           case "delete":
-            const { stdout: deleteOut } = await execAsync(`cd "${gitPath}" && git branch -d "${branchName}"`, { timeout: 10000 });
+            const { stdout: deleteOut } = await git("branch", "-d", branchName);
             output = deleteOut || `Deleted branch: ${branchName}`;
             break;
           default:
@@ -902,31 +1372,32 @@ export async function executeTool(
       }
 
       case "git_stash": {
-        const gitPath = resolve((args.path as string) || ".");
+        const gitPath = await locate((args.path as string) || ".", workspace);
         const action = (args.action as string) || "list";
         const message = args.message as string;
-        const index = args.index || "0";
+        const index = checkArgument(String(args.index ?? "0"), "stash index", /^\d+$/);
+        const stash = `stash@{${index}}`;
+        const git = (...gitArgs: string[]) => runProcess("git", gitArgs, { cwd: gitPath, timeout: 10000, signal });
 
         switch (action) {
           case "push":
-            const msgFlag = message ? ` -m "${message.replace(/"/g, '\\"')}"` : "";
-            const { stdout: pushOut } = await execAsync(`cd "${gitPath}" && git stash push${msgFlag}`, { timeout: 10000 });
+            const { stdout: pushOut } = await git("stash", "push", ...(message ? ["-m", message] : []));
             output = pushOut || "Changes stashed";
             break;
           case "pop":
-            const { stdout: popOut } = await execAsync(`cd "${gitPath}" && git stash pop stash@{${index}}`, { timeout: 10000 });
+            const { stdout: popOut } = await git("stash", "pop", stash);
             output = popOut || "Stash applied and dropped";
             break;
           case "list":
-            const { stdout: listOut } = await execAsync(`cd "${gitPath}" && git stash list`, { timeout: 10000 });
+            const { stdout: listOut } = await git("stash", "list");
             output = listOut || "No stashes";
             break;
           case "drop":
-            const { stdout: dropOut } = await execAsync(`cd "${gitPath}" && git stash drop stash@{${index}}`, { timeout: 10000 });
-            output = dropOut || `Dropped stash@{${index}}`;
+            const { stdout: dropOut } = await git("stash", "drop", stash);
+            output = dropOut || `Dropped ${stash}`;
             break;
           case "show":
-            const { stdout: showOut } = await execAsync(`cd "${gitPath}" && git stash show -p stash@{${index}}`, { timeout: 10000 });
+            const { stdout: showOut } = await git("stash", "show", "-p", stash);
             output = showOut || "Empty stash";
             break;
           default:
@@ -936,31 +1407,32 @@ export async function executeTool(
       }
 
       case "git_add": {
-        const gitPath = resolve((args.path as string) || ".");
+        const gitPath = await locate((args.path as string) || ".", workspace);
         const files = args.files as string;
-        const { stdout, stderr } = await execAsync(`cd "${gitPath}" && git add ${files}`, { timeout: 10000 });
+        const { stdout, stderr } = await runProcess("git", ["add", "--", ...splitArguments(files, "file")], { cwd: gitPath, timeout: 10000, signal });
         output = stdout || stderr || `Staged: ${files}`;
         break;
       }
 
       case "git_reset": {
-        const gitPath = resolve((args.path as string) || ".");
+        const gitPath = await locate((args.path as string) || ".", workspace);
         const files = args.files as string;
         const mode = args.mode as string;
         const commit = args.commit as string;
+        const git = (...gitArgs: string[]) => runProcess("git", gitArgs, { cwd: gitPath, timeout: 10000, signal });
 
         if (files) {
           // Unstage specific files
-          const { stdout } = await execAsync(`cd "${gitPath}" && git reset HEAD -- ${files}`, { timeout: 10000 });
+          const { stdout } = await git("reset", "HEAD", "--", ...splitArguments(files, "file"));
           output = stdout || `Unstaged: ${files}`;
         } else if (commit) {
           // Reset to specific commit
-          const resetMode = mode ? `--${mode}` : "--mixed";
-          const { stdout } = await execAsync(`cd "${gitPath}" && git reset ${resetMode} ${commit}`, { timeout: 10000 });
+          const resetMode = `--${checkArgument(mode || "mixed", "reset mode", /^(soft|mixed|hard)$/)}`;
+          const { stdout } = await git("reset", resetMode, checkArgument(commit, "commit"), "--");
           output = stdout || `Reset to ${commit}`;
         } else {
           // Unstage all
-          const { stdout } = await execAsync(`cd "${gitPath}" && git reset HEAD`, { timeout: 10000 });
+          const { stdout } = await git("reset", "HEAD");
           output = stdout || "Unstaged all changes";
         }
         break;
@@ -970,36 +1442,36 @@ export async function executeTool(
       // SECURITY & AUDIT
       // ============================================
       case "audit_security": {
-        const projectPath = resolve((args.path as string) || ".");
+        const projectPath = await locate((args.path as string) || ".", workspace);
         const fix = args.fix === "true";
 
         // Detect project type and run appropriate audit
-        let cmd = "";
+        let cmd: string[] = [];
         try {
           await stat(join(projectPath, "package.json"));
-          cmd = fix ? "npm audit fix" : "npm audit";
+          cmd = fix ? ["npm", "audit", "fix"] : ["npm", "audit"];
         } catch {
           try {
             await stat(join(projectPath, "Cargo.toml"));
-            cmd = "cargo audit";
+            cmd = ["cargo", "audit"];
           } catch {
             try {
               await stat(join(projectPath, "requirements.txt"));
-              cmd = "pip-audit";
+              cmd = ["pip-audit"];
             } catch {
               try {
                 await stat(join(projectPath, "go.mod"));
-                cmd = "govulncheck ./...";
+                cmd = ["govulncheck", "./..."];
               } catch {}
             }
           }
         }
 
-        if (!cmd) {
+        if (!cmd.length) {
           output = "Could not detect project type for security audit";
         } else {
           try {
-            const { stdout, stderr } = await execAsync(`cd "${projectPath}" && ${cmd}`, { timeout: 60000, maxBuffer: 2 * 1024 * 1024 });
+            const { stdout, stderr } = await runProcess(cmd[0], cmd.slice(1), { cwd: projectPath, timeout: 60000, signal, onLine });
             output = stdout || stderr || "Audit completed with no issues";
           } catch (e: any) {
             // npm audit exits with non-zero if vulnerabilities found
@@ -1024,17 +1496,20 @@ export async function executeTool(
         if (detailed) {
           // Get tool versions
           const tools = [
-            { name: "npm", cmd: "npm --version" },
-            { name: "git", cmd: "git --version" },
-            { name: "python", cmd: "python3 --version 2>&1 || python --version" },
-            { name: "go", cmd: "go version" },
-            { name: "cargo", cmd: "cargo --version" },
+            { name: "npm", cmd: ["npm", "--version"] },
+            { name: "git", cmd: ["git", "--version"] },
+            { name: "python", cmd: ["python3", "--version"] },
+            { name: "python", cmd: ["python", "--version"] },
+            { name: "go", cmd: ["go", "version"] },
+            { name: "cargo", cmd: ["cargo", "--version"] },
           ];
 
           for (const tool of tools) {
+            if (info.some((line) => line.startsWith(`**${tool.name}:**`))) continue;
             try {
-              const { stdout } = await execAsync(tool.cmd, { timeout: 5000 });
-              info.push(`**${tool.name}:** ${stdout.trim()}`);
+              // Older Pythons print their version to stderr
+              const { stdout, stderr } = await runProcess(tool.cmd[0], tool.cmd.slice(1), { timeout: 5000, signal });
+              info.push(`**${tool.name}:** ${(stdout || stderr).trim()}`);
             } catch {}
           }
 
@@ -1048,48 +1523,47 @@ export async function executeTool(
       }
 
       case "format_code": {
-        const formatPath = resolve((args.path as string) || ".");
+        const formatPath = await locate((args.path as string) || ".", workspace);
         const checkOnly = args.check === "true";
 
         // Detect formatter
-        let cmd = "";
+        let cmd: string[] = [];
         try {
           const pkg = JSON.parse(await readFile(join(formatPath, "package.json"), "utf-8"));
           const deps = { ...pkg.dependencies, ...pkg.devDependencies };
           if (deps.prettier) {
-            cmd = checkOnly ? "npx prettier --check ." : "npx prettier --write .";
+            cmd = checkOnly ? ["npx", "prettier", "--check", "."] : ["npx", "prettier", "--write", "."];
           } else if (deps.biome) {
-            cmd = checkOnly ? "npx biome check ." : "npx biome format --write .";
+            cmd = checkOnly ? ["npx", "biome", "check", "."] : ["npx", "biome", "format", "--write", "."];
           }
         } catch {}
 
-        if (!cmd) {
+        if (!cmd.length) {
           try {
             await stat(join(formatPath, "Cargo.toml"));
-            cmd = checkOnly ? "cargo fmt -- --check" : "cargo fmt";
+            cmd = checkOnly ? ["cargo", "fmt", "--", "--check"] : ["cargo", "fmt"];
           } catch {}
         }
 
-        if (!cmd) {
+        if (!cmd.length) {
           try {
             await stat(join(formatPath, "go.mod"));
-            const goFiles = (args.path as string) || ".";
-            cmd = checkOnly ? `gofmt -l ${goFiles}` : `gofmt -w ${goFiles}`;
+            cmd = checkOnly ? ["gofmt", "-l", "."] : ["gofmt", "-w", "."];
           } catch {}
         }
 
-        if (!cmd) {
+        if (!cmd.length) {
           try {
             await stat(join(formatPath, "pyproject.toml"));
-            cmd = checkOnly ? "black --check ." : "black .";
+            cmd = checkOnly ? ["black", "--check", "."] : ["black", "."];
           } catch {}
         }
 
-        if (!cmd) {
+        if (!cmd.length) {
           output = "Could not detect code formatter. Install prettier, rustfmt, gofmt, or black.";
         } else {
           try {
-            const { stdout, stderr } = await execAsync(`cd "${formatPath}" && ${cmd}`, { timeout: 60000, maxBuffer: 2 * 1024 * 1024 });
+            const { stdout, stderr } = await runProcess(cmd[0], cmd.slice(1), { cwd: formatPath, timeout: 60000, signal, onLine });
             output = stdout || stderr || "Formatting completed";
           } catch (e: any) {
             output = e.stdout || e.stderr || e.message;
@@ -1102,7 +1576,7 @@ export async function executeTool(
       // DEVELOPMENT TOOLS
       // ============================================
       case "analyze_project": {
-        const projectPath = resolve((args.path as string) || ".");
+        const projectPath = await locate((args.path as string) || ".", workspace);
         const analysis: string[] = ["📊 **Project Analysis**\n"];
 
         // Check for package.json (Node.js)
@@ -1169,9 +1643,9 @@ export async function executeTool(
       }
 
       case "package_manager": {
-        const projectPath = resolve((args.path as string) || ".");
+        const projectPath = await locate((args.path as string) || ".", workspace);
         const action = args.action as string;
-        const packages = args.packages as string || "";
+        const packages = splitArguments((args.packages as string) || "", "package", PACKAGE_SPEC);
         const isDev = args.dev === "true";
 
         // Detect package manager
@@ -1201,176 +1675,176 @@ export async function executeTool(
           }
         }
 
-        let cmd = "";
+        let cmd: string[] = [];
         switch (pm) {
           case "npm":
           case "pnpm":
           case "yarn":
-            const devFlag = isDev ? (pm === "yarn" ? " --dev" : " -D") : "";
+            const devFlag = isDev ? [pm === "yarn" ? "--dev" : "-D"] : [];
             switch (action) {
-              case "install": cmd = `${pm} install`; break;
-              case "add": cmd = `${pm} ${pm === "yarn" ? "add" : "install"} ${packages}${devFlag}`; break;
-              case "remove": cmd = `${pm} ${pm === "yarn" ? "remove" : "uninstall"} ${packages}`; break;
-              case "update": cmd = `${pm} update ${packages}`; break;
-              case "list": cmd = `${pm} list --depth=0`; break;
-              case "outdated": cmd = `${pm} outdated`; break;
-              case "audit": cmd = `${pm} audit`; break;
+              case "install": cmd = [pm, "install"]; break;
+              case "add": cmd = [pm, pm === "yarn" ? "add" : "install", ...devFlag, ...packages]; break;
+              case "remove": cmd = [pm, pm === "yarn" ? "remove" : "uninstall", ...packages]; break;
+              case "update": cmd = [pm, "update", ...packages]; break;
+              case "list": cmd = [pm, "list", "--depth=0"]; break;
+              case "outdated": cmd = [pm, "outdated"]; break;
+              case "audit": cmd = [pm, "audit"]; break;
             }
             break;
           case "cargo":
             switch (action) {
-              case "add": cmd = `cargo add ${packages}${isDev ? " --dev" : ""}`; break;
-              case "remove": cmd = `cargo remove ${packages}`; break;
-              case "update": cmd = `cargo update`; break;
+              case "add": cmd = ["cargo", "add", ...(isDev ? ["--dev"] : []), ...packages]; break;
+              case "remove": cmd = ["cargo", "remove", ...packages]; break;
+              case "update": cmd = ["cargo", "update"]; break;
             }
             break;
           case "pip":
             switch (action) {
-              case "install": cmd = `pip install -r requirements.txt`; break;
-              case "add": cmd = `pip install ${packages}`; break;
-              case "remove": cmd = `pip uninstall -y ${packages}`; break;
-              case "list": cmd = `pip list`; break;
-              case "outdated": cmd = `pip list --outdated`; break;
+              case "install": cmd = ["pip", "install", "-r", "requirements.txt"]; break;
+              case "add": cmd = ["pip", "install", ...packages]; break;
+              case "remove": cmd = ["pip", "uninstall", "-y", ...packages]; break;
+              case "list": cmd = ["pip", "list"]; break;
+              case "outdated": cmd = ["pip", "list", "--outdated"]; break;
             }
             break;
           case "go":
             switch (action) {
-              case "install": cmd = `go mod download`; break;
-              case "add": cmd = `go get ${packages}`; break;
-              case "update": cmd = `go get -u ${packages || "./..."}`; break;
+              case "install": cmd = ["go", "mod", "download"]; break;
+              case "add": cmd = ["go", "get", ...packages]; break;
+              case "update": cmd = ["go", "get", "-u", ...(packages.length ? packages : ["./..."])]; break;
             }
             break;
         }
 
-        if (!cmd) {
+        if (!cmd.length) {
           output = `Unknown action '${action}' for ${pm}`;
         } else {
-          const { stdout, stderr } = await execAsync(`cd "${projectPath}" && ${cmd}`, { timeout: 120000, maxBuffer: 2 * 1024 * 1024 });
+          const { stdout, stderr } = await runProcess(cmd[0], cmd.slice(1), { cwd: projectPath, timeout: 120000, signal, onLine });
           output = stdout || stderr || `${action} completed`;
         }
         break;
       }
 
       case "run_tests": {
-        const projectPath = resolve((args.path as string) || ".");
-        const filter = args.filter ? ` ${args.filter}` : "";
+        const projectPath = await locate((args.path as string) || ".", workspace);
+        const filter = args.filter ? [checkArgument(args.filter as string, "test filter")] : [];
 
         // Detect test framework
-        let cmd = "";
+        let cmd: string[] = [];
         try {
           const pkg = JSON.parse(await readFile(join(projectPath, "package.json"), "utf-8"));
           const deps = { ...pkg.dependencies, ...pkg.devDependencies };
-          if (deps.vitest) cmd = `npx vitest run${filter}`;
-          else if (deps.jest) cmd = `npx jest${filter}`;
-          else if (pkg.scripts?.test) cmd = `npm test`;
+          if (deps.vitest) cmd = ["npx", "vitest", "run", ...filter];
+          else if (deps.jest) cmd = ["npx", "jest", ...filter];
+          else if (pkg.scripts?.test) cmd = ["npm", "test"];
         } catch {}
 
-        if (!cmd) {
+        if (!cmd.length) {
           try {
             await stat(join(projectPath, "Cargo.toml"));
-            cmd = `cargo test${filter}`;
+            cmd = ["cargo", "test", ...filter];
           } catch {}
         }
 
-        if (!cmd) {
+        if (!cmd.length) {
           try {
             await stat(join(projectPath, "go.mod"));
-            cmd = `go test ./...${filter}`;
+            cmd = ["go", "test", "./...", ...(filter.length ? ["-run", ...filter] : [])];
           } catch {}
         }
 
-        if (!cmd) {
+        if (!cmd.length) {
           try {
             await stat(join(projectPath, "pytest.ini"));
-            cmd = `pytest${filter}`;
+            cmd = ["pytest", ...(filter.length ? ["-k", ...filter] : [])];
           } catch {
             try {
               await stat(join(projectPath, "pyproject.toml"));
-              cmd = `pytest${filter}`;
+              cmd = ["pytest", ...(filter.length ? ["-k", ...filter] : [])];
             } catch {}
           }
         }
 
-        if (!cmd) {
+        if (!cmd.length) {
           output = "Could not detect test framework";
         } else {
-          const { stdout, stderr } = await execAsync(`cd "${projectPath}" && ${cmd}`, { timeout: 120000, maxBuffer: 2 * 1024 * 1024 });
+          const { stdout, stderr } = await runProcess(cmd[0], cmd.slice(1), { cwd: projectPath, timeout: 120000, signal, onLine });
           output = stdout || stderr || "Tests completed";
         }
         break;
       }
 
       case "lint_code": {
-        const lintPath = resolve((args.path as string) || ".");
-        const fix = args.fix === "true" ? " --fix" : "";
+        const lintPath = await locate((args.path as string) || ".", workspace);
+        const fix = args.fix === "true" ? ["--fix"] : [];
 
         // Detect linter
-        let cmd = "";
+        let cmd: string[] = [];
         try {
           const pkg = JSON.parse(await readFile(join(lintPath, "package.json"), "utf-8"));
           const deps = { ...pkg.dependencies, ...pkg.devDependencies };
-          if (deps.eslint) cmd = `npx eslint .${fix}`;
-          else if (deps.biome) cmd = `npx biome check .${fix ? " --apply" : ""}`;
+          if (deps.eslint) cmd = ["npx", "eslint", ".", ...fix];
+          else if (deps.biome) cmd = ["npx", "biome", "check", ".", ...(fix.length ? ["--apply"] : [])];
         } catch {}
 
-        if (!cmd) {
+        if (!cmd.length) {
           try {
             await stat(join(lintPath, "Cargo.toml"));
-            cmd = `cargo clippy`;
+            cmd = ["cargo", "clippy"];
           } catch {}
         }
 
-        if (!cmd) {
+        if (!cmd.length) {
           try {
             await stat(join(lintPath, "pyproject.toml"));
-            cmd = `ruff check .${fix}`;
+            cmd = ["ruff", "check", ".", ...fix];
           } catch {}
         }
 
-        if (!cmd) {
+        if (!cmd.length) {
           output = "Could not detect linter";
         } else {
-          const { stdout, stderr } = await execAsync(`cd "${lintPath}" && ${cmd}`, { timeout: 60000, maxBuffer: 2 * 1024 * 1024 });
+          const { stdout, stderr } = await runProcess(cmd[0], cmd.slice(1), { cwd: lintPath, timeout: 60000, signal, onLine });
           output = stdout || stderr || "Lint completed";
         }
         break;
       }
 
       case "build_project": {
-        const buildPath = resolve((args.path as string) || ".");
+        const buildPath = await locate((args.path as string) || ".", workspace);
         const prod = args.production === "true";
 
-        let cmd = "";
+        let cmd: string[] = [];
         try {
           const pkg = JSON.parse(await readFile(join(buildPath, "package.json"), "utf-8"));
-          if (pkg.scripts?.build) cmd = `npm run build`;
+          if (pkg.scripts?.build) cmd = ["npm", "run", "build"];
         } catch {}
 
-        if (!cmd) {
+        if (!cmd.length) {
           try {
             await stat(join(buildPath, "Cargo.toml"));
-            cmd = prod ? `cargo build --release` : `cargo build`;
+            cmd = prod ? ["cargo", "build", "--release"] : ["cargo", "build"];
           } catch {}
         }
 
-        if (!cmd) {
+        if (!cmd.length) {
           try {
             await stat(join(buildPath, "go.mod"));
-            cmd = `go build ./...`;
+            cmd = ["go", "build", "./..."];
           } catch {}
         }
 
-        if (!cmd) {
+        if (!cmd.length) {
           try {
             await stat(join(buildPath, "Makefile"));
-            cmd = `make`;
+            cmd = ["make"];
           } catch {}
         }
 
-        if (!cmd) {
+        if (!cmd.length) {
           output = "Could not detect build system";
         } else {
-          const { stdout, stderr } = await execAsync(`cd "${buildPath}" && ${cmd}`, { timeout: 180000, maxBuffer: 2 * 1024 * 1024 });
+          const { stdout, stderr } = await runProcess(cmd[0], cmd.slice(1), { cwd: buildPath, timeout: 180000, signal, onLine });
           output = stdout || stderr || "Build completed";
         }
         break;
@@ -1378,96 +1852,86 @@ export async function executeTool(
 
       case "find_definition": {
         const symbol = args.symbol as string;
-        const searchPath = resolve((args.path as string) || ".");
+        const searchPath = await locate((args.path as string) || ".", workspace);
         const symbolType = args.type as string;
+        const name = checkArgument(symbol, "symbol", SYMBOL).replace(/\$/g, "\\$");
 
         // Build regex patterns for different symbol types
         let patterns: string[] = [];
         if (!symbolType || symbolType === "function") {
-          patterns.push(`(function\\s+${symbol}|const\\s+${symbol}\\s*=|${symbol}\\s*=\\s*function|${symbol}\\s*=\\s*\\(|def\\s+${symbol}|fn\\s+${symbol}|func\\s+${symbol})`);
+          patterns.push(`(function\\s+${name}|const\\s+${name}\\s*=|${name}\\s*=\\s*function|${name}\\s*=\\s*\\(|def\\s+${name}|fn\\s+${name}|func\\s+${name})`);
         }
         if (!symbolType || symbolType === "class") {
-          patterns.push(`(class\\s+${symbol}|struct\\s+${symbol}|type\\s+${symbol}\\s+struct)`);
+          patterns.push(`(class\\s+${name}|struct\\s+${name}|type\\s+${name}\\s+struct)`);
         }
         if (!symbolType || symbolType === "interface") {
-          patterns.push(`(interface\\s+${symbol}|type\\s+${symbol}\\s+interface)`);
+          patterns.push(`(interface\\s+${name}|type\\s+${name}\\s+interface)`);
         }
         if (!symbolType || symbolType === "type") {
-          patterns.push(`(type\\s+${symbol}\\s*=)`);
+          patterns.push(`(type\\s+${name}\\s*=)`);
         }
 
         const pattern = patterns.join("|");
-        const { stdout } = await execAsync(
-          `grep -rn --include="*.ts" --include="*.tsx" --include="*.js" --include="*.jsx" --include="*.py" --include="*.go" --include="*.rs" -E "${pattern}" "${searchPath}" 2>/dev/null | head -20`,
-          { timeout: 15000 }
+        const { stdout } = await runProcess(
+          "grep",
+          ["-rn", ...CODE_FILES.map((glob) => `--include=${glob}`), "-E", "-e", pattern, "--", searchPath],
+          { timeout: 15000, maxLines: MAX_RESULT_LINES, allowFailure: true, signal }
         );
-        output = stdout || `No definition found for: ${symbol}`;
+        output = hideDenied(stdout, workspace) || `No definition found for: ${symbol}`;
         break;
       }
 
       case "find_references": {
         const symbol = args.symbol as string;
-        const searchPath = resolve((args.path as string) || ".");
+        const searchPath = await locate((args.path as string) || ".", workspace);
+        const name = checkArgument(symbol, "symbol", SYMBOL).replace(/\$/g, "\\$");
 
-        const { stdout } = await execAsync(
-          `grep -rn --include="*.ts" --include="*.tsx" --include="*.js" --include="*.jsx" --include="*.py" --include="*.go" --include="*.rs" "\\b${symbol}\\b" "${searchPath}" 2>/dev/null | head -50`,
-          { timeout: 15000 }
+        const { stdout } = await runProcess(
+          "grep",
+          ["-rn", ...CODE_FILES.map((glob) => `--include=${glob}`), "-e", `\\b${name}\\b`, "--", searchPath],
+          { timeout: 15000, maxLines: MAX_RESULT_LINES, allowFailure: true, signal }
         );
-        output = stdout || `No references found for: ${symbol}`;
+        output = hideDenied(stdout, workspace) || `No references found for: ${symbol}`;
         break;
       }
 
       case "tree": {
-        const treePath = resolve((args.path as string) || ".");
-        const depth = parseInt(args.depth as string) || 3;
-        const showHidden = args.show_hidden === "true" ? "" : " -I 'node_modules|.git|dist|build|__pycache__|.cache'";
+        const treePath = await locate((args.path as string) || ".", workspace);
+        const depth = String(Math.max(1, parseInt(args.depth as string) || 3));
+        const showHidden = args.show_hidden === "true" ? [] : ["-I", "node_modules|.git|dist|build|__pycache__|.cache"];
 
         // Try native tree command first, fallback to find
         try {
-          const { stdout } = await execAsync(`tree -L ${depth}${showHidden} "${treePath}" 2>/dev/null || find "${treePath}" -maxdepth ${depth} -type f -o -type d 2>/dev/null | head -100`, { timeout: 10000 });
-          output = stdout;
+          const { stdout } = await runProcess("tree", ["-f", "--noreport", "-L", depth, ...showHidden, treePath], { timeout: 10000, signal });
+          output = hideDeniedTree(stdout, workspace);
         } catch {
-          output = "Could not generate tree view";
+          try {
+            const { stdout } = await runProcess(
+              "find",
+              [treePath, "-maxdepth", depth, "-type", "f", "-o", "-type", "d"],
+              { timeout: 10000, maxLines: MAX_RESULT_LINES, allowFailure: true, signal }
+            );
+            output = hideDenied(stdout, workspace);
+          } catch {
+            output = "Could not generate tree view";
+          }
         }
         break;
       }
 
       case "diff_files": {
-        const file1 = resolve(args.file1 as string);
-        const file2 = resolve(args.file2 as string);
+        const file1 = await locate(args.file1 as string, workspace);
+        const file2 = await locate(args.file2 as string, workspace);
 
-        const { stdout } = await execAsync(`diff -u "${file1}" "${file2}" 2>/dev/null || true`, { timeout: 10000 });
+        const { stdout } = await runProcess("diff", ["-u", file1, file2], { timeout: 10000, allowFailure: true, signal });
         output = stdout || "Files are identical";
         break;
       }
 
       case "batch_edit": {
-        const pattern = args.pattern as string;
-        const oldText = args.old_text as string;
-        const newText = args.new_text as string;
-        const basePath = resolve((args.path as string) || ".");
-
-        // Find matching files
-        const { stdout: filesOut } = await execAsync(
-          `find "${basePath}" -type f -name "${pattern.replace(/\*\*/g, '*')}" ! -path "*/node_modules/*" ! -path "*/.git/*" 2>/dev/null`,
-          { timeout: 10000 }
-        );
-
-        const files = filesOut.split('\n').filter(f => f.trim());
-        let edited = 0;
-
-        for (const file of files) {
-          try {
-            const content = await readFile(file, "utf-8");
-            if (content.includes(oldText)) {
-              const newContent = content.split(oldText).join(newText);
-              await writeFile(file, newContent, "utf-8");
-              edited++;
-            }
-          } catch {}
-        }
-
-        output = `Batch edit complete: ${edited} files modified out of ${files.length} matched`;
+        const { writes, matched } = await planBatchEdit(args, workspace, onProgress);
+        diff = await applyWrites(writes, checkpoint);
+        output = `Batch edit complete: ${writes.length} files modified out of ${matched} matched (${diffStats(diff)} lines)`;
         break;
       }
 
@@ -1483,27 +1947,58 @@ export async function executeTool(
       toolCallId,
       success: true,
       output,
+      diff,
     };
   } catch (error) {
     return {
       toolCallId,
       success: false,
-      error: error instanceof Error ? error.message : String(error),
+      error: signal?.aborted ? "Cancelled by user" : error instanceof Error ? error.message : String(error),
     };
   }
 }
 
-// Execute multiple tools
+/**
+ * Group tool calls into the order they can run in: consecutive read-only
+ * calls share a group, every other call gets one of its own
+ */
+export function batchToolCalls<T extends { name: string }>(
+  calls: T[],
+  readOnly: (name: string) => boolean = (name) => READ_ONLY_TOOLS.has(name)
+): T[][] {
+  const batches: T[][] = [];
+  for (const call of calls) {
+    const last = batches[batches.length - 1];
+    if (last && readOnly(call.name) && readOnly(last[0].name)) {
+      last.push(call);
+    } else {
+      batches.push([call]);
+    }
+  }
+  return batches;
+}
+
+// Execute multiple tools: read-only ones concurrently, the rest one at a
+// time in the order given. Results keep the order of the calls.
 export async function executeTools(
-  tools: { name: string; arguments: Record<string, unknown>; id: string }[]
+  tools: { name: string; arguments: Record<string, unknown>; id: string }[],
+  context: ToolContext = {},
+  concurrency = MAX_PARALLEL_TOOLS
 ): Promise<ToolResult[]> {
-  const results = await Promise.all(
-    tools.map(async (tool) => {
-      const result = await executeTool(tool.name, tool.arguments);
-      result.toolCallId = tool.id;
-      return result;
-    })
-  );
+  const results: ToolResult[] = [];
+  for (const batch of batchToolCalls(tools)) {
+    const offset = results.length;
+    let next = 0;
+    const worker = async () => {
+      for (let i = next++; i < batch.length; i = next++) {
+        const tool = batch[i];
+        const result = await executeTool(tool.name, tool.arguments, context);
+        result.toolCallId = tool.id;
+        results[offset + i] = result;
+      }
+    };
+    await Promise.all(Array.from({ length: Math.min(concurrency, batch.length) }, worker));
+  }
   return results;
 }
 
@@ -0,0 +1,280 @@
+import { spawn, type ChildProcess } from "child_process";
+import { prepareCommand, type CommandPolicy } from "./command.js";
+
+export type JobStatus = "running" | "exited" | "killed";
+
+export interface Job {
+  id: number;
+  command: string;
+  cwd: string;
+  pid: number;
+  startedAt: Date;
+  endedAt?: Date;
+  status: JobStatus;
+  code: number | null;
+  signal: NodeJS.Signals | null;
+}
+
+// Something that happened to a job, for live displays
+export type JobEvent =
+  | { type: "start"; job: Job }
+  | { type: "output"; job: Job; text: string }
+  | { type: "exit"; job: Job };
+
+// Output not yet read by the model; skipped counts characters dropped
+// because they were pushed out of the buffer first
+export interface JobOutput {
+  job: Job;
+  output: string;
+  skipped: number;
+}
+
+interface JobState {
+  job: Job;
+  child: ChildProcess;
+  output: string; // The last maxOutput characters of stdout and stderr
+  dropped: number; // Characters trimmed from the front of output
+  cursor: number; // Position (counting dropped characters) the model has read up to
+  maxOutput: number;
+  killing: boolean;
+}
+
+// How long a job gets to exit after SIGTERM before it is sent SIGKILL
+const KILL_GRACE = 5000;
+
+class JobManager {
+  private jobs: Map<number, JobState> = new Map();
+  private listeners: Set<(event: JobEvent) => void> = new Set();
+  private nextId = 1;
+  private hooked = false;
+
+  /**
+   * Start a command line in the background under the command policy. It
+   * gets the same checks and rlimits as run_command, but no wall-clock
+   * timeout; its output is buffered until read.
+   */
+  async start(command: string, cwd: string, policy: CommandPolicy): Promise<Job> {
+    const { program, args, env } = await prepareCommand(command, policy);
+    const child = spawn(program, args, { cwd, env, detached: true, stdio: ["pipe", "pipe", "pipe"] });
+
+    await new Promise<void>((resolvePromise, reject) => {
+      child.once("spawn", resolvePromise);
+      child.on("error", reject);
+    });
+    this.hookExit();
+
+    const job: Job = {
+      id: this.nextId++,
+      command,
+      cwd,
+      pid: child.pid!,
+      startedAt: new Date(),
+      status: "running",
+      code: null,
+      signal: null,
+    };
+    const state: JobState = { job, child, output: "", dropped: 0, cursor: 0, maxOutput: policy.maxOutput, killing: false };
+    this.jobs.set(job.id, state);
+
+    const append = (text: string) => {
+      state.output += text;
+      if (state.output.length > state.maxOutput) {
+        const excess = state.output.length - state.maxOutput;
+        state.output = state.output.slice(excess);
+        state.dropped += excess;
+      }
+      this.emit({ type: "output", job, text });
+    };
+    // Decoded per stream, so a character split across chunks stays whole
+    child.stdout!.setEncoding("utf8");
+    child.stderr!.setEncoding("utf8");
+    child.stdout!.on("data", append);
+    child.stderr!.on("data", append);
+    // Writing to a job that has exited must not crash the process
+    child.stdin!.on("error", () => {});
+
+    child.on("close", (code, signal) => {
+      job.status = state.killing ? "killed" : "exited";
+      job.code = code;
+      job.signal = signal;
+      job.endedAt = new Date();
+      this.emit({ type: "exit", job });
+    });
+
+    this.emit({ type: "start", job });
+    return job;
+  }
+
+  private state(id: number): JobState {
+    const state = this.jobs.get(id);
+    if (!state) throw new Error(`Unknown job: ${id} (use job_status to list jobs)`);
+    return state;
+  }
+
+  private emit(event: JobEvent): void {
+    for (const listener of this.listeners) listener(event);
+  }
+
+  // Jobs are started in their own process group, so nothing else cleans them up
+  private hookExit(): void {
+    if (this.hooked) return;
+    this.hooked = true;
+    process.once("exit", () => this.killAll());
+    for (const signal of ["SIGHUP", "SIGTERM"] as const) {
+      process.once(signal, () => {
+        this.killAll();
+        process.exit(128 + (signal === "SIGHUP" ? 1 : 15));
+      });
+    }
+  }
+
+  get(id: number): Job {
+    return this.state(id).job;
+  }
+
+  list(): Job[] {
+    return [...this.jobs.values()].map((state) => state.job);
+  }
+
+  /**
+   * Output since the last read. With wait, a running job with nothing new
+   * gets up to that many milliseconds to print something or exit.
+   */
+  async read(id: number, wait = 0): Promise<JobOutput> {
+    const state = this.state(id);
+    const unread = () => state.dropped + state.output.length > state.cursor;
+
+    if (wait > 0 && !unread() && state.job.status === "running") {
+      await new Promise<void>((resolvePromise) => {
+        const done = () => {
+          clearTimeout(timer);
+          unsubscribe();
+          resolvePromise();
+        };
+        const timer = setTimeout(done, wait);
+        const unsubscribe = this.subscribe((event) => {
+          if (event.job.id === id && event.type !== "start") done();
+        });
+      });
+    }
+
+    const skipped = Math.max(0, state.dropped - state.cursor);
+    const output = state.output.slice(Math.max(0, state.cursor - state.dropped));
+    state.cursor = state.dropped + state.output.length;
+    return { job: state.job, output, skipped };
+  }
+
+  /**
+   * The last lines of a job's output, without moving the model's read position
+   */
+  tail(id: number, lines: number): string {
+    return this.state(id).output.split("\n").slice(-lines).join("\n");
+  }
+
+  write(id: number, input: string, close = false): Job {
+    const { job, child } = this.state(id);
+    if (job.status !== "running") throw new Error(`Job ${id} is not running (${describeJob(job)})`);
+    if (input) child.stdin!.write(input);
+    if (close) child.stdin!.end();
+    return job;
+  }
+
+  /**
+   * Signal a job's whole process group; after SIGTERM it is sent SIGKILL
+   * if it hasn't exited within a few seconds
+   */
+  kill(id: number, signal: NodeJS.Signals = "SIGTERM"): Job {
+    const state = this.state(id);
+    if (state.job.status !== "running") return state.job;
+
+    state.killing = true;
+    signalGroup(state.job.pid, signal);
+    if (signal !== "SIGKILL") {
+      setTimeout(() => {
+        if (state.job.status === "running") signalGroup(state.job.pid, "SIGKILL");
+      }, KILL_GRACE).unref();
+    }
+    return state.job;
+  }
+
+  // Synchronous so it can run while the process exits
+  killAll(): void {
+    for (const state of this.jobs.values()) {
+      if (state.job.status !== "running") continue;
+      state.killing = true;
+      signalGroup(state.job.pid, "SIGKILL");
+    }
+  }
+
+  // Returns a function that removes the listener
+  subscribe(listener: (event: JobEvent) => void): () => void {
+    this.listeners.add(listener);
+    return () => {
+      this.listeners.delete(listener);
+    };
+  }
+}
+
+function signalGroup(pid: number, signal: NodeJS.Signals): void {
+  try {
+    process.kill(-pid, signal);
+  } catch {
+    // Already exited
+  }
+}
+
+function elapsed(job: Job): string {
+  const seconds = Math.round(((job.endedAt ?? new Date()).getTime() - job.startedAt.getTime()) / 1000);
+  return seconds < 60 ? `${seconds}s` : `${Math.floor(seconds / 60)}m${seconds % 60}s`;
+}
+
+/**
+ * Status in a few words, e.g. "running for 12s" or "exited with code 1 after 3s"
+ */
+export function describeJob(job: Job): string {
+  if (job.status === "running") return `running for ${elapsed(job)}`;
+  const killed = job.status === "killed";
+  const how = job.signal
+    ? `${killed ? "killed" : "terminated"} by ${job.signal}`
+    : `${killed ? "stopped" : "exited"} with code ${job.code}`;
+  return `${how} after ${elapsed(job)}`;
+}
+
+// Singleton instance
+export const jobManager = new JobManager();
+
+/**
+ * /jobs [kill <id> | output <id>] - list, stop or inspect background jobs
+ */
+export function runJobsCommand(args: string[]): string {
+  const [action, value] = args.filter(Boolean);
+  const jobs = jobManager.list();
+
+  if (!action) {
+    if (jobs.length === 0) return "No background jobs. The assistant starts them with start_job.";
+    return [
+      "**Background jobs**",
+      "",
+      ...jobs.map((job) => `* **#${job.id}** \`${job.command}\` - ${describeJob(job)} (pid ${job.pid})`),
+      "",
+      "Use `/jobs output <id>` to see a job's output and `/jobs kill <id>` to stop it.",
+    ].join("\n");
+  }
+
+  const id = Number(value);
+  if ((action !== "kill" && action !== "output") || !Number.isInteger(id)) {
+    return "Usage: /jobs [kill <id> | output <id>]";
+  }
+
+  try {
+    if (action === "kill") {
+      const job = jobManager.kill(id);
+      return `🛑 Stopping job #${id}: \`${job.command}\``;
+    }
+    const job = jobManager.get(id);
+    const output = jobManager.tail(id, 40).trimEnd();
+    return `**Job #${id}** \`${job.command}\` - ${describeJob(job)}\n\`\`\`\n${output || "(no output yet)"}\n\`\`\``;
+  } catch (error) {
+    return error instanceof Error ? error.message : String(error);
+  }
+}
@@ -0,0 +1,103 @@
+import { chmod, mkdir, readdir, stat, unlink, writeFile } from "fs/promises";
+import { join } from "path";
+import { CONFIG_DIR } from "../config/index.js";
+
+// Where outputs too large for the context are saved; workspaces allow reading
+// here. Outputs can hold secrets, so this is private to the user.
+export const SPILL_DIR = join(CONFIG_DIR, "output");
+
+// Oldest saved outputs beyond this are deleted
+const MAX_SPILLS = 100;
+
+// Same rough ratio the context estimates use (see ai/context.ts)
+const CHARS_PER_TOKEN = 4;
+
+// Room kept for the note that explains what was elided
+const NOTE_CHARS = 500;
+
+export interface OutputLimit {
+  maxTokens: number;
+  headRatio?: number; // Share of the kept text taken from the start (default 0.6)
+}
+
+const count = (n: number) => n.toLocaleString("en-US");
+
+function lineAt(text: string, offset: number): number {
+  let line = 1;
+  for (let i = text.indexOf("\n"); i !== -1 && i < offset; i = text.indexOf("\n", i + 1)) line++;
+  return line;
+}
+
+// Where to cut: at a line break within the budget unless that would
+// waste more than half of it (e.g. minified files), then mid-line
+function headEnd(text: string, budget: number): number {
+  const lineBreak = text.lastIndexOf("\n", budget - 1);
+  return lineBreak >= budget / 2 ? lineBreak + 1 : budget;
+}
+
+function tailStart(text: string, budget: number): number {
+  const from = text.length - budget;
+  const lineBreak = text.indexOf("\n", from);
+  return lineBreak !== -1 && lineBreak < from + budget / 2 ? lineBreak + 1 : from;
+}
+
+// Delete the oldest saved outputs beyond MAX_SPILLS
+async function pruneSpills(): Promise<void> {
+  try {
+    const names = (await readdir(SPILL_DIR)).filter((name) => name.endsWith(".txt"));
+    if (names.length <= MAX_SPILLS) return;
+    const files = await Promise.all(
+      names.map(async (name) => ({ path: join(SPILL_DIR, name), mtime: (await stat(join(SPILL_DIR, name))).mtimeMs }))
+    );
+    files.sort((a, b) => a.mtime - b.mtime);
+    await Promise.all(files.slice(0, files.length - MAX_SPILLS).map((f) => unlink(f.path).catch(() => {})));
+  } catch {
+    // Nothing to prune
+  }
+}
+
+async function spill(name: string, output: string): Promise<string | null> {
+  const path = join(SPILL_DIR, `${name}-${Date.now()}-${Math.random().toString(36).slice(2, 8)}.txt`);
+  try {
+    await mkdir(SPILL_DIR, { recursive: true, mode: 0o700 });
+    await chmod(SPILL_DIR, 0o700); // In case it was created with looser modes
+    await writeFile(path, output, { encoding: "utf-8", mode: 0o600, flag: "wx" });
+    await pruneSpills();
+    return path;
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Fit a tool's output into a token budget. Oversized output keeps its
+ * first and last lines, the full text is saved under SPILL_DIR, and a note
+ * tells the model exactly what was left out and how to read it.
+ */
+export async function limitOutput(name: string, output: string, limit: OutputLimit): Promise<string> {
+  const maxChars = limit.maxTokens * CHARS_PER_TOKEN;
+  if (output.length <= maxChars) return output;
+
+  const budget = Math.max(maxChars - NOTE_CHARS, 200);
+  const headBudget = Math.floor(budget * (limit.headRatio ?? 0.6));
+  const end = headEnd(output, headBudget);
+  const start = Math.max(tailStart(output, budget - headBudget), end);
+
+  const totalLines = lineAt(output, output.length - 1);
+  const firstElided = lineAt(output, end);
+  const lastElided = lineAt(output, start - 1);
+  const lines = firstElided === lastElided ? `line ${count(firstElided)}` : `lines ${count(firstElided)}-${count(lastElided)}`;
+  const partial = (end > 0 && output[end - 1] !== "\n") || (start < output.length && output[start - 1] !== "\n");
+
+  const path = await spill(name, output);
+  const where = path
+    ? `The full output is saved in ${path}; read the elided part with read_file (line_start/line_end, a few hundred lines at a time) or search it with search_code.`
+    : "The full output could not be saved.";
+
+  return [
+    output.slice(0, end).replace(/\n$/, ""),
+    `[... ${lines} elided${partial ? " (cut mid-line)" : ""}: ${count(start - end)} characters ...]`,
+    output.slice(start).replace(/\n$/, ""),
+    `[Output truncated to fit the context: ${count(output.length)} characters in ${count(totalLines)} lines, of which ${lines} were left out. ${where}]`,
+  ].join("\n");
+}
@@ -0,0 +1,198 @@
+import type { DiffLine } from "../ai/types.js";
+
+export interface PatchHunk {
+  header: string;
+  oldStart?: number; // Missing when the model wrote a bare "@@ @@"
+  lines: DiffLine[];
+  noFinalNewline?: boolean; // "\ No newline at end of file" after the new side
+}
+
+// One file section of a patch; a null path is /dev/null
+export interface PatchFile {
+  oldPath: string | null;
+  newPath: string | null;
+  hunks: PatchHunk[];
+}
+
+export interface HunkResult {
+  ok: boolean;
+  line?: number; // 1-based line the hunk was applied at
+  offset?: number; // Lines away from where the header said
+  fuzz?: "trailing whitespace" | "whitespace";
+  error?: string;
+}
+
+const HUNK_HEADER = /^@@+ -(\d+)(?:,\d+)? \+\d+(?:,\d+)? @@+/;
+
+function parsePath(raw: string): string | null {
+  // Drop timestamps ("--- a/x\t2024-01-01 ...") and quotes
+  const path = raw.split("\t")[0].trim().replace(/^"(.*)"$/, "$1");
+  if (path === "/dev/null") return null;
+  return path.replace(/^[ab]\//, "");
+}
+
+/**
+ * Parse a unified or git-style diff into per-file hunks. Line counts in
+ * hunk headers are ignored: models often get them wrong, so a hunk runs
+ * until the next header.
+ */
+export function parsePatch(text: string): PatchFile[] {
+  const lines = text.replace(/\r?\n$/, "").split("\n").map((line) => line.replace(/\r$/, ""));
+  const files: PatchFile[] = [];
+  let current: PatchFile | null = null;
+  let fromGitHeader = false;
+
+  for (let i = 0; i < lines.length; i++) {
+    const line = lines[i];
+
+    if (line.startsWith("diff --git ")) {
+      const match = line.match(/^diff --git a\/(.+) b\/(.+)$/);
+      current = { oldPath: match?.[1] ?? null, newPath: match?.[2] ?? null, hunks: [] };
+      files.push(current);
+      fromGitHeader = true;
+    } else if (current && fromGitHeader && line.startsWith("new file mode")) {
+      current.oldPath = null;
+    } else if (current && fromGitHeader && line.startsWith("deleted file mode")) {
+      current.newPath = null;
+    } else if (current && fromGitHeader && line.startsWith("rename from ")) {
+      current.oldPath = line.slice("rename from ".length).trim();
+    } else if (current && fromGitHeader && line.startsWith("rename to ")) {
+      current.newPath = line.slice("rename to ".length).trim();
+    } else if (line.startsWith("--- ") && lines[i + 1]?.startsWith("+++ ")) {
+      const oldPath = parsePath(line.slice(4));
+      const newPath = parsePath(lines[i + 1].slice(4));
+      // A git header already opened this file; the ---/+++ pair confirms it
+      if (!current || !fromGitHeader || current.hunks.length > 0) {
+        current = { oldPath, newPath, hunks: [] };
+        files.push(current);
+      } else {
+        current.oldPath = oldPath;
+        current.newPath = newPath;
+      }
+      fromGitHeader = false;
+      i++;
+    } else if (line.startsWith("@@")) {
+      if (!current) throw new Error(`Hunk at patch line ${i + 1} has no file header (--- / +++)`);
+      const header = line.match(HUNK_HEADER);
+      const hunk: PatchHunk = { header: line.replace(/^(@@[^@]*@@).*$/, "$1"), oldStart: header ? Number(header[1]) : undefined, lines: [] };
+
+      for (; i + 1 < lines.length; i++) {
+        const next = lines[i + 1];
+        if (next.startsWith("@@") || next.startsWith("diff --git ")) break;
+        if (next.startsWith("--- ") && lines[i + 2]?.startsWith("+++ ")) break;
+
+        if (next.startsWith("+")) hunk.lines.push({ type: "add", text: next.slice(1) });
+        else if (next.startsWith("-")) hunk.lines.push({ type: "remove", text: next.slice(1) });
+        else if (next.startsWith(" ")) hunk.lines.push({ type: "context", text: next.slice(1) });
+        else if (next === "") hunk.lines.push({ type: "context", text: "" }); // Editors strip the space of blank context lines
+        else if (next.startsWith("\\")) {
+          if (hunk.lines.at(-1)?.type !== "remove") hunk.noFinalNewline = true;
+        } else break;
+      }
+      current.hunks.push(hunk);
+    }
+  }
+
+  if (files.length === 0) throw new Error("No file changes found. Expected a unified diff with --- / +++ headers.");
+  for (const file of files) {
+    if (!file.oldPath && !file.newPath) throw new Error("A file section has neither an old nor a new path");
+  }
+  return files;
+}
+
+type Compare = (a: string, b: string) => boolean;
+
+const COMPARISONS: { fuzz?: HunkResult["fuzz"]; same: Compare }[] = [
+  { same: (a, b) => a === b },
+  { fuzz: "trailing whitespace", same: (a, b) => a.trimEnd() === b.trimEnd() },
+  { fuzz: "whitespace", same: (a, b) => a.replace(/\s+/g, " ").trim() === b.replace(/\s+/g, " ").trim() },
+];
+
+// Closest position to `expected` (at or after `from`) where `block` matches
+function findBlock(lines: string[], block: string[], expected: number, from: number, same: Compare): number {
+  const last = lines.length - block.length;
+  const matches = (at: number) => block.every((text, j) => same(lines[at + j], text));
+
+  for (let delta = 0; expected - delta >= from || expected + delta <= last; delta++) {
+    for (const at of delta === 0 ? [expected] : [expected - delta, expected + delta]) {
+      if (at >= from && at <= last && matches(at)) return at;
+    }
+  }
+  return -1;
+}
+
+/**
+ * Apply hunks in order to a file's content. Each hunk is placed where its
+ * context matches nearest the line its header names, first exactly and
+ * then ignoring whitespace. The content is only meaningful when every
+ * result is ok.
+ */
+export function applyHunks(content: string, hunks: PatchHunk[]): { content: string; results: HunkResult[] } {
+  const eol = content.includes("\r\n") ? "\r\n" : "\n";
+  let finalNewline = content === "" || content.endsWith("\n");
+  const lines = content === "" ? [] : content.split(/\r?\n/);
+  if (content.endsWith("\n")) lines.pop();
+
+  const results: HunkResult[] = [];
+  let from = 0;
+  let delta = 0; // Lines added minus removed by earlier hunks
+
+  for (const hunk of hunks) {
+    const oldBlock = hunk.lines.filter((l) => l.type !== "add").map((l) => l.text);
+    const newBlock = hunk.lines.filter((l) => l.type !== "remove").map((l) => l.text);
+    // Headers name the line before an insertion when there is no context
+    const named = hunk.oldStart === undefined ? from : Math.max(0, hunk.oldStart - (oldBlock.length > 0 ? 1 : 0)) + delta;
+    const expected = Math.min(Math.max(named, from), lines.length);
+
+    let at = -1;
+    let fuzz: HunkResult["fuzz"];
+    if (oldBlock.length === 0) {
+      at = expected;
+    } else {
+      for (const comparison of COMPARISONS) {
+        at = findBlock(lines, oldBlock, expected, from, comparison.same);
+        if (at !== -1) {
+          fuzz = comparison.fuzz;
+          break;
+        }
+      }
+    }
+
+    if (at === -1) {
+      results.push({ ok: false, error: `context not found near line ${expected + 1}` });
+      continue;
+    }
+
+    // Context lines keep the file's text, which may differ in whitespace
+    let oldIndex = 0;
+    const replacement: string[] = [];
+    for (const line of hunk.lines) {
+      if (line.type === "context") replacement.push(lines[at + oldIndex]);
+      else if (line.type === "add") replacement.push(line.text);
+      if (line.type !== "add") oldIndex++;
+    }
+
+    lines.splice(at, oldBlock.length, ...replacement);
+    if (at + newBlock.length === lines.length) finalNewline = !hunk.noFinalNewline;
+    results.push({ ok: true, line: at + 1, offset: hunk.oldStart === undefined ? undefined : at - named, fuzz });
+    delta += newBlock.length - oldBlock.length;
+    from = at + newBlock.length;
+  }
+
+  const text = lines.join(eol);
+  return { content: lines.length > 0 && finalNewline ? text + eol : text, results };
+}
+
+/**
+ * One line of the per-hunk report
+ */
+export function formatHunkResult(hunk: PatchHunk, result: HunkResult, index: number): string {
+  const label = `hunk ${index + 1} ${hunk.header}`;
+  if (!result.ok) return `  ✗ ${label}: ${result.error}`;
+
+  const details = [
+    result.offset ? `offset ${result.offset > 0 ? "+" : ""}${result.offset}` : "",
+    result.fuzz ? `ignoring ${result.fuzz}` : "",
+  ].filter(Boolean);
+  return `  ✓ ${label}: applied at line ${result.line}${details.length ? ` (${details.join(", ")})` : ""}`;
+}
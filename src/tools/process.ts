@@ -0,0 +1,141 @@
+import { spawn, type ChildProcess } from "child_process";
+
+export interface ProcessOptions {
+  cwd?: string;
+  env?: NodeJS.ProcessEnv;
+  signal?: AbortSignal;
+  timeout?: number; // Milliseconds (default 30s)
+  maxBuffer?: number; // Bytes of combined output before the process is killed (default 2MB)
+  maxLines?: number; // Stop once stdout has this many lines and keep only those, like "| head"
+  allowFailure?: boolean; // Resolve on a non-zero exit instead of rejecting
+  label?: string; // Command shown in errors (default: the program and its arguments)
+  onLine?: (line: string, stream: "stdout" | "stderr") => void; // Each line of output as it arrives
+}
+
+export interface ProcessResult {
+  stdout: string;
+  stderr: string;
+  code: number | null;
+}
+
+export type ProcessFailure = "cancelled" | "timeout" | "output" | "missing" | "exit";
+
+// Raised when a process can't start, is killed, or exits non-zero
+export class ProcessError extends Error {
+  constructor(
+    message: string,
+    public reason: ProcessFailure,
+    public stdout = "",
+    public stderr = "",
+    public code: number | null = null,
+    public signal: NodeJS.Signals | null = null
+  ) {
+    super(message);
+    this.name = "ProcessError";
+  }
+}
+
+// Children run in their own process group so cancelling kills the whole
+// tree (e.g. the test runner npm started), not just the direct child
+function collect(child: ChildProcess, label: string, options: ProcessOptions): Promise<ProcessResult> {
+  const { signal, timeout = 30000, maxBuffer = 2 * 1024 * 1024, maxLines, allowFailure, onLine } = options;
+
+  return new Promise((resolvePromise, reject) => {
+    let stdout = "";
+    let stderr = "";
+    let failure: Error | null = null;
+    let truncated = false;
+
+    // Partial last lines, held until the rest arrives. Of text rewritten
+    // with \r (progress bars) only what a terminal would show is passed on.
+    const partial = { stdout: "", stderr: "" };
+    const emitLines = (stream: "stdout" | "stderr", text: string, final = false) => {
+      if (!onLine) return;
+      const lines = (partial[stream] + text).split("\n");
+      partial[stream] = final ? "" : lines.pop()!;
+      for (const line of lines) {
+        if (final && !line) continue;
+        onLine(line.split("\r").filter(Boolean).pop() ?? "", stream);
+      }
+    };
+
+    const killTree = (reason: Error | null) => {
+      if (reason) failure ??= reason;
+      try {
+        process.kill(-child.pid!, "SIGTERM");
+      } catch {
+        // Already exited
+      }
+    };
+    const tooLong = () => new ProcessError(`Command output exceeded ${Math.round(maxBuffer / 1024 / 1024)}MB: ${label}`, "output");
+    const onAbort = () => killTree(new ProcessError("Cancelled by user", "cancelled"));
+    const timer = setTimeout(() => killTree(new ProcessError(`Command timed out after ${Math.round(timeout / 1000)}s: ${label}`, "timeout")), timeout);
+    signal?.addEventListener("abort", onAbort, { once: true });
+
+    // Decoded per stream, so a character split across chunks stays whole
+    child.stdout!.setEncoding("utf8");
+    child.stderr!.setEncoding("utf8");
+    child.stdout!.on("data", (chunk: string) => {
+      if (truncated) return;
+      stdout += chunk;
+      emitLines("stdout", chunk);
+      if (maxLines !== undefined && stdout.split("\n").length > maxLines) {
+        stdout = stdout.split("\n").slice(0, maxLines).join("\n") + "\n";
+        truncated = true;
+        killTree(null);
+      }
+      if (stdout.length + stderr.length > maxBuffer) killTree(tooLong());
+    });
+    child.stderr!.on("data", (chunk: string) => {
+      stderr += chunk;
+      emitLines("stderr", chunk);
+      if (stdout.length + stderr.length > maxBuffer) killTree(tooLong());
+    });
+
+    child.on("error", (error: NodeJS.ErrnoException) => {
+      failure ??= error.code === "ENOENT"
+        ? new ProcessError(`${String(child.spawnfile)} is not installed or not on PATH`, "missing")
+        : error;
+    });
+    child.on("close", (code, exitSignal) => {
+      clearTimeout(timer);
+      signal?.removeEventListener("abort", onAbort);
+      emitLines("stdout", "", true);
+      emitLines("stderr", "", true);
+      if (failure) reject(failure);
+      else if (code !== 0 && !truncated && !allowFailure) {
+        const status = code === null ? `killed by ${exitSignal}` : `exit ${code}`;
+        reject(new ProcessError(`Command failed (${status}): ${label}\n${stderr || stdout}`.trimEnd(), "exit", stdout, stderr, code, exitSignal));
+      } else resolvePromise({ stdout, stderr, code });
+    });
+  });
+}
+
+/**
+ * Run a program with an argument array. No shell is involved, so
+ * arguments reach the program exactly as given.
+ */
+export function runProcess(command: string, args: string[], options: ProcessOptions = {}): Promise<ProcessResult> {
+  if (options.signal?.aborted) return Promise.reject(new ProcessError("Cancelled by user", "cancelled"));
+  const child = spawn(command, args, { cwd: options.cwd, env: options.env, detached: true, stdio: ["ignore", "pipe", "pipe"] });
+  return collect(child, options.label ?? [command, ...args].join(" "), options);
+}
+
+/**
+ * Check a model-supplied value that is passed as a program argument.
+ * Values starting with "-" would be read as options (e.g. a branch named
+ * "--upload-pack=..."), so they are rejected.
+ */
+export function checkArgument(value: string, name: string, pattern?: RegExp): string {
+  if (!value || value.startsWith("-") || /[\0\r\n]/.test(value) || (pattern && !pattern.test(value))) {
+    throw new Error(`Invalid ${name}: ${JSON.stringify(value)}`);
+  }
+  return value;
+}
+
+/**
+ * Split a space-separated list argument (files, packages) and check each item
+ */
+export function splitArguments(value: string, name: string, pattern?: RegExp): string[] {
+  return value.split(/\s+/).filter(Boolean).map((item) => checkArgument(item, name, pattern));
+}
@@ -0,0 +1,522 @@
+/**
+ * A parser for the subset of POSIX shell that commands are written in:
+ * lists (; && || &), pipelines, subshells, { groups }, case statements,
+ * function definitions, quoting, $(...) / `...` / <(...) substitutions,
+ * redirects and here-documents. It exists to find every program a command
+ * line runs; it does not evaluate anything. Other control-flow keywords
+ * are kept as ordinary words.
+ */
+
+// One word after quote removal; dynamic when it depends on a variable or
+// substitution, so its runtime value is unknown
+export interface ShellWord {
+  text: string;
+  dynamic: boolean;
+  substitutions: ShellList[];
+}
+
+export interface ShellRedirect {
+  operator: string;
+  target: ShellWord;
+}
+
+export interface SimpleCommand {
+  type: "command";
+  assignments: ShellWord[];
+  words: ShellWord[];
+  redirects: ShellRedirect[];
+}
+
+export interface GroupCommand {
+  type: "subshell" | "group";
+  body: ShellList;
+  redirects: ShellRedirect[];
+}
+
+export interface CaseCommand {
+  type: "case";
+  word: ShellWord;
+  clauses: { patterns: ShellWord[]; body: ShellList }[];
+  redirects: ShellRedirect[];
+}
+
+export interface FunctionDefinition {
+  type: "function";
+  name: string;
+  body: ShellCommandNode;
+}
+
+export type ShellCommandNode = SimpleCommand | GroupCommand | CaseCommand | FunctionDefinition;
+
+export interface Pipeline {
+  commands: ShellCommandNode[];
+}
+
+export interface ShellList {
+  items: { pipeline: Pipeline; operator?: "&&" | "||" | ";" | "&" }[];
+}
+
+export class ShellParseError extends Error {
+  constructor(message: string, public position: number) {
+    super(message);
+    this.name = "ShellParseError";
+  }
+}
+
+const METACHARACTERS = new Set([" ", "\t", "\n", ";", "&", "|", "(", ")", "<", ">"]);
+const REDIRECT = /^(\d*)(<<<|<<-|<<|<&|<>|<|>>|>&|>\||>|&>>|&>)/;
+
+class Parser {
+  private pos = 0;
+  private heredocs: { delimiter: string; strip: boolean; expand: boolean; word: ShellWord }[] = [];
+
+  constructor(private source: string) {}
+
+  private peek(offset = 0): string {
+    return this.source[this.pos + offset] ?? "";
+  }
+
+  private fail(message: string): never {
+    throw new ShellParseError(`${message} at position ${this.pos + 1}`, this.pos);
+  }
+
+  private skipSpaces(): void {
+    while (this.pos < this.source.length) {
+      const char = this.peek();
+      if (char === " " || char === "\t") this.pos++;
+      else if (char === "\\" && this.peek(1) === "\n") this.pos += 2;
+      else if (char === "#") {
+        while (this.pos < this.source.length && this.peek() !== "\n") this.pos++;
+      } else break;
+    }
+  }
+
+  private skipBlankLines(): void {
+    for (;;) {
+      this.skipSpaces();
+      if (this.peek() !== "\n") return;
+      this.pos++;
+      this.readHeredocBodies();
+    }
+  }
+
+  private atGroupEnd(): boolean {
+    return this.peek() === "}" && (this.pos + 1 >= this.source.length || METACHARACTERS.has(this.peek(1)));
+  }
+
+  // A reserved word such as "case" or "esac", as a whole word
+  private atKeyword(keyword: string): boolean {
+    const next = this.source[this.pos + keyword.length];
+    return this.source.startsWith(keyword, this.pos) && (next === undefined || METACHARACTERS.has(next));
+  }
+
+  // ";;", ";&" or ";;&" ending a case clause
+  private atCaseTerminator(): boolean {
+    return this.peek() === ";" && (this.peek(1) === ";" || this.peek(1) === "&");
+  }
+
+  parseProgram(): ShellList {
+    const list = this.parseList(null);
+    if (this.pos < this.source.length) this.fail(`Unexpected "${this.peek()}"`);
+    if (this.heredocs.length > 0) this.fail(`Here-document "${this.heredocs[0].delimiter}" is never closed`);
+    return list;
+  }
+
+  private parseList(end: ")" | "}" | "esac" | null): ShellList {
+    const items: ShellList["items"] = [];
+
+    for (;;) {
+      this.skipBlankLines();
+      if (this.pos >= this.source.length) break;
+      if (end === ")" && this.peek() === ")") break;
+      if (end === "}" && this.atGroupEnd()) break;
+      if (end === "esac" && (this.atCaseTerminator() || this.atKeyword("esac"))) break;
+
+      const pipeline = this.parsePipeline();
+      this.skipSpaces();
+
+      if (end === "esac" && this.atCaseTerminator()) {
+        items.push({ pipeline });
+        break;
+      }
+
+      const two = this.source.slice(this.pos, this.pos + 2);
+      if (two === "&&" || two === "||") {
+        this.pos += 2;
+        items.push({ pipeline, operator: two });
+        this.skipBlankLines();
+        continue;
+      }
+      if (this.peek() === ";" && this.peek(1) !== ";") {
+        this.pos++;
+        items.push({ pipeline, operator: ";" });
+        continue;
+      }
+      if (this.peek() === "&") {
+        this.pos++;
+        items.push({ pipeline, operator: "&" });
+        continue;
+      }
+      if (this.peek() === "\n") {
+        this.pos++;
+        this.readHeredocBodies();
+        items.push({ pipeline, operator: ";" });
+        continue;
+      }
+      items.push({ pipeline });
+      break;
+    }
+
+    if (end === null && this.peek() === ";") this.fail("Unexpected \";;\" outside a case statement");
+    return { items };
+  }
+
+  private parsePipeline(): Pipeline {
+    if (this.peek() === "!" && METACHARACTERS.has(this.peek(1))) this.pos++;
+    const commands = [this.parseCommand()];
+    for (;;) {
+      this.skipSpaces();
+      if (this.peek() !== "|" || this.peek(1) === "|") break;
+      this.pos += this.peek(1) === "&" ? 2 : 1;
+      this.skipBlankLines();
+      commands.push(this.parseCommand());
+    }
+    return { commands };
+  }
+
+  private parseCommand(): ShellCommandNode {
+    this.skipSpaces();
+
+    if (this.peek() === "(") {
+      this.pos++;
+      const body = this.parseList(")");
+      if (this.peek() !== ")") this.fail("Missing \")\"");
+      this.pos++;
+      return { type: "subshell", body, redirects: this.parseRedirects() };
+    }
+    if (this.peek() === "{" && METACHARACTERS.has(this.peek(1))) {
+      this.pos++;
+      const body = this.parseList("}");
+      if (!this.atGroupEnd()) this.fail("Missing \"}\"");
+      this.pos++;
+      return { type: "group", body, redirects: this.parseRedirects() };
+    }
+
+    if (this.atKeyword("case")) return this.parseCase();
+
+    // function name [()] { ... }
+    const keyword = this.source.slice(this.pos).match(/^function[ \t]+/);
+    if (keyword) {
+      this.pos += keyword[0].length;
+      const name = this.readWord().text;
+      this.skipSpaces();
+      if (this.source.slice(this.pos).match(/^\(\s*\)/)) this.pos = this.source.indexOf(")", this.pos) + 1;
+      this.skipBlankLines();
+      return { type: "function", name, body: this.parseCommand() };
+    }
+
+    const command: SimpleCommand = { type: "command", assignments: [], words: [], redirects: [] };
+    for (;;) {
+      this.skipSpaces();
+      const char = this.peek();
+      if (!char || char === "\n" || char === ";" || char === "|" || char === ")") break;
+      if (char === "&" && this.peek(1) !== ">") break;
+
+      const redirect = this.parseRedirect();
+      if (redirect) {
+        command.redirects.push(redirect);
+        continue;
+      }
+
+      if (char === "(") {
+        // name() { ... }
+        if (command.words.length !== 1 || command.assignments.length > 0 || this.source.slice(this.pos).match(/^\(\s*\)/) === null) {
+          this.fail("Unexpected \"(\"");
+        }
+        this.pos = this.source.indexOf(")", this.pos) + 1;
+        this.skipBlankLines();
+        return { type: "function", name: command.words[0].text, body: this.parseCommand() };
+      }
+
+      const start = this.pos;
+      const word = this.readWord();
+      const assignment = /^[A-Za-z_][A-Za-z0-9_]*\+?=/.test(this.source.slice(start, this.pos));
+      if (command.words.length === 0 && assignment) command.assignments.push(word);
+      else command.words.push(word);
+    }
+
+    if (command.words.length === 0 && command.assignments.length === 0 && command.redirects.length === 0) {
+      this.fail(this.peek() ? `Unexpected "${this.peek()}"` : "Missing command");
+    }
+    return command;
+  }
+
+  // case word in [(]pattern[|pattern]...) list ;; ... esac
+  private parseCase(): CaseCommand {
+    this.pos += "case".length;
+    this.skipSpaces();
+    if (!this.peek() || METACHARACTERS.has(this.peek())) this.fail("Missing word after \"case\"");
+    const word = this.readWord();
+    this.skipBlankLines();
+    if (!this.atKeyword("in")) this.fail("Missing \"in\" after the case word");
+    this.pos += "in".length;
+
+    const clauses: CaseCommand["clauses"] = [];
+    for (;;) {
+      this.skipBlankLines();
+      if (this.atKeyword("esac")) {
+        this.pos += "esac".length;
+        break;
+      }
+      if (this.pos >= this.source.length) this.fail("Missing \"esac\"");
+
+      if (this.peek() === "(") this.pos++;
+      const patterns: ShellWord[] = [];
+      for (;;) {
+        this.skipSpaces();
+        if (!this.peek() || METACHARACTERS.has(this.peek())) this.fail("Missing case pattern");
+        patterns.push(this.readWord());
+        this.skipSpaces();
+        if (this.peek() !== "|") break;
+        this.pos++;
+      }
+      if (this.peek() !== ")") this.fail("Missing \")\" after case pattern");
+      this.pos++;
+
+      clauses.push({ patterns, body: this.parseList("esac") });
+      const terminator = this.source.slice(this.pos).match(/^(;;&|;;|;&)/);
+      if (terminator) this.pos += terminator[0].length;
+      else if (!this.atKeyword("esac")) this.fail(this.peek() ? `Unexpected "${this.peek()}"` : "Missing \"esac\"");
+    }
+
+    return { type: "case", word, clauses, redirects: this.parseRedirects() };
+  }
+
+  private parseRedirects(): ShellRedirect[] {
+    const redirects: ShellRedirect[] = [];
+    for (;;) {
+      this.skipSpaces();
+      const redirect = this.parseRedirect();
+      if (!redirect) return redirects;
+      redirects.push(redirect);
+    }
+  }
+
+  private parseRedirect(): ShellRedirect | null {
+    // <(...) and >(...) are process substitutions, read as words
+    if ((this.peek() === "<" || this.peek() === ">") && this.peek(1) === "(") return null;
+    const match = this.source.slice(this.pos).match(REDIRECT);
+    if (!match) return null;
+
+    this.pos += match[0].length;
+    const operator = match[2];
+    this.skipSpaces();
+    if (!this.peek() || METACHARACTERS.has(this.peek())) this.fail(`Missing target for "${operator}"`);
+
+    const start = this.pos;
+    const target = this.readWord();
+    if (operator === "<<" || operator === "<<-") {
+      const raw = this.source.slice(start, this.pos);
+      this.heredocs.push({ delimiter: target.text, strip: operator === "<<-", expand: !/['"\\]/.test(raw), word: target });
+    }
+    return { operator, target };
+  }
+
+  // Here-document bodies start on the line after their redirect
+  private readHeredocBodies(): void {
+    const pending = this.heredocs;
+    this.heredocs = [];
+    for (const heredoc of pending) {
+      const lines: string[] = [];
+      for (;;) {
+        if (this.pos >= this.source.length) this.fail(`Here-document "${heredoc.delimiter}" is never closed`);
+        const newline = this.source.indexOf("\n", this.pos);
+        const line = this.source.slice(this.pos, newline === -1 ? undefined : newline);
+        this.pos = newline === -1 ? this.source.length : newline + 1;
+        if ((heredoc.strip ? line.replace(/^\t+/, "") : line) === heredoc.delimiter) break;
+        lines.push(line);
+      }
+      if (heredoc.expand) {
+        const body = new Parser(lines.join("\n"));
+        const word = body.readQuoted(null);
+        heredoc.word.substitutions.push(...word.substitutions);
+        heredoc.word.dynamic ||= word.dynamic;
+      }
+    }
+  }
+
+  private readWord(): ShellWord {
+    const word: ShellWord = { text: "", dynamic: false, substitutions: [] };
+
+    while (this.pos < this.source.length) {
+      const char = this.peek();
+
+      if ((char === "<" || char === ">") && this.peek(1) === "(" && word.text === "") {
+        this.pos += 2;
+        word.substitutions.push(this.readSubstitution());
+        word.dynamic = true;
+        continue;
+      }
+      if (METACHARACTERS.has(char)) break;
+
+      if (char === "\\") {
+        if (this.peek(1) !== "\n") word.text += this.peek(1);
+        this.pos += 2;
+      } else if (char === "'") {
+        const end = this.source.indexOf("'", this.pos + 1);
+        if (end === -1) this.fail("Unterminated single quote");
+        word.text += this.source.slice(this.pos + 1, end);
+        this.pos = end + 1;
+      } else if (char === "\"") {
+        this.pos++;
+        const quoted = this.readQuoted("\"");
+        word.text += quoted.text;
+        word.dynamic ||= quoted.dynamic;
+        word.substitutions.push(...quoted.substitutions);
+      } else if (char === "$" || char === "`") {
+        this.readExpansion(word);
+      } else {
+        word.text += char;
+        this.pos++;
+      }
+    }
+
+    return word;
+  }
+
+  // Text up to the closing quote (or the end, for here-document bodies),
+  // where only $ expansions, backticks and \ escapes are special
+  readQuoted(quote: "\"" | null): ShellWord {
+    const word: ShellWord = { text: "", dynamic: false, substitutions: [] };
+
+    for (;;) {
+      if (this.pos >= this.source.length) {
+        if (quote) this.fail("Unterminated double quote");
+        return word;
+      }
+      const char = this.peek();
+      if (char === quote) {
+        this.pos++;
+        return word;
+      }
+      if (char === "\\" && "$`\"\\\n".includes(this.peek(1))) {
+        if (this.peek(1) !== "\n") word.text += this.peek(1);
+        this.pos += 2;
+      } else if (char === "$" || char === "`") {
+        this.readExpansion(word);
+      } else {
+        word.text += char;
+        this.pos++;
+      }
+    }
+  }
+
+  // $(...), $((...)), ${...}, $name or `...`; appends its raw text to the word
+  private readExpansion(word: ShellWord): void {
+    const start = this.pos;
+    const char = this.peek();
+
+    if (char === "`") {
+      const end = this.findBacktickEnd();
+      const inner = this.source.slice(this.pos + 1, end).replace(/\\([$`\\])/g, "$1");
+      word.substitutions.push(parseShell(inner));
+      this.pos = end + 1;
+      word.dynamic = true;
+    } else if (this.peek(1) === "(" && this.peek(2) === "(") {
+      this.skipBalanced("(", ")");
+      word.dynamic = true;
+    } else if (this.peek(1) === "(") {
+      this.pos += 2;
+      word.substitutions.push(this.readSubstitution());
+      word.dynamic = true;
+    } else if (this.peek(1) === "{") {
+      this.skipBalanced("{", "}");
+      word.dynamic = true;
+    } else if (/[A-Za-z0-9_@*#?$!-]/.test(this.peek(1))) {
+      this.pos++;
+      if (/[A-Za-z_]/.test(this.peek())) {
+        while (/[A-Za-z0-9_]/.test(this.peek())) this.pos++;
+      } else {
+        this.pos++;
+      }
+      word.dynamic = true;
+    } else {
+      this.pos++;
+    }
+
+    word.text += this.source.slice(start, this.pos);
+  }
+
+  // The body of $( or <( up to its closing parenthesis
+  private readSubstitution(): ShellList {
+    const body = this.parseList(")");
+    if (this.peek() !== ")") this.fail("Missing \")\" to close a substitution");
+    this.pos++;
+    return body;
+  }
+
+  private findBacktickEnd(): number {
+    for (let i = this.pos + 1; i < this.source.length; i++) {
+      if (this.source[i] === "\\") i++;
+      else if (this.source[i] === "`") return i;
+    }
+    this.fail("Unterminated backtick");
+  }
+
+  // From "$" past the bracket that closes the one after it, e.g. $((1 + (2))) or ${x:-y}
+  private skipBalanced(open: "(" | "{", close: ")" | "}"): void {
+    this.pos++;
+    let depth = 0;
+    while (this.pos < this.source.length) {
+      const char = this.peek();
+      this.pos++;
+      if (char === open) depth++;
+      else if (char === close && --depth === 0) return;
+    }
+    this.fail(`Missing "${close}"`);
+  }
+}
+
+/**
+ * Parse a command line. Throws a ShellParseError for syntax the parser
+ * can't follow (unbalanced quotes, a missing "esac", ...).
+ */
+export function parseShell(source: string): ShellList {
+  return new Parser(source).parseProgram();
+}
+
+/**
+ * Every simple command in a parsed command line, including those inside
+ * subshells, groups, functions and substitutions
+ */
+export function simpleCommands(list: ShellList): SimpleCommand[] {
+  const found: SimpleCommand[] = [];
+  const visitWord = (word: ShellWord) => word.substitutions.forEach(visitList);
+  const visitRedirects = (redirects: ShellRedirect[]) => redirects.forEach((r) => visitWord(r.target));
+  const visitCommand = (node: ShellCommandNode): void => {
+    if (node.type === "command") {
+      found.push(node);
+      node.assignments.forEach(visitWord);
+      node.words.forEach(visitWord);
+      visitRedirects(node.redirects);
+    } else if (node.type === "function") {
+      visitCommand(node.body);
+    } else if (node.type === "case") {
+      visitWord(node.word);
+      for (const clause of node.clauses) {
+        clause.patterns.forEach(visitWord);
+        visitList(clause.body);
+      }
+      visitRedirects(node.redirects);
+    } else {
+      visitList(node.body);
+      visitRedirects(node.redirects);
+    }
+  };
+  function visitList(list: ShellList): void {
+    for (const { pipeline } of list.items) pipeline.commands.forEach(visitCommand);
+  }
+
+  visitList(list);
+  return found;
+}
@@ -0,0 +1,171 @@
+import { realpath } from "fs/promises";
+import { basename, dirname, isAbsolute, join, relative, resolve, sep } from "path";
+import { homedir } from "os";
+import { loadConfig } from "../config/index.js";
+import { SPILL_DIR } from "./output.js";
+
+// Raised when a tool path falls outside the workspace or matches a deny glob
+export class WorkspaceError extends Error {
+  constructor(message: string) {
+    super(message);
+    this.name = "WorkspaceError";
+  }
+}
+
+export interface WorkspaceOptions {
+  root: string;
+  allow?: string[]; // Globs outside the root that tools may still use
+  deny?: string[]; // Globs tools may never use, even inside the root
+}
+
+/**
+ * Convert a path glob into an anchored regular expression: "*" and "?"
+ * stay within one segment, "**" spans directories
+ */
+export function pathGlobToRegExp(glob: string): RegExp {
+  let source = "";
+  for (let i = 0; i < glob.length; i++) {
+    const char = glob[i];
+    if (char === "*" && glob[i + 1] === "*") {
+      if (glob[i + 2] === "/") {
+        source += "(?:.*/)?";
+        i += 2;
+      } else if (i + 2 === glob.length && source.endsWith("/")) {
+        // "dir/**" also matches dir itself
+        source = `${source.slice(0, -1)}(?:/.*)?`;
+        i++;
+      } else {
+        source += ".*";
+        i++;
+      }
+    } else if (char === "*") {
+      source += "[^/]*";
+    } else if (char === "?") {
+      source += "[^/]";
+    } else {
+      source += char.replace(/[.+^${}()|[\]\\]/g, "\\$&");
+    }
+  }
+  return new RegExp(`^${source}$`);
+}
+
+function expandHome(path: string): string {
+  return path.startsWith("~/") ? toPosix(join(homedir(), path.slice(2))) : path;
+}
+
+function isInside(root: string, path: string): boolean {
+  const rel = relative(root, path);
+  return rel === "" || (!rel.startsWith("..") && !isAbsolute(rel));
+}
+
+function toPosix(path: string): string {
+  return sep === "/" ? path : path.split(sep).join("/");
+}
+
+// The real path, following symlinks; for paths that don't exist yet, the
+// real path of the nearest existing parent plus the rest
+async function realPathOf(path: string): Promise<string> {
+  try {
+    return await realpath(path);
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code !== "ENOENT") throw error;
+    const parent = dirname(path);
+    if (parent === path) return path;
+    return join(await realPathOf(parent), basename(path));
+  }
+}
+
+/**
+ * The directory tree tools may read and write. Paths resolve against the
+ * working directory; a path must be under the root or match an allow glob,
+ * and must not match a deny glob. Globs without a slash match any path
+ * segment (".env", "*.pem"); globs starting with "/" or "~/" are absolute;
+ * other globs are relative to the root.
+ */
+export class Workspace {
+  readonly root: string;
+  private realRoot?: Promise<string>;
+  private allow: { glob: string; pattern: RegExp }[];
+  private deny: { glob: string; pattern: RegExp }[];
+
+  constructor(options: WorkspaceOptions) {
+    this.root = resolve(options.root);
+    this.allow = (options.allow || []).map((glob) => ({ glob, pattern: pathGlobToRegExp(expandHome(glob)) }));
+    this.deny = (options.deny || []).map((glob) => ({ glob, pattern: pathGlobToRegExp(expandHome(glob)) }));
+  }
+
+  private matches(pattern: RegExp, glob: string, path: string, root: string): boolean {
+    const inside = isInside(root, path);
+    const target = toPosix(inside ? relative(root, path) : path);
+
+    if (!glob.includes("/")) {
+      return target.split("/").some((segment) => pattern.test(segment));
+    }
+    if (glob.startsWith("/") || glob.startsWith("~/")) {
+      return pattern.test(toPosix(path));
+    }
+    return inside && pattern.test(target);
+  }
+
+  private deniedBy(path: string, root: string): string | undefined {
+    return this.deny.find(({ glob, pattern }) => this.matches(pattern, glob, path, root))?.glob;
+  }
+
+  private permits(path: string, root: string): boolean {
+    return isInside(root, path) || this.allow.some(({ glob, pattern }) => this.matches(pattern, glob, path, root));
+  }
+
+  /**
+   * Absolute path for a tool argument. Throws a WorkspaceError if the path,
+   * or where its symlinks lead, is outside the workspace or denied.
+   */
+  async resolve(path: string): Promise<string> {
+    const full = resolve(path);
+
+    if (!this.permits(full, this.root)) {
+      throw new WorkspaceError(`Access denied: ${path} is outside the workspace (${this.root})`);
+    }
+    const denied = this.deniedBy(full, this.root);
+    if (denied) {
+      throw new WorkspaceError(`Access denied: ${path} matches the workspace deny pattern "${denied}"`);
+    }
+
+    this.realRoot ??= realPathOf(this.root);
+    const realRoot = await this.realRoot;
+    const real = await realPathOf(full);
+    if (real !== full || realRoot !== this.root) {
+      if (!this.permits(real, realRoot)) {
+        throw new WorkspaceError(`Access denied: ${path} resolves through a symlink to ${real}, which is outside the workspace (${this.root})`);
+      }
+      const deniedReal = this.deniedBy(real, realRoot);
+      if (deniedReal) {
+        throw new WorkspaceError(`Access denied: ${path} resolves through a symlink to ${real}, which matches the workspace deny pattern "${deniedReal}"`);
+      }
+    }
+
+    return full;
+  }
+
+  /**
+   * Whether a path found by a search (already under a checked directory)
+   * may be shown. Only the deny globs apply; symlinks are not followed.
+   */
+  isVisible(path: string): boolean {
+    return !this.deniedBy(resolve(path), this.root);
+  }
+}
+
+/**
+ * The workspace from config, rooted at the working directory unless
+ * workspace.root is set. Null when the sandbox is turned off.
+ */
+export async function loadWorkspace(cwd = process.cwd()): Promise<Workspace | null> {
+  const { workspace } = await loadConfig();
+  if (!workspace.enabled) return null;
+  return new Workspace({
+    root: workspace.root ? resolve(cwd, expandHome(workspace.root)) : cwd,
+    // Truncated tool outputs are saved there for the model to page through
+    allow: [...workspace.allow, `${SPILL_DIR}/**`],
+    deny: workspace.deny,
+  });
+}
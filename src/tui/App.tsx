@@ -11,28 +11,53 @@ import {
   ProviderMenu,
   ModelMenu,
   YoloMenu,
+  PermissionPrompt,
   MCPMenu,
   ThinkingMenu,
   ConfigView,
   SkillsMenu,
+  RewindMenu,
+  JobsMenu,
+  JobActivity,
+  type ToolProgressView,
 } from "./components/index.js";
-import { getProvider, type Message as AIMessage, type StreamChunk } from "../ai/index.js";
+import {
+  getProvider,
+  shouldCompact,
+  compactMessages,
+  SUMMARY_PREFIX,
+  type AIProvider,
+  type Message as AIMessage,
+  type StreamChunk,
+} from "../ai/index.js";
 import { loadConfig, saveConfig, listProviders, DEFAULT_PROVIDERS, CODING_SYSTEM_PROMPT, type Config } from "../config/index.js";
 
 // Types for interactive menus
-type ActiveMenu = "none" | "provider" | "model" | "yolo" | "mcp" | "thinking" | "config" | "skills";
-import { TOOL_DEFINITIONS, executeTools } from "../tools/index.js";
-import { filterThinking, extractThinking, renderMarkdown } from "../utils/index.js";
+type ActiveMenu = "none" | "provider" | "model" | "yolo" | "mcp" | "thinking" | "config" | "skills" | "rewind" | "jobs";
+import { renderMarkdown } from "../utils/index.js";
+import { createUsageRecord, combineUsage, sumUsage, formatSessionUsage, formatTokens, type UsageTotals } from "../utils/usage.js";
 import {
   createSession,
   addMessage,
+  recordUsage,
+  markCompacted,
   saveSession,
-  listSessions,
   deleteSession,
   clearAllHistory,
   type ChatSession,
   type ChatMessage as HistoryMessage,
+  type UsageRecord,
 } from "../utils/history.js";
+import { runHistoryCommand } from "../utils/history-index.js";
+import { runExportCommand } from "../utils/export.js";
+import { rewindPoints, checkpointsSince, forkSession, switchBranch, formatBranches } from "../utils/branches.js";
+import {
+  createCheckpoint,
+  checkpointFiles,
+  restoreCheckpoints,
+  describeRestore,
+  runCheckpointCommand,
+} from "../utils/checkpoints.js";
 import {
   mcpManager,
   loadMCPConfig,
@@ -42,6 +67,13 @@ import {
   addMCPServer,
   type MCPServerConfig,
 } from "../mcp/index.js";
+import { loadPermissionRules, describeToolCall, type EditedAnswer, type PermissionAnswer } from "../permissions/index.js";
+import { Agent, ToolRegistry } from "../core/index.js";
+import { previewFileChanges } from "../tools/index.js";
+import { loadWorkspace } from "../tools/workspace.js";
+import { jobManager, describeJob, runJobsCommand, type Job } from "../tools/jobs.js";
+import { editToolArguments, isEditable } from "../utils/editor.js";
+import type { FileDiff, ToolCall, ToolProgress } from "../ai/types.js";
 
 interface ChatMessage {
   role: "user" | "assistant" | "system" | "tool";
@@ -52,8 +84,89 @@ interface ChatMessage {
   toolCallId?: string; // For tool result messages - required by API
   toolCalls?: { id: string; name: string; arguments: Record<string, unknown> }[]; // For assistant messages with tool calls
   rawContent?: string; // Raw content for API (without formatting)
+  compacted?: boolean; // Folded into the context summary; shown but not sent to the API
+  interrupted?: boolean; // Cancelled mid-generation; content is the partial answer
+  diff?: FileDiff[]; // Files a tool call changed
 }
 
+// Build the provider message list from the UI transcript
+function buildApiMessages(messages: ChatMessage[], summary: string | null): AIMessage[] {
+  const apiMessages: AIMessage[] = [{ role: "system", content: CODING_SYSTEM_PROMPT }];
+  if (summary) {
+    apiMessages.push({ role: "system", content: `${SUMMARY_PREFIX}\n${summary}` });
+  }
+
+  for (const m of messages) {
+    // Skip system messages (like welcome) and turns already summarised
+    if (m.role === "system" || m.compacted) continue;
+
+    const msg: AIMessage = {
+      role: m.role,
+      content: m.rawContent || m.content, // Use raw content for API
+    };
+    // Add toolCallId for tool messages - required by MiniMax API
+    if (m.role === "tool" && m.toolCallId) {
+      msg.toolCallId = m.toolCallId;
+    }
+    // Add toolCalls for assistant messages
+    if (m.role === "assistant" && m.toolCalls) {
+      msg.toolCalls = m.toolCalls;
+    }
+    apiMessages.push(msg);
+  }
+
+  return apiMessages;
+}
+
+// Tool output to show; with a diff only the summary line, as the diff is drawn below
+function toolSummary(output: string, diff?: FileDiff[]): string {
+  return diff?.length ? output.split("\n")[0] : output;
+}
+
+// Rebuild the UI transcript from a saved session (for --resume / --continue)
+function sessionToChatMessages(session: ChatSession): ChatMessage[] {
+  return session.messages.map((m) => {
+    const base = {
+      timestamp: new Date(m.timestamp),
+      thinking: m.thinking,
+      compacted: m.compacted,
+      interrupted: m.interrupted,
+    };
+
+    if (m.role === "tool") {
+      return {
+        ...base,
+        role: "tool" as const,
+        content: `**[${m.toolName || "tool"}]**\n\`\`\`\n${toolSummary(m.content, m.diff)}\n\`\`\``,
+        rawContent: m.content,
+        toolCallId: m.toolCallId,
+        diff: m.diff,
+      };
+    }
+
+    if (m.role === "assistant" && m.toolCalls?.length) {
+      return {
+        ...base,
+        role: "assistant" as const,
+        content: m.content || "(calling tools...)",
+        rawContent: m.content,
+        toolCalls: m.toolCalls,
+      };
+    }
+
+    return { ...base, role: m.role, content: m.content };
+  });
+}
+
+// Lines of each background job's latest output shown under the activity indicators
+const JOB_FEED_LINES = 3;
+
+// Lines of the running tool's output shown under its activity indicator
+const TOOL_PROGRESS_LINES = 5;
+
+// A tool call made by a delegate_task sub-agent, shown nested under it
+type ToolStep = { type: "step"; toolCall: ToolCall };
+
 interface ActivityItem {
   type: "tool" | "streaming" | "thinking";
   name?: string;
@@ -61,11 +174,16 @@ interface ActivityItem {
   timestamp: Date;
 }
 
-export const App = memo(function App() {
+export interface AppProps {
+  resumeSession?: ChatSession; // Saved session to continue
+}
+
+export const App = memo(function App({ resumeSession }: AppProps) {
   const { exit } = useApp();
   const [config, setConfig] = useState<Config | null>(null);
   const [messages, setMessages] = useState<ChatMessage[]>([]);
   const messagesRef = useRef<ChatMessage[]>([]);
+  const summaryRef = useRef<string | null>(null); // Summary of compacted turns
   const [isLoading, setIsLoading] = useState(false);
   const [streamingText, setStreamingText] = useState("");
   const streamingTextRef = useRef("");
@@ -78,14 +196,41 @@ export const App = memo(function App() {
   const [activities, setActivities] = useState<ActivityItem[]>([]);
   const [currentActivity, setCurrentActivity] = useState<ActivityItem | null>(null);
   const [isThinkingPhase, setIsThinkingPhase] = useState(false);
+  // Tools started and not yet finished; read-only calls from one response run side by side
+  const [runningTools, setRunningTools] = useState<ToolCall[]>([]);
+  const runningToolsRef = useRef<ToolCall[]>([]);
+  // Latest output of each running tool, by tool call id
+  const [toolProgress, setToolProgress] = useState<Record<string, ToolProgressView>>({});
+  const toolProgressRef = useRef<Record<string, ToolProgressView>>({});
+  const toolProgressTimeoutRef = useRef<NodeJS.Timeout | null>(null);
+  const [activeProvider, setActiveProvider] = useState<string | undefined>(undefined);
+  const [retryNotice, setRetryNotice] = useState<string | undefined>(undefined);
+  const [usageTotals, setUsageTotals] = useState<UsageTotals | null>(null);
+
+  // Background jobs and the last lines each printed
+  const [jobs, setJobs] = useState<Job[]>([]);
+  const [jobLines, setJobLines] = useState<Record<number, string[]>>({});
 
   // MCP state
   const [mcpInitialized, setMcpInitialized] = useState(false);
-  const [mcpTools, setMcpTools] = useState<any[]>([]);
 
   // Interactive menu state
   const [activeMenu, setActiveMenu] = useState<ActiveMenu>("none");
 
+  // Text placed in the input box; a new id remounts the input to apply it
+  const [draft, setDraft] = useState({ id: 0, text: "" });
+
+  // Messages offered by /rewind, with the number of files changed since each
+  const [rewindOptions, setRewindOptions] = useState<Array<{ index: number; content: string; files: number }>>([]);
+
+  // Tool call waiting for approve/deny/always; edited once the user changed its new text
+  const [pendingPermission, setPendingPermission] = useState<{
+    toolCall: ToolCall;
+    diff?: FileDiff[];
+    edited?: boolean;
+    resolve: (answer: PermissionAnswer | EditedAnswer) => void;
+  } | null>(null);
+
   // Keep messagesRef in sync with messages state
   useEffect(() => {
     messagesRef.current = messages;
@@ -95,10 +240,14 @@ export const App = memo(function App() {
   useEffect(() => {
     loadConfig().then(async (cfg) => {
       setConfig(cfg);
-      setSession(createSession(cfg.provider, cfg.model));
+      setSession(resumeSession || createSession(cfg.provider, cfg.model));
+      if (resumeSession) {
+        summaryRef.current = resumeSession.summary || null;
+        setUsageTotals(sumUsage(resumeSession.usage || []));
+      }
 
       // Show immediate welcome message without waiting for MCP
-      setMessages([{
+      setMessages([...(resumeSession ? sessionToChatMessages(resumeSession) : []), {
         role: "system",
         content: `**Welcome to zesbe! 🚀**
 
@@ -118,13 +267,16 @@ MCP Servers: **Loading...** ⏳
 
 Type **/help** for commands or just start chatting! 💻`,
         timestamp: new Date(),
-      }]);
+      }, ...(resumeSession ? [{
+        role: "system" as const,
+        content: `↩️ Resumed **${resumeSession.title}** - the conversation above will be sent with your next message.`,
+        timestamp: new Date(),
+      }] : [])]);
 
       // Initialize MCP servers in background WITHOUT blocking UI
       mcpManager.initialize().then(() => {
         const tools = mcpManager.getTools();
         const connectedServers = mcpManager.getConnectedServers();
-        setMcpTools(tools);
         setMcpInitialized(true);
 
         // Update welcome message with MCP status
@@ -143,13 +295,48 @@ Type **/help** for commands or just start chatting! 💻`,
     });
   }, []);
 
+  // Follow background jobs; updates are batched as servers can print a lot
+  useEffect(() => {
+    const tails = new Map<number, string>();
+    let timer: NodeJS.Timeout | null = null;
+    const publish = () => {
+      timer = null;
+      setJobs(jobManager.list());
+      setJobLines(Object.fromEntries([...tails].map(([id, tail]) => [
+        id,
+        tail.split(/\r?\n|\r/).filter((line) => line.trim()).slice(-JOB_FEED_LINES),
+      ])));
+    };
+
+    const unsubscribe = jobManager.subscribe((event) => {
+      if (event.type === "output") {
+        tails.set(event.job.id, ((tails.get(event.job.id) || "") + event.text).slice(-2000));
+      } else if (event.type === "exit") {
+        tails.delete(event.job.id);
+        setMessages((prev) => [
+          ...prev,
+          { role: "system", content: `⚙️ Job #${event.job.id} \`${event.job.command}\` ${describeJob(event.job)}`, timestamp: new Date() },
+        ]);
+      }
+      timer ??= setTimeout(publish, 100);
+    });
+
+    return () => {
+      unsubscribe();
+      if (timer) clearTimeout(timer);
+    };
+  }, []);
+
   // Handle keyboard shortcuts
   useInput((input, key) => {
-    if (key.ctrl && input === "c") {
+    // While a response runs, Ctrl+C cancels it instead (handled by Input)
+    if (key.ctrl && input === "c" && !isLoading) {
       // Save session before exit
       if (session && session.messages.length > 0) {
         saveSession(session);
       }
+      // Their output pipes would otherwise keep the process alive
+      jobManager.killAll();
       exit();
     }
   });
@@ -175,6 +362,148 @@ Type **/help** for commands or just start chatting! 💻`,
     }, 50);
   }, []);
 
+  // Show each running tool's output; batched like streaming text, as
+  // builds and test runs can print hundreds of lines a second
+  const updateToolProgress = useCallback((toolCallId: string, progress: ToolProgress | ToolStep | null) => {
+    const all = { ...toolProgressRef.current };
+    const current = all[toolCallId] ?? { lines: [] };
+    if (!progress) {
+      delete all[toolCallId];
+    } else if (progress.type === "step") {
+      const step = describeToolCall(progress.toolCall);
+      all[toolCallId] = { ...current, steps: [...(current.steps || []), step].slice(-TOOL_PROGRESS_LINES) };
+    } else if (progress.type === "status") {
+      all[toolCallId] = { ...current, status: progress.message };
+    } else if (progress.line.trim()) {
+      all[toolCallId] = { ...current, lines: [...current.lines, progress.line].slice(-TOOL_PROGRESS_LINES) };
+    }
+    toolProgressRef.current = all;
+
+    if (!progress) {
+      if (toolProgressTimeoutRef.current) clearTimeout(toolProgressTimeoutRef.current);
+      toolProgressTimeoutRef.current = null;
+      setToolProgress(toolProgressRef.current);
+    } else {
+      toolProgressTimeoutRef.current ??= setTimeout(() => {
+        toolProgressTimeoutRef.current = null;
+        setToolProgress(toolProgressRef.current);
+      }, 100);
+    }
+  }, []);
+
+  // Aborts the running agent loop (provider request and tool processes)
+  const abortRef = useRef<AbortController | null>(null);
+
+  const cancelGeneration = useCallback(() => {
+    abortRef.current?.abort();
+    // A pending permission prompt would otherwise block the loop forever
+    setPendingPermission((pending) => {
+      pending?.resolve("deny");
+      return null;
+    });
+  }, []);
+
+  // Show the permission prompt and wait for the user's answer
+  const requestPermission = useCallback((toolCall: ToolCall, diff?: FileDiff[]): Promise<PermissionAnswer | EditedAnswer> => {
+    return new Promise((resolve) => setPendingPermission({ toolCall, diff, resolve }));
+  }, []);
+
+  // Open the proposed text in $EDITOR, then ask again with the new diff
+  const editPendingPermission = useCallback(async () => {
+    if (!pendingPermission) return;
+    const args = await editToolArguments(pendingPermission.toolCall);
+    if (!args) return;
+
+    const toolCall = { ...pendingPermission.toolCall, arguments: args };
+    const diff = await previewFileChanges(toolCall.name, args, await loadWorkspace()).catch(() => null);
+    setPendingPermission({ ...pendingPermission, toolCall, diff: diff || undefined, edited: true });
+  }, [pendingPermission]);
+
+  // Summarise older turns when the context nears the model's window (or on /compact)
+  const compactContext = useCallback(
+    async (aiMessages: AIMessage[], provider: AIProvider, force: boolean): Promise<AIMessage[]> => {
+      if (!config || !session) return aiMessages;
+
+      const options = {
+        model: config.model,
+        provider: config.provider,
+        threshold: config.compactThreshold,
+        reserveTokens: config.maxTokens,
+      };
+      if (!force && (!config.autoCompact || !shouldCompact(aiMessages, options))) {
+        return aiMessages;
+      }
+
+      const result = await compactMessages(aiMessages, provider, force ? { ...options, keepRatio: 0 } : options);
+      if (!result) {
+        if (force) {
+          setMessages((prev) => [
+            ...prev,
+            { role: "system", content: "Nothing to compact yet.", timestamp: new Date() },
+          ]);
+        }
+        return aiMessages;
+      }
+
+      summaryRef.current = result.summary;
+      if (result.usage) {
+        recordUsage(session, createUsageRecord(config.provider, config.model, result.usage, config.prices));
+        setUsageTotals(sumUsage(session.usage || []));
+      }
+
+      // Mark the transcript messages that the summary now stands in for
+      const removedCount = result.removed.filter((m) => m.role !== "system").length;
+      markCompacted(session, removedCount, result.summary);
+      let toMark = removedCount;
+      setMessages((prev) => [
+        ...prev.map((m) => {
+          if (toMark > 0 && m.role !== "system" && !m.compacted) {
+            toMark--;
+            return { ...m, compacted: true };
+          }
+          return m;
+        }),
+        {
+          role: "system",
+          content: `📦 **Compacted ${result.removed.length} messages** (~${formatTokens(result.tokensBefore)} → ~${formatTokens(result.tokensAfter)} tokens)`,
+          timestamp: new Date(),
+        },
+      ]);
+
+      return result.messages;
+    },
+    [config, session]
+  );
+
+  // Replace the transcript with the session's active branch
+  const showBranch = useCallback((current: ChatSession, note: string) => {
+    summaryRef.current = current.summary || null;
+    setMessages([
+      ...sessionToChatMessages(current),
+      { role: "system", content: note, timestamp: new Date() },
+    ]);
+  }, []);
+
+  // Fork a new branch at a user message and put that message back in the input to edit
+  const rewindTo = useCallback(
+    async (index: number, restore: boolean) => {
+      if (!session) return;
+
+      const original = session.messages[index].content;
+      const checkpoints = restore ? checkpointsSince(session, index) : [];
+      const branch = forkSession(session, index, `edit of "${original.replace(/\s+/g, " ").slice(0, 30)}"`);
+      const restored = checkpoints.length > 0 ? describeRestore(await restoreCheckpoints(checkpoints, session.id)) : null;
+      await saveSession(session);
+
+      showBranch(session, [
+        `⏪ Rewound to message #${rewindPoints(session).length + 1} on new branch \`${branch.id}\`. Edit the message below and press Enter.`,
+        restored,
+      ].filter(Boolean).join("\n\n"));
+      setDraft((prev) => ({ id: prev.id + 1, text: original }));
+    },
+    [session, showBranch]
+  );
+
   // Handle slash commands
   const handleCommand = useCallback(
     async (cmd: string, args: string[]): Promise<boolean> => {
@@ -198,9 +527,104 @@ Type **/help** for commands or just start chatting! 💻`,
         case "clear":
           setMessages([]);
           setActivities([]);
+          setUsageTotals(null);
+          summaryRef.current = null;
           setSession(createSession(config.provider, config.model));
           return true;
 
+        case "compact":
+          try {
+            setIsLoading(true);
+            setCurrentActivity({ type: "thinking", timestamp: new Date() });
+            await compactContext(buildApiMessages(messagesRef.current, summaryRef.current), await getProvider(), true);
+          } catch (err) {
+            setError(err instanceof Error ? err.message : "Unknown error");
+          } finally {
+            setIsLoading(false);
+            setCurrentActivity(null);
+          }
+          return true;
+
+        case "rewind":
+          if (session && rewindPoints(session).length > 0) {
+            setRewindOptions(await Promise.all(rewindPoints(session).map(async ({ index, message }) => ({
+              index,
+              content: message.content,
+              files: (await checkpointFiles(checkpointsSince(session, index))).length,
+            }))));
+            setActiveMenu("rewind");
+          } else {
+            setMessages((prev) => [
+              ...prev,
+              { role: "system", content: "Nothing to rewind to yet.", timestamp: new Date() },
+            ]);
+          }
+          return true;
+
+        case "branches":
+          if (session && args[0]) {
+            const branch = switchBranch(session, args[0]);
+            if (branch) {
+              await saveSession(session);
+              showBranch(session, `🌿 Switched to branch \`${branch.id}\` (${branch.name})`);
+            } else {
+              setMessages((prev) => [
+                ...prev,
+                { role: "system", content: `Unknown branch: ${args[0]}\n\n${formatBranches(session)}`, timestamp: new Date() },
+              ]);
+            }
+          } else if (session) {
+            setMessages((prev) => [
+              ...prev,
+              { role: "system", content: formatBranches(session), timestamp: new Date() },
+            ]);
+          }
+          return true;
+
+        case "undo":
+        case "checkpoints": {
+          const content = await runCheckpointCommand(cmd, args, session?.id);
+          setMessages((prev) => [...prev, { role: "system", content, timestamp: new Date() }]);
+          return true;
+        }
+
+        case "jobs":
+          if (args.filter(Boolean).length > 0) {
+            const content = runJobsCommand(args);
+            setMessages((prev) => [...prev, { role: "system", content, timestamp: new Date() }]);
+          } else {
+            setJobs(jobManager.list());
+            setActiveMenu("jobs");
+          }
+          return true;
+
+        case "export":
+          if (session) {
+            const content = await runExportCommand(args, session);
+            setMessages((prev) => [
+              ...prev,
+              {
+                role: "system",
+                content,
+                timestamp: new Date(),
+              },
+            ]);
+          }
+          return true;
+
+        case "usage":
+          if (session) {
+            setMessages((prev) => [
+              ...prev,
+              {
+                role: "system",
+                content: formatSessionUsage(session),
+                timestamp: new Date(),
+              },
+            ]);
+          }
+          return true;
+
         case "help":
           setMessages((prev) => [
             ...prev,
@@ -211,11 +635,17 @@ Type **/help** for commands or just start chatting! 💻`,
 **General:**
 • /exit, /q - Exit the app
 • /clear - Clear chat & start new session
+• /compact - Summarise older turns to free up context
+• /rewind - Edit an earlier message and fork a new branch
+• /branches [id] - List conversation branches or switch to one
+• /undo - Revert the file changes of the last turn
+• /checkpoints [all | restore <id>] - List file checkpoints or restore one
 • /help - Show this help
 
 **🔧 Coding:**
 • /plan <task> - Generate a coding plan
 • /tools - List all 25+ tools
+• /jobs - Background jobs (output, kill)
 
 **🔍 Research:**
 • /search <query> - Quick web search
@@ -238,16 +668,19 @@ Type **/help** for commands or just start chatting! 💻`,
 **📜 History:**
 • /history - List saved sessions
 • /history clear - Delete all history
+• /export [md|json|html] [path] - Export this session to a file
 
 **🎛️ Settings:**
 • /yolo - Toggle YOLO mode (auto-execute tools)
 • /thinking - Toggle thinking display
 • /config - Show current config
+• /usage - Show token usage & cost for this session
 
 **🛠️ Available AI Tools:**
 • **Git:** git_status, git_diff, git_log, git_commit, git_branch, git_stash, git_add, git_reset
-• **Files:** read_file, write_file, edit_file, list_directory, search_code, glob_files
+• **Files:** read_file, write_file, edit_file, apply_patch, list_directory, search_code, glob_files
 • **Dev:** analyze_project, package_manager, run_tests, lint_code, build_project, format_code
+• **Jobs:** start_job, read_job_output, write_job_input, job_status, kill_job
 • **Security:** audit_security, env_info
 • **Code Nav:** find_definition, find_references, tree, diff_files, batch_edit
 • **Web:** web_search, web_fetch
@@ -343,30 +776,15 @@ Type **/help** for commands or just start chatting! 💻`,
               },
             ]);
           } else {
-            const sessions = await listSessions();
-            if (sessions.length === 0) {
-              setMessages((prev) => [
-                ...prev,
-                {
-                  role: "system",
-                  content: "No saved sessions.",
-                  timestamp: new Date(),
-                },
-              ]);
-            } else {
-              const list = sessions
-                .slice(0, 10)
-                .map((s, i) => `${i + 1}. ${s.title} (${s.messages.length} msgs)`)
-                .join("\n");
-              setMessages((prev) => [
-                ...prev,
-                {
-                  role: "system",
-                  content: `**Recent Sessions:**\n\n${list}`,
-                  timestamp: new Date(),
-                },
-              ]);
-            }
+            const content = await runHistoryCommand(args, session || undefined);
+            setMessages((prev) => [
+              ...prev,
+              {
+                role: "system",
+                content,
+                timestamp: new Date(),
+              },
+            ]);
           }
           return true;
 
@@ -393,7 +811,6 @@ Type **/help** for commands or just start chatting! 💻`,
             await mcpManager.disconnectAll();
             await mcpManager.initialize();
             const tools = mcpManager.getTools();
-            setMcpTools(tools);
             const connected = mcpManager.getConnectedServers();
 
             setMessages((prev) => [
@@ -450,18 +867,24 @@ Please include:
 • **read_file** - Read file contents (with optional line range)
 • **write_file** - Create or overwrite files
 • **edit_file** - Find and replace text in files
+• **apply_patch** - Apply a unified diff (create, delete, rename files)
 • **list_directory** - List files and folders
 • **search_code** - Search code patterns (grep-like)
 • **glob_files** - Find files by pattern
 
 **⚙️ System:**
 • **run_command** - Execute shell commands
+• **start_job** - Run a dev server, watcher or long test suite in the background
+• **read_job_output** / **write_job_input** - Follow a job's output, send it input
+• **job_status** / **kill_job** - Check on or stop background jobs
 
 **🌐 Web & Research:**
 • **web_search** - Search the internet for docs, tutorials, solutions
 • **web_fetch** - Fetch content from any URL
 
-Use YOLO mode (/yolo) to enable automatic tool execution.`,
+Without YOLO mode (/yolo) you'll be asked before each tool runs; read-only tools are always allowed.
+Rules in ~/.zesbe-modern/permissions.json or ./.zesbe-modern/permissions.json can allow, ask or deny per tool and argument pattern.
+A project's own allow rules only apply once its path is listed in "trustedProjects" in ~/.zesbe-modern/permissions.json.`,
               timestamp: new Date(),
             },
           ]);
@@ -495,7 +918,7 @@ Use YOLO mode (/yolo) to enable automatic tool execution.`,
           return false;
       }
     },
-    [config, exit, session, showThinking]
+    [config, exit, session, showThinking, compactContext, showBranch]
   );
 
   const handleSubmit = useCallback(
@@ -528,6 +951,10 @@ Use YOLO mode (/yolo) to enable automatic tool execution.`,
       };
       setMessages((prev) => [...prev, userMsg]);
       addMessage(session, "user", text);
+      const userEntry = session.messages[session.messages.length - 1];
+
+      // Files the turn writes are snapshotted here first, for /undo and /rewind
+      const checkpoint = createCheckpoint(text, { sessionId: session.id });
 
       setIsLoading(true);
       setStreamingText("");
@@ -536,218 +963,180 @@ Use YOLO mode (/yolo) to enable automatic tool execution.`,
       setCurrentActivity({ type: "thinking", timestamp: new Date() });
 
       const startTime = Date.now();
+      const turnUsage: UsageRecord[] = [];
 
       try {
         const provider = await getProvider();
 
         // Build initial message history with system prompt - use current messages + user message
-        let aiMessages: AIMessage[] = [
-          { role: "system", content: CODING_SYSTEM_PROMPT },
-          ...messagesRef.current
-            .filter((m) => m.role !== "system") // Skip system messages (like welcome)
-            .map((m) => {
-              const msg: AIMessage = {
-                role: m.role,
-                content: m.rawContent || m.content, // Use raw content for API
-              };
-              // Add toolCallId for tool messages - required by MiniMax API
-              if (m.role === "tool" && m.toolCallId) {
-                msg.toolCallId = m.toolCallId;
-              }
-              // Add toolCalls for assistant messages
-              if (m.role === "assistant" && m.toolCalls) {
-                msg.toolCalls = m.toolCalls;
-              }
-              return msg;
-            }),
-        ];
+        const aiMessages = buildApiMessages(messagesRef.current, summaryRef.current);
         aiMessages.push({ role: "user", content: text });
 
-            // Tool calling loop - continue until we get a text response without tool calls
-        let maxIterations = 10; // Prevent infinite loops
-        let iteration = 0;
-
-        while (iteration < maxIterations) {
-          iteration++;
-
-          // Stream response
-          let fullText = "";
-          let hasToolCalls = false;
-          const toolResults: { id: string; name: string; output: string; arguments: Record<string, unknown> }[] = [];
-
-          // Combine built-in tools with MCP tools
-          const allTools = config.yolo
-            ? [...TOOL_DEFINITIONS, ...mcpTools]
-            : undefined;
-
-          const generator = provider.chatStream({
-            messages: aiMessages,
-            model: config.model,
-            maxTokens: config.maxTokens,
-            temperature: config.temperature,
-            tools: allTools,
-          });
-
-          for await (const chunk of generator) {
-            if (chunk.type === "text" && chunk.content) {
-              fullText += chunk.content;
-
-              // Detect if we're in thinking phase
-              const hasThinkingStart = fullText.includes("<think>");
-              const hasThinkingEnd = fullText.includes("</think>");
-
-              if (hasThinkingStart && !hasThinkingEnd) {
-                setIsThinkingPhase(true);
-                setCurrentActivity({ type: "thinking", timestamp: new Date() });
-              } else if (hasThinkingEnd) {
-                setIsThinkingPhase(false);
-                setCurrentActivity({ type: "streaming", timestamp: new Date() });
-              }
-
-              // Show filtered text while streaming (debounced for performance)
-              updateStreamingText(filterThinking(fullText));
-            } else if (chunk.type === "tool_call" && chunk.toolCall && config.yolo) {
-              hasToolCalls = true;
-
-              // Add tool activity indicator
-              const toolActivity: ActivityItem = {
-                type: "tool",
-                name: chunk.toolCall.name,
-                args: chunk.toolCall.arguments,
-                timestamp: new Date(),
-              };
-              addActivity(toolActivity);
-
-              let toolOutput: string;
-
-              // Check if it's an MCP tool (prefixed with mcp_)
-              if (chunk.toolCall.name.startsWith("mcp_")) {
-                // Execute via MCP manager
-                toolOutput = await mcpManager.callTool(
-                  chunk.toolCall.name,
-                  chunk.toolCall.arguments
-                );
-              } else {
-                // Execute built-in tool
-                const result = await executeTools([
-                  {
-                    name: chunk.toolCall.name,
-                    arguments: chunk.toolCall.arguments,
-                    id: chunk.toolCall.id,
-                  },
-                ]);
-                toolOutput = result[0].success
-                  ? result[0].output || "(no output)"
-                  : `Error: ${result[0].error}`;
-              }
-
-              toolResults.push({
-                id: chunk.toolCall.id,
-                name: chunk.toolCall.name,
-                output: toolOutput,
-                arguments: chunk.toolCall.arguments, // Store arguments for history
-              });
-
-              // Add tool result to UI messages with toolCallId for API
-              setMessages((prev) => [
-                ...prev,
-                {
-                  role: "tool",
-                  content: `**[${chunk.toolCall!.name}]**\n\`\`\`\n${toolOutput}\n\`\`\``,
-                  rawContent: toolOutput, // Raw content for API
-                  toolCallId: chunk.toolCall!.id, // Required for MiniMax API
-                  timestamp: new Date(),
-                },
-              ]);
-              addMessage(session, "tool", toolOutput || "");
-            } else if (chunk.type === "error" && chunk.error) {
-              setError(chunk.error);
-              break;
-            }
-          }
+        const agent = new Agent({
+          provider,
+          providerName: config.provider,
+          model: config.model,
+          maxTokens: config.maxTokens,
+          temperature: config.temperature,
+          toolOutput: config.toolOutput,
+          maxParallelTools: config.maxParallelTools,
+          delegate: config.delegate.enabled ? config.delegate : undefined,
+          tools: new ToolRegistry({ checkpoint }),
+          permissions: {
+            // Re-read on every turn so edits to permissions.json apply immediately
+            rules: await loadPermissionRules(),
+            fallback: config.yolo ? "allow" : "ask",
+            ask: requestPermission,
+          },
+          // Long tool loops can outgrow the context window mid-turn
+          prepareMessages: (messages) => compactContext(messages, provider, false),
+        });
 
-          // If we had tool calls, add the results and continue the loop
-          if (hasToolCalls && toolResults.length > 0) {
-            // Build toolCalls array with actual arguments
-            const toolCallsForHistory = toolResults.map((t) => ({
-              id: t.id,
-              name: t.name,
-              arguments: t.arguments, // Use actual arguments, not empty
-            }));
-
-            // Add assistant message with tool_calls to aiMessages for current loop
-            aiMessages.push({
-              role: "assistant",
-              content: fullText || "",
-              toolCalls: toolCallsForHistory,
-            });
+        let visibleText = "";
+        let answeredBy = { provider: config.provider, model: config.model };
+        const controller = new AbortController();
+        abortRef.current = controller;
 
-            // Also store in UI messages for subsequent chat sessions
+        for await (const event of agent.run(aiMessages, controller.signal)) {
+          if (event.type === "thinking") {
+            setIsThinkingPhase(true);
+            setCurrentActivity({ type: "thinking", timestamp: new Date() });
+          } else if (event.type === "text") {
+            visibleText += event.delta;
+            setIsThinkingPhase(false);
+            setCurrentActivity({ type: "streaming", timestamp: new Date() });
+            // Debounced for performance
+            updateStreamingText(visibleText.trim());
+          } else if (event.type === "provider") {
+            setActiveProvider(event.provider);
+            setRetryNotice(undefined);
+          } else if (event.type === "usage") {
+            answeredBy = { provider: event.provider, model: event.model };
+            const record = createUsageRecord(event.provider, event.model, event.usage, config.prices);
+            turnUsage.push(record);
+            recordUsage(session, record);
+            setUsageTotals(sumUsage(session.usage || []));
+          } else if (event.type === "retry") {
+            setRetryNotice(event.message);
+          } else if (event.type === "message" && event.message.toolCalls) {
+            // Store the tool-call turn so follow-up requests keep the pairing
+            const { content, toolCalls } = event.message;
             setMessages((prev) => [
               ...prev,
               {
                 role: "assistant",
-                content: fullText || "(calling tools...)",
-                rawContent: fullText || "",
-                toolCalls: toolCallsForHistory,
+                content: content || "(calling tools...)",
+                rawContent: content,
+                toolCalls,
                 timestamp: new Date(),
               },
             ]);
-
-            // Add tool results to history with proper tool_call_id
-            for (const toolResult of toolResults) {
-              aiMessages.push({
+            addMessage(session, "assistant", content, { toolCalls, ...answeredBy });
+            visibleText = "";
+            setStreamingText("");
+          } else if (event.type === "tool_start") {
+            updateToolProgress(event.toolCall.id, null);
+            runningToolsRef.current = [...runningToolsRef.current, event.toolCall];
+            setRunningTools(runningToolsRef.current);
+            addActivity({
+              type: "tool",
+              name: event.toolCall.name,
+              args: event.toolCall.arguments,
+              timestamp: new Date(),
+            });
+          } else if (event.type === "tool_progress") {
+            updateToolProgress(event.toolCall.id, event.progress);
+          } else if (event.type === "subagent") {
+            if (event.event.type === "tool_start") updateToolProgress(event.toolCall.id, { type: "step", toolCall: event.event.toolCall });
+            if (event.event.type === "tool_progress") updateToolProgress(event.toolCall.id, event.event.progress);
+          } else if (event.type === "tool_end") {
+            updateToolProgress(event.toolCall.id, null);
+            runningToolsRef.current = runningToolsRef.current.filter((tc) => tc.id !== event.toolCall.id);
+            setRunningTools(runningToolsRef.current);
+            setMessages((prev) => [
+              ...prev,
+              {
                 role: "tool",
-                content: toolResult.output,
-                toolCallId: toolResult.id,
-              });
+                content: `**[${event.toolCall.name}]**\n\`\`\`\n${toolSummary(event.output, event.result.diff)}\n\`\`\``,
+                rawContent: event.output, // Raw content for API
+                toolCallId: event.toolCall.id, // Required for MiniMax API
+                timestamp: new Date(),
+                diff: event.result.diff,
+              },
+            ]);
+            addMessage(session, "tool", event.output, {
+              toolCallId: event.toolCall.id,
+              toolName: event.toolCall.name,
+              success: event.result.success,
+              diff: event.result.diff,
+            });
+            if (checkpoint.files.length > 0) userEntry.checkpointId = checkpoint.id;
+            if (runningToolsRef.current.length === 0) {
+              setIsThinkingPhase(true);
+              setCurrentActivity({ type: "thinking", timestamp: new Date() });
             }
-
-            // Reset streaming text and continue loop
-            setStreamingText("");
-            setIsThinkingPhase(true);
-            setCurrentActivity({ type: "thinking", timestamp: new Date() });
-            continue;
-          }
-
-          // No tool calls - we have the final response
-          if (fullText) {
-            const thinking = extractThinking(fullText);
-            const filtered = filterThinking(fullText);
-            const elapsed = Date.now() - startTime;
-
-            if (filtered) {
+          } else if (event.type === "error") {
+            setError(event.error);
+          } else if (event.type === "done" && event.reason === "stop" && event.content) {
+            setMessages((prev) => [
+              ...prev,
+              {
+                role: "assistant",
+                content: event.content,
+                rawContent: event.content,
+                timestamp: new Date(),
+                thinking: event.thinking,
+                elapsed: Date.now() - startTime,
+              },
+            ]);
+            addMessage(session, "assistant", event.content, {
+              thinking: event.thinking,
+              usage: combineUsage(turnUsage),
+              ...answeredBy,
+            });
+          } else if (event.type === "done" && event.reason === "aborted") {
+            // Keep what was streamed so far, marked as interrupted
+            if (event.content) {
               setMessages((prev) => [
                 ...prev,
                 {
                   role: "assistant",
-                  content: filtered,
-                  rawContent: filtered, // Raw content same as filtered (no thinking tags)
+                  content: event.content,
+                  rawContent: event.content,
                   timestamp: new Date(),
-                  thinking: thinking || undefined,
-                  elapsed,
+                  thinking: event.thinking,
+                  elapsed: Date.now() - startTime,
+                  interrupted: true,
                 },
               ]);
-              addMessage(session, "assistant", filtered, thinking || undefined);
+              addMessage(session, "assistant", event.content, {
+                thinking: event.thinking,
+                usage: combineUsage(turnUsage),
+                interrupted: true,
+                ...answeredBy,
+              });
             }
-
-            // Auto-save session
-            await saveSession(session);
           }
-
-          // Exit the loop
-          break;
         }
       } catch (err) {
         setError(err instanceof Error ? err.message : "Unknown error");
       } finally {
+        // Whatever way the turn ended, keep the tool calls and results it produced
+        await saveSession(session).catch(() => {});
+        abortRef.current = null;
         setIsLoading(false);
         setStreamingText("");
         setCurrentActivity(null);
+        runningToolsRef.current = [];
+        setRunningTools([]);
+        toolProgressRef.current = {};
+        setToolProgress({});
         setIsThinkingPhase(false);
+        setActiveProvider(undefined);
+        setRetryNotice(undefined);
       }
     },
-    [config, session, handleCommand, addActivity]
+    [config, session, handleCommand, addActivity, updateToolProgress, compactContext, requestPermission]
   );
 
   if (!config) {
@@ -774,6 +1163,8 @@ Use YOLO mode (/yolo) to enable automatic tool execution.`,
                   content={renderMarkdown(msg.content)}
                   timestamp={msg.timestamp}
                   elapsed={msg.elapsed}
+                  interrupted={msg.interrupted}
+                  diff={msg.diff}
                 />
                 {showThinking && msg.thinking && (
                   <Box marginLeft={4} marginBottom={1}>
@@ -811,13 +1202,17 @@ Use YOLO mode (/yolo) to enable automatic tool execution.`,
 
             {/* Current activity */}
             {currentActivity && (
-              <Box marginLeft={2}>
-                {currentActivity.type === "tool" && currentActivity.name ? (
-                  <ToolActivity toolName={currentActivity.name} args={currentActivity.args} />
+              <Box marginLeft={2} flexDirection="column">
+                {currentActivity.type === "tool" && runningTools.length > 0 ? (
+                  runningTools.map((toolCall) => (
+                    <ToolActivity key={toolCall.id} toolName={toolCall.name} args={toolCall.arguments} progress={toolProgress[toolCall.id]} />
+                  ))
                 ) : (
                   <StreamingActivity
                     isThinking={isThinkingPhase}
                     contentLength={streamingText.length}
+                    provider={activeProvider}
+                    notice={retryNotice}
                   />
                 )}
               </Box>
@@ -825,6 +1220,15 @@ Use YOLO mode (/yolo) to enable automatic tool execution.`,
           </Box>
         )}
 
+        {/* Background jobs with their latest output */}
+        {jobs.some((job) => job.status === "running") && (
+          <Box flexDirection="column" marginLeft={2} marginBottom={1}>
+            {jobs.filter((job) => job.status === "running").map((job) => (
+              <JobActivity key={job.id} job={job} lines={jobLines[job.id] || []} />
+            ))}
+          </Box>
+        )}
+
         {/* Streaming text preview */}
         {isLoading && streamingText && (
           <Message
@@ -890,6 +1294,19 @@ Use YOLO mode (/yolo) to enable automatic tool execution.`,
         />
       )}
 
+      {pendingPermission && (
+        <PermissionPrompt
+          toolCall={pendingPermission.toolCall}
+          diff={pendingPermission.diff}
+          onAnswer={(answer) => {
+            const { toolCall, edited, resolve } = pendingPermission;
+            resolve(edited && answer !== "deny" ? { answer, arguments: toolCall.arguments } : answer);
+            setPendingPermission(null);
+          }}
+          onEdit={isEditable(pendingPermission.toolCall) ? editPendingPermission : undefined}
+        />
+      )}
+
       {activeMenu === "yolo" && config && (
         <YoloMenu
           currentYolo={config.yolo}
@@ -963,7 +1380,6 @@ Use YOLO mode (/yolo) to enable automatic tool execution.`,
               await mcpManager.disconnectAll();
               await mcpManager.initialize();
               const tools = mcpManager.getTools();
-              setMcpTools(tools);
               setMessages((prev) => [
                 ...prev,
                 {
@@ -1043,10 +1459,36 @@ Use YOLO mode (/yolo) to enable automatic tool execution.`,
         />
       )}
 
+      {activeMenu === "rewind" && session && (
+        <RewindMenu
+          points={rewindOptions}
+          onSelect={(index, restore) => {
+            setActiveMenu("none");
+            rewindTo(index, restore);
+          }}
+          onCancel={() => setActiveMenu("none")}
+        />
+      )}
+
+      {activeMenu === "jobs" && (
+        <JobsMenu
+          jobs={jobs}
+          onAction={(id, action) => {
+            setActiveMenu("none");
+            const content = runJobsCommand([action, String(id)]);
+            setMessages((prev) => [...prev, { role: "system", content, timestamp: new Date() }]);
+          }}
+          onCancel={() => setActiveMenu("none")}
+        />
+      )}
+
       <Box marginTop={1}>
         <Input
+          key={draft.id}
+          initialValue={draft.text}
           onSubmit={handleSubmit}
           isLoading={isLoading || activeMenu !== "none"}
+          onCancel={isLoading ? cancelGeneration : undefined}
           placeholder={activeMenu !== "none" ? "Menu active - use arrows/Enter/Esc" : "Ask me anything... (type /help for commands)"}
         />
       </Box>
@@ -1057,6 +1499,8 @@ Use YOLO mode (/yolo) to enable automatic tool execution.`,
         model={config.model}
         yolo={config.yolo}
         mcpServers={mcpManager.getConnectedServers()}
+        tokens={usageTotals?.totalTokens}
+        cost={usageTotals?.cost}
       />
     </Box>
   );
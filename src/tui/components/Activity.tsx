@@ -1,6 +1,7 @@
 import React from "react";
 import { Box, Text } from "ink";
 import InkSpinner from "ink-spinner";
+import { describeJob, type Job } from "../../tools/jobs.js";
 
 export type ActivityType =
   | "thinking"
@@ -55,13 +56,22 @@ export function Activity({ type, detail, isActive = true }: ActivityProps) {
   );
 }
 
+// Latest output or status of the running tool
+export interface ToolProgressView {
+  lines: string[];
+  status?: string;
+  steps?: string[]; // Tool calls of a delegate_task sub-agent
+}
+
 // Activity indicator for tool execution
 export function ToolActivity({
   toolName,
-  args
+  args,
+  progress,
 }: {
   toolName: string;
   args?: Record<string, unknown>;
+  progress?: ToolProgressView;
 }) {
   // Map tool names to activity types
   const typeMap: Record<string, ActivityType> = {
@@ -69,6 +79,8 @@ export function ToolActivity({
     write_file: "write",
     list_directory: "read",
     run_command: "bash",
+    start_job: "bash",
+    delegate_task: "search",
     search_files: "search",
   };
 
@@ -80,17 +92,33 @@ export function ToolActivity({
     if (args.path) detail = String(args.path).split("/").pop() || "";
     else if (args.command) detail = String(args.command).slice(0, 30);
     else if (args.pattern) detail = String(args.pattern);
+    else if (args.task) detail = String(args.task).slice(0, 30);
   }
 
   return (
-    <Box marginY={0}>
-      <Text color={ACTIVITY_CONFIG[activityType].color}>● </Text>
-      <Text color={ACTIVITY_CONFIG[activityType].color} bold>
-        {toolName.replace(/_/g, " ").replace(/\b\w/g, l => l.toUpperCase())}
-      </Text>
-      {detail && (
-        <Text dimColor>({detail})</Text>
-      )}
+    <Box flexDirection="column">
+      <Box marginY={0}>
+        <Text color={ACTIVITY_CONFIG[activityType].color}>● </Text>
+        <Text color={ACTIVITY_CONFIG[activityType].color} bold>
+          {toolName.replace(/_/g, " ").replace(/\b\w/g, l => l.toUpperCase())}
+        </Text>
+        {detail && (
+          <Text dimColor>({detail})</Text>
+        )}
+        {progress?.status && (
+          <Text dimColor> {progress.status}</Text>
+        )}
+      </Box>
+      {progress?.steps?.map((step, i) => (
+        <Box key={`step-${i}`} marginLeft={2}>
+          <Text color="gray">↳ {step.slice(0, 120)}</Text>
+        </Box>
+      ))}
+      {progress?.lines.map((line, i) => (
+        <Box key={i} marginLeft={2}>
+          <Text dimColor>│ {line.slice(0, 120)}</Text>
+        </Box>
+      ))}
     </Box>
   );
 }
@@ -98,22 +126,63 @@ export function ToolActivity({
 // Streaming activity with content preview
 export function StreamingActivity({
   isThinking,
-  contentLength
+  contentLength,
+  provider,
+  notice,
 }: {
   isThinking: boolean;
   contentLength: number;
+  provider?: string; // Provider that is actually answering (may be a fallback)
+  notice?: string; // Retry / fallback status
 }) {
   return (
-    <Box>
-      <Text color={isThinking ? "yellow" : "cyan"}>
-        <InkSpinner type="dots" />
-      </Text>
-      <Text color={isThinking ? "yellow" : "cyan"} bold>
-        {" "}{isThinking ? "Thinking" : "Streaming"}
-      </Text>
-      {contentLength > 0 && (
-        <Text dimColor> ({contentLength} chars)</Text>
+    <Box flexDirection="column">
+      <Box>
+        <Text color={isThinking ? "yellow" : "cyan"}>
+          <InkSpinner type="dots" />
+        </Text>
+        <Text color={isThinking ? "yellow" : "cyan"} bold>
+          {" "}{isThinking ? "Thinking" : "Streaming"}
+        </Text>
+        {provider && (
+          <Text dimColor> via </Text>
+        )}
+        {provider && (
+          <Text color="green">{provider}</Text>
+        )}
+        {contentLength > 0 && (
+          <Text dimColor> ({contentLength} chars)</Text>
+        )}
+      </Box>
+      {notice && (
+        <Box marginLeft={2}>
+          <Text color="yellow">↻ </Text>
+          <Text dimColor>{notice}</Text>
+        </Box>
       )}
     </Box>
   );
 }
+
+// Background job with the last lines it printed
+export function JobActivity({ job, lines }: { job: Job; lines: string[] }) {
+  const running = job.status === "running";
+  return (
+    <Box flexDirection="column">
+      <Box>
+        <Text color={running ? "red" : "gray"}>
+          {running ? <InkSpinner type="dots" /> : "○"}
+        </Text>
+        <Text color={running ? "red" : "gray"} bold>
+          {" "}Job #{job.id}
+        </Text>
+        <Text dimColor> {job.command.slice(0, 40)} ({describeJob(job)})</Text>
+      </Box>
+      {lines.map((line, i) => (
+        <Box key={i} marginLeft={2}>
+          <Text dimColor>│ {line.slice(0, 120)}</Text>
+        </Box>
+      ))}
+    </Box>
+  );
+}
@@ -20,11 +20,17 @@ export const SLASH_COMMANDS: CommandItem[] = [
   // General
   { name: "help", description: "Show all available commands", category: "General" },
   { name: "clear", description: "Clear conversation history", category: "General" },
+  { name: "compact", description: "Summarise older turns to free up context", category: "General" },
+  { name: "rewind", description: "Edit an earlier message and fork a new branch", category: "General" },
+  { name: "branches", description: "List conversation branches or switch with /branches <id>", category: "General" },
+  { name: "undo", description: "Revert the file changes of the last turn", category: "General" },
+  { name: "checkpoints", description: "List file checkpoints or restore one", category: "General" },
   { name: "exit", description: "Exit the application", category: "General" },
 
   // Coding
   { name: "plan", description: "Generate a coding plan for a task", category: "Coding" },
   { name: "tools", description: "List all available AI tools", category: "Coding" },
+  { name: "jobs", description: "List background jobs, see their output or stop them", category: "Coding" },
 
   // Research
   { name: "search", description: "Quick web search", category: "Research" },
@@ -46,12 +52,19 @@ export const SLASH_COMMANDS: CommandItem[] = [
 
   // History
   { name: "history", description: "List saved sessions", category: "History" },
+  { name: "history search", description: "Search saved sessions (provider:, model:, tag:, since:)", category: "History" },
+  { name: "history tag", description: "Tag a session (current unless an id is given)", category: "History" },
+  { name: "history untag", description: "Remove tags from a session", category: "History" },
+  { name: "history pin", description: "Pin a session to the top of the list", category: "History" },
+  { name: "history unpin", description: "Unpin a session", category: "History" },
   { name: "history clear", description: "Delete all history", category: "History" },
+  { name: "export", description: "Export this session (md, json or html) to a file", category: "History" },
 
   // Settings
   { name: "yolo", description: "Toggle YOLO mode (auto-execute tools)", category: "Settings" },
   { name: "thinking", description: "Toggle thinking display", category: "Settings" },
   { name: "config", description: "Show current configuration", category: "Settings" },
+  { name: "usage", description: "Show token usage & cost for this session", category: "Settings" },
 ];
 
 export function CommandMenu({ commands, filter, onSelect, onCancel, visible }: CommandMenuProps) {
@@ -0,0 +1,64 @@
+import React from "react";
+import { Box, Text } from "ink";
+import type { FileDiff } from "../../ai/types.js";
+import { displayPath, hunkHeader } from "../../utils/diff.js";
+
+export interface DiffViewProps {
+  diffs: FileDiff[];
+  maxLines?: number; // Diff lines shown before the rest is elided
+}
+
+const STATUS_LABELS: Record<FileDiff["status"], string> = {
+  created: "new file",
+  modified: "modified",
+  deleted: "deleted",
+  renamed: "renamed",
+};
+
+// Coloured unified diff: additions green, removals red, hunk headers cyan
+export function DiffView({ diffs, maxLines = 40 }: DiffViewProps) {
+  let budget = maxLines;
+  let hidden = 0;
+
+  return (
+    <Box flexDirection="column">
+      {diffs.map((diff, fileIndex) => (
+        <Box key={`${diff.path}-${fileIndex}`} flexDirection="column">
+          <Box>
+            <Text bold>{displayPath(diff.path)}</Text>
+            <Text dimColor>
+              {" "}({diff.oldPath ? `renamed from ${displayPath(diff.oldPath)}` : STATUS_LABELS[diff.status]}){" "}
+            </Text>
+            <Text color="green">+{diff.additions}</Text>
+            <Text> </Text>
+            <Text color="red">-{diff.deletions}</Text>
+          </Box>
+          {diff.hunks.map((hunk, hunkIndex) => {
+            if (budget <= 0) {
+              hidden += hunk.lines.length;
+              return null;
+            }
+            const shown = hunk.lines.slice(0, budget);
+            hidden += hunk.lines.length - shown.length;
+            budget -= shown.length;
+            return (
+              <Box key={hunkIndex} flexDirection="column">
+                <Text color="cyan">{hunkHeader(hunk)}</Text>
+                {shown.map((line, lineIndex) =>
+                  line.type === "add" ? (
+                    <Text key={lineIndex} color="green">+{line.text}</Text>
+                  ) : line.type === "remove" ? (
+                    <Text key={lineIndex} color="red">-{line.text}</Text>
+                  ) : (
+                    <Text key={lineIndex} dimColor> {line.text}</Text>
+                  )
+                )}
+              </Box>
+            );
+          })}
+        </Box>
+      ))}
+      {hidden > 0 && <Text dimColor>… {hidden} more diff lines</Text>}
+    </Box>
+  );
+}
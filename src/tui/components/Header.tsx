@@ -1,5 +1,7 @@
 import React from "react";
 import { Box, Text } from "ink";
+import { formatCost } from "../../ai/pricing.js";
+import { formatTokens } from "../../utils/usage.js";
 
 export interface HeaderProps {
   provider: string;
@@ -44,6 +46,8 @@ export interface StatusBarProps {
   model: string;
   yolo?: boolean;
   mcpServers?: string[];
+  tokens?: number; // Session token total
+  cost?: number; // Session cost in USD
 }
 
 export function StatusBar({ provider, model, yolo = true, mcpServers = [] }: StatusBarProps) {
@@ -55,7 +59,7 @@ export function StatusBar({ provider, model, yolo = true, mcpServers = [] }: Sta
 }
 
 // Compact status line
-export function StatusLine({ provider, model, yolo = true, mcpServers = [] }: StatusBarProps) {
+export function StatusLine({ provider, model, yolo = true, mcpServers = [], tokens, cost }: StatusBarProps) {
   return (
     <Box>
       <Text dimColor>[ </Text>
@@ -74,6 +78,15 @@ export function StatusLine({ provider, model, yolo = true, mcpServers = [] }: St
           <Text color="cyan">MCP:{mcpServers.length}</Text>
         </>
       )}
+      {tokens !== undefined && tokens > 0 && (
+        <>
+          <Text dimColor> | </Text>
+          <Text color="blue">{formatTokens(tokens)} tok</Text>
+          {cost !== undefined && (
+            <Text dimColor> {formatCost(cost)}</Text>
+          )}
+        </>
+      )}
       <Text dimColor> ]</Text>
     </Box>
   );
@@ -7,10 +7,12 @@ export interface InputProps {
   onSubmit: (value: string) => void;
   placeholder?: string;
   isLoading?: boolean;
+  onCancel?: () => void; // Esc / Ctrl+C while a response is running
+  initialValue?: string; // Text to edit, e.g. a message picked with /rewind (remount to apply)
 }
 
-export function Input({ onSubmit, placeholder = "Type a message...", isLoading = false }: InputProps) {
-  const [value, setValue] = useState("");
+export function Input({ onSubmit, placeholder = "Type a message...", isLoading = false, onCancel, initialValue = "" }: InputProps) {
+  const [value, setValue] = useState(initialValue);
   const [selectedIndex, setSelectedIndex] = useState(0);
   const { stdout } = useStdout();
   // Use terminal width minus 2 for border
@@ -45,6 +47,13 @@ export function Input({ onSubmit, placeholder = "Type a message...", isLoading =
     }
   }, { isActive: showingMenu });
 
+  // Stop the running response
+  useInput((input, key) => {
+    if (key.escape || (key.ctrl && input === "c")) {
+      onCancel?.();
+    }
+  }, { isActive: isLoading && !!onCancel });
+
   // Reset selection when filter changes
   React.useEffect(() => {
     setSelectedIndex(0);
@@ -130,7 +139,7 @@ export function Input({ onSubmit, placeholder = "Type a message...", isLoading =
             value={value}
             onChange={setValue}
             onSubmit={handleSubmit}
-            placeholder={isLoading ? "Waiting for response..." : placeholder}
+            placeholder={isLoading ? (onCancel ? "Waiting for response... (Esc to stop)" : "Waiting for response...") : placeholder}
           />
         </Box>
       </Box>
@@ -4,6 +4,10 @@ import SelectInput from "ink-select-input";
 import { listProviders, DEFAULT_PROVIDERS } from "../../config/index.js";
 import { listMCPServers, toggleMCPServer, type MCPServerConfig } from "../../mcp/index.js";
 import { mcpManager } from "../../mcp/client.js";
+import { describeToolCall, type PermissionAnswer } from "../../permissions/index.js";
+import { describeJob, type Job } from "../../tools/jobs.js";
+import type { FileDiff, ToolCall } from "../../ai/types.js";
+import { DiffView } from "./DiffView.js";
 
 // Types for menu items
 interface MenuItem {
@@ -194,6 +198,58 @@ export function YoloMenu({ currentYolo, onToggle, onCancel }: YoloMenuProps) {
   );
 }
 
+// ============================================
+// Tool Permission Prompt
+// ============================================
+export interface PermissionPromptProps {
+  toolCall: ToolCall;
+  diff?: FileDiff[]; // What a file-writing tool would change
+  onAnswer: (answer: PermissionAnswer) => void;
+  onEdit?: () => void; // Edit the new text before approving
+}
+
+export function PermissionPrompt({ toolCall, diff, onAnswer, onEdit }: PermissionPromptProps) {
+  const items: MenuItem[] = [
+    { label: "✅ Allow once", value: "once" },
+    { label: "♾️  Always allow", value: "always" },
+    ...(diff && onEdit ? [{ label: "✏️  Edit in $EDITOR", value: "edit" }] : []),
+    { label: "🚫 Deny", value: "deny" },
+  ];
+
+  useInput((input, key) => {
+    if (key.escape) {
+      onAnswer("deny");
+    }
+  });
+
+  return (
+    <Box flexDirection="column" marginY={1}>
+      <Box marginBottom={1}>
+        <Text color="yellow" bold>🔐 Allow tool call?</Text>
+      </Box>
+      <Box borderStyle="round" borderColor="yellow" paddingX={1} flexDirection="column">
+        <Text wrap="truncate-end">{describeToolCall(toolCall)}</Text>
+        {diff && diff.length > 0 && (
+          <Box marginTop={1}>
+            <DiffView diffs={diff} maxLines={30} />
+          </Box>
+        )}
+        <Box marginTop={1}>
+          <SelectInput
+            items={items}
+            onSelect={(item) => (item.value === "edit" ? onEdit?.() : onAnswer(item.value as PermissionAnswer))}
+          />
+        </Box>
+      </Box>
+      <Box marginTop={1}>
+        <Text dimColor>
+          "Always" saves a rule to ~/.zesbe-modern/permissions.json • Esc to deny
+        </Text>
+      </Box>
+    </Box>
+  );
+}
+
 // ============================================
 // MCP Server Management Menu
 // ============================================
@@ -511,3 +567,146 @@ export function SkillsMenu({ onSelect, onCancel }: SkillsMenuProps) {
     </Box>
   );
 }
+
+// ============================================
+// Rewind Menu
+// ============================================
+export interface RewindMenuProps {
+  points: Array<{ index: number; content: string; files: number }>; // files changed since that message
+  onSelect: (index: number, restoreFiles: boolean) => void;
+  onCancel: () => void;
+}
+
+export function RewindMenu({ points, onSelect, onCancel }: RewindMenuProps) {
+  const [picked, setPicked] = useState<{ index: number; files: number; turn: number } | null>(null);
+
+  const messageItems: MenuItem[] = [
+    ...points.map((point, i) => ({
+      label: `#${i + 1} ${point.content.replace(/\s+/g, " ").slice(0, 60)}${point.files > 0 ? `  (${point.files} file${point.files === 1 ? "" : "s"} changed since)` : ""}`,
+      value: String(point.index),
+    })).reverse(),
+    { label: "❌ Cancel", value: "__cancel__" },
+  ];
+
+  const restoreItems: MenuItem[] = [
+    { label: "♻️ Restore files and rewind", value: "restore" },
+    { label: "📄 Rewind, keep files as they are", value: "keep" },
+    { label: "❌ Cancel", value: "__cancel__" },
+  ];
+
+  const handleMessage = (item: MenuItem) => {
+    if (item.value === "__cancel__") {
+      onCancel();
+      return;
+    }
+    const turn = points.findIndex((p) => String(p.index) === item.value);
+    const point = points[turn];
+    if (point.files > 0) {
+      setPicked({ ...point, turn: turn + 1 });
+    } else {
+      onSelect(point.index, false);
+    }
+  };
+
+  const handleRestore = (item: MenuItem) => {
+    if (item.value === "__cancel__" || !picked) {
+      onCancel();
+    } else {
+      onSelect(picked.index, item.value === "restore");
+    }
+  };
+
+  useInput((input, key) => {
+    if (key.escape) {
+      onCancel();
+    }
+  });
+
+  return (
+    <Box flexDirection="column" marginY={1}>
+      <Box marginBottom={1}>
+        <Text color="yellow" bold>⏪ {picked ? `Restore ${picked.files} file${picked.files === 1 ? "" : "s"} changed since message #${picked.turn}?` : "Rewind to which message?"}</Text>
+      </Box>
+      <Box borderStyle="round" borderColor="yellow" paddingX={1} flexDirection="column">
+        {picked
+          ? <SelectInput items={restoreItems} onSelect={handleRestore} />
+          : <SelectInput items={messageItems} onSelect={handleMessage} limit={10} />}
+      </Box>
+      <Box marginTop={1}>
+        <Text dimColor>
+          The conversation forks into a new branch; the old one stays available in /branches
+        </Text>
+      </Box>
+    </Box>
+  );
+}
+
+// ============================================
+// Jobs Panel
+// ============================================
+export interface JobsMenuProps {
+  jobs: Job[];
+  onAction: (id: number, action: "output" | "kill") => void;
+  onCancel: () => void;
+}
+
+export function JobsMenu({ jobs, onAction, onCancel }: JobsMenuProps) {
+  const [picked, setPicked] = useState<Job | null>(null);
+
+  const jobItems: MenuItem[] = [
+    ...jobs.map((job) => ({
+      label: `${job.status === "running" ? "🟢" : "⚪"} #${job.id} ${job.command.slice(0, 50)}  (${describeJob(job)})`,
+      value: String(job.id),
+    })).reverse(),
+    { label: "❌ Close", value: "__cancel__" },
+  ];
+
+  const actionItems: MenuItem[] = [
+    { label: "📄 Show output", value: "output" },
+    ...(picked?.status === "running" ? [{ label: "🛑 Kill", value: "kill" }] : []),
+    { label: "↩️ Back", value: "__back__" },
+  ];
+
+  const handleJob = (item: MenuItem) => {
+    if (item.value === "__cancel__") {
+      onCancel();
+      return;
+    }
+    setPicked(jobs.find((job) => String(job.id) === item.value) || null);
+  };
+
+  const handleAction = (item: MenuItem) => {
+    if (item.value === "__back__" || !picked) {
+      setPicked(null);
+    } else {
+      onAction(picked.id, item.value as "output" | "kill");
+    }
+  };
+
+  useInput((input, key) => {
+    if (key.escape) {
+      if (picked) setPicked(null);
+      else onCancel();
+    }
+  });
+
+  const running = jobs.filter((job) => job.status === "running").length;
+
+  return (
+    <Box flexDirection="column" marginY={1}>
+      <Box marginBottom={1}>
+        <Text color="cyan" bold>⚙️ {picked ? `Job #${picked.id}: ${picked.command}` : `Background jobs (${running} running)`}</Text>
+      </Box>
+      <Box borderStyle="round" borderColor="cyan" paddingX={1} flexDirection="column">
+        {picked
+          ? <SelectInput items={actionItems} onSelect={handleAction} />
+          : <SelectInput items={jobItems} onSelect={handleJob} limit={10} />}
+      </Box>
+      <Box marginTop={1}>
+        <Text dimColor>
+          {jobs.length === 0 ? "No jobs yet - the assistant starts them with start_job" : "Jobs are stopped when zesbe exits"}
+        </Text>
+      </Box>
+    </Box>
+  );
+}
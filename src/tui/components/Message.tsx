@@ -1,11 +1,15 @@
 import React from "react";
 import { Box, Text } from "ink";
+import type { FileDiff } from "../../ai/types.js";
+import { DiffView } from "./DiffView.js";
 
 export interface MessageProps {
   role: "user" | "assistant" | "system" | "tool";
   content: string;
   timestamp?: Date;
   elapsed?: number; // Response time in ms
+  interrupted?: boolean; // Cancelled mid-generation; content is partial
+  diff?: FileDiff[]; // Files a tool changed
 }
 
 // Parse simple markdown for Ink Text components
@@ -65,7 +69,7 @@ function parseMarkdown(content: string) {
   return result;
 }
 
-export function Message({ role, content, timestamp, elapsed }: MessageProps) {
+export function Message({ role, content, timestamp, elapsed, interrupted, diff }: MessageProps) {
   const roleLabels = {
     user: "You",
     assistant: "AI",
@@ -115,6 +119,9 @@ export function Message({ role, content, timestamp, elapsed }: MessageProps) {
         {elapsed !== undefined && elapsed > 0 && (
           <Text dimColor color="gray"> ({formatElapsed(elapsed)})</Text>
         )}
+        {interrupted && (
+          <Text color="yellow"> ⏹ interrupted</Text>
+        )}
       </Box>
 
       {/* Message content with proper formatting */}
@@ -126,6 +133,7 @@ export function Message({ role, content, timestamp, elapsed }: MessageProps) {
         ) : (
           <Text>{content}</Text>
         )}
+        {diff && diff.length > 0 && <DiffView diffs={diff} />}
       </Box>
 
       {/* Bottom separator for user messages */}
@@ -1,16 +1,28 @@
 export { Message, type MessageProps } from "./Message.js";
+export { DiffView, type DiffViewProps } from "./DiffView.js";
 export { Input, type InputProps } from "./Input.js";
 export { Spinner, type SpinnerProps } from "./Spinner.js";
 export { Header, StatusLine, type HeaderProps, type StatusBarProps } from "./Header.js";
-export { Activity, ToolActivity, StreamingActivity, type ActivityType, type ActivityProps } from "./Activity.js";
+export {
+  Activity,
+  ToolActivity,
+  StreamingActivity,
+  JobActivity,
+  type ActivityType,
+  type ActivityProps,
+  type ToolProgressView,
+} from "./Activity.js";
 export { CommandMenu, SLASH_COMMANDS, type CommandItem, type CommandMenuProps } from "./CommandMenu.js";
 export {
   ProviderMenu,
   ModelMenu,
   YoloMenu,
+  PermissionPrompt,
   MCPMenu,
   HistoryMenu,
   ThinkingMenu,
   ConfigView,
   SkillsMenu,
+  RewindMenu,
+  JobsMenu,
 } from "./InteractiveMenus.js";
@@ -1,6 +1,7 @@
 import React from "react";
 import { render } from "ink";
 import { App } from "./App.js";
+import type { ChatSession } from "../utils/history.js";
 
 function isRawModeSupported(): boolean {
   try {
@@ -34,7 +35,7 @@ function isRawModeSupported(): boolean {
   }
 }
 
-export async function startTUI() {
+export async function startTUI(options: { resume?: ChatSession } = {}) {
   // Check if raw mode is supported before starting TUI
   if (!isRawModeSupported()) {
     console.error('❌ Ink TUI not supported in this terminal environment.');
@@ -42,19 +43,20 @@ export async function startTUI() {
 
     // Import console mode dynamically to avoid circular imports
     const { startConsole } = await import('../console/index.js');
-    return startConsole();
+    return startConsole(options);
   }
 
   try {
     // Try to start Ink TUI with enhanced error handling
-    const { waitUntilExit } = render(<App />);
+    // App handles Ctrl+C itself so it can cancel a running response first
+    const { waitUntilExit } = render(<App resumeSession={options.resume} />, { exitOnCtrlC: false });
     return waitUntilExit();
   } catch (error) {
     console.error('❌ TUI failed to start:', error instanceof Error ? error.message : 'Unknown error');
     console.error('   Falling back to console mode...\n');
 
     const { startConsole } = await import('../console/index.js');
-    return startConsole();
+    return startConsole(options);
   }
 }
 
@@ -0,0 +1,150 @@
+import type { ChatMessage, ChatSession, SessionBranch } from "./history.js";
+
+const MAIN_BRANCH = "main";
+
+export interface RewindPoint {
+  index: number; // Position of the user message in session.messages
+  message: ChatMessage;
+}
+
+export interface BranchTreeRow {
+  branch: SessionBranch;
+  depth: number;
+  active: boolean;
+  messageCount: number;
+}
+
+/**
+ * The session's branches, creating the root branch for sessions that
+ * have never been rewound
+ */
+export function ensureBranches(session: ChatSession): SessionBranch[] {
+  if (!session.branches?.length) {
+    session.branches = [{
+      id: MAIN_BRANCH,
+      name: "main",
+      forkIndex: 0,
+      createdAt: session.createdAt,
+      updatedAt: session.updatedAt,
+    }];
+    session.activeBranch = MAIN_BRANCH;
+  }
+  return session.branches;
+}
+
+function activeBranch(session: ChatSession): SessionBranch {
+  const branches = ensureBranches(session);
+  return branches.find((b) => b.id === session.activeBranch) || branches[0];
+}
+
+/**
+ * User messages that can be rewound to. Compacted ones are folded into
+ * the summary, so the conversation can't be cut before them.
+ */
+export function rewindPoints(session: ChatSession): RewindPoint[] {
+  return session.messages
+    .map((message, index) => ({ index, message }))
+    .filter(({ message }) => message.role === "user" && !message.compacted);
+}
+
+/**
+ * Checkpoints of the turns at or after a message index. Restoring them
+ * undoes every file change made after the fork point.
+ */
+export function checkpointsSince(session: ChatSession, index: number): string[] {
+  return session.messages
+    .slice(index)
+    .map((message) => message.checkpointId)
+    .filter((id): id is string => !!id);
+}
+
+/**
+ * Start a new branch that keeps the first `index` messages of the active
+ * one. The old branch is kept intact and can be switched back to.
+ */
+export function forkSession(session: ChatSession, index: number, name?: string): SessionBranch {
+  const parent = activeBranch(session);
+  const branches = ensureBranches(session);
+  const now = new Date().toISOString();
+
+  // Park the current conversation on its branch
+  parent.messages = session.messages;
+  parent.summary = session.summary;
+  parent.updatedAt = session.updatedAt;
+
+  const branch: SessionBranch = {
+    id: `b${branches.length}`,
+    name: name || `fork after ${index} messages`,
+    parentId: parent.id,
+    forkIndex: index,
+    createdAt: now,
+    updatedAt: now,
+  };
+  branches.push(branch);
+
+  session.messages = parent.messages.slice(0, index).map((m) => ({ ...m }));
+  session.activeBranch = branch.id;
+  session.updatedAt = now;
+  return branch;
+}
+
+/**
+ * Make another branch the active one. Returns null for unknown ids.
+ */
+export function switchBranch(session: ChatSession, branchId: string): SessionBranch | null {
+  const current = activeBranch(session);
+  const target = ensureBranches(session).find((b) => b.id === branchId);
+  if (!target) return null;
+  if (target === current) return target;
+
+  current.messages = session.messages;
+  current.summary = session.summary;
+  current.updatedAt = session.updatedAt;
+
+  session.messages = target.messages || [];
+  session.summary = target.summary;
+  session.activeBranch = target.id;
+  delete target.messages;
+  delete target.summary;
+
+  session.updatedAt = new Date().toISOString();
+  return target;
+}
+
+/**
+ * Branches in tree order (children under their parent)
+ */
+export function branchTree(session: ChatSession): BranchTreeRow[] {
+  const branches = ensureBranches(session);
+  const rows: BranchTreeRow[] = [];
+
+  const visit = (parentId: string | undefined, depth: number) => {
+    for (const branch of branches.filter((b) => b.parentId === parentId)) {
+      const active = branch.id === session.activeBranch;
+      rows.push({
+        branch,
+        depth,
+        active,
+        messageCount: active ? session.messages.length : branch.messages?.length || 0,
+      });
+      visit(branch.id, depth + 1);
+    }
+  };
+  visit(undefined, 0);
+
+  return rows;
+}
+
+/**
+ * Markdown list of the branch tree, shared by the TUI and console
+ */
+export function formatBranches(session: ChatSession): string {
+  const lines = ["**Branches:**", ""];
+  for (const { branch, depth, active, messageCount } of branchTree(session)) {
+    const marker = active ? "● " : "";
+    const fork = branch.parentId ? `, forked from \`${branch.parentId}\` after ${branch.forkIndex} msgs` : "";
+    lines.push(`${"  ".repeat(depth)}* ${marker}\`${branch.id}\` ${branch.name} (${messageCount} msgs${fork})`);
+  }
+  lines.push("", "Switch with `/branches <id>`, fork with `/rewind`.");
+  return lines.join("\n");
+}
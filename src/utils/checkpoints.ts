@@ -0,0 +1,278 @@
+import { mkdir, readFile, writeFile, copyFile, readdir, rm, unlink, stat } from "fs/promises";
+import { dirname, join, resolve } from "path";
+import { CONFIG_DIR } from "../config/index.js";
+
+export const CHECKPOINT_DIR = join(CONFIG_DIR, "checkpoints");
+
+// Oldest checkpoints beyond this are deleted
+const MAX_CHECKPOINTS = 100;
+
+export interface CheckpointFile {
+  path: string; // Absolute
+  existed: boolean; // false when the turn created the file
+  blob?: string; // Snapshot file name inside the checkpoint directory
+  size?: number;
+}
+
+export interface CheckpointManifest {
+  id: string;
+  createdAt: string;
+  label: string; // The user message that started the turn
+  kind: "turn" | "undo"; // "undo" holds the files an undo overwrote
+  sessionId?: string;
+  cwd: string;
+  restoredAt?: string; // Set once undone, so /undo moves on to the previous turn
+  files: CheckpointFile[];
+}
+
+export interface RestoreResult {
+  restored: string[];
+  deleted: string[]; // Files the agent created
+  failed: { path: string; error: string }[];
+  undoCheckpoint?: string; // Holds the files as they were before the restore
+}
+
+function generateCheckpointId(): string {
+  return `cp_${Date.now()}_${Math.random().toString(36).slice(2, 8)}`;
+}
+
+async function writeManifest(manifest: CheckpointManifest): Promise<void> {
+  await writeFile(join(CHECKPOINT_DIR, manifest.id, "manifest.json"), JSON.stringify(manifest, null, 2));
+}
+
+/**
+ * Snapshots of the files one turn changed. Tools call snapshot() before
+ * writing; only the first write to each file is recorded, so restoring
+ * puts the file back the way it was before the turn.
+ */
+export class Checkpoint {
+  readonly manifest: CheckpointManifest;
+  private seen = new Set<string>();
+
+  constructor(label: string, options: { sessionId?: string; kind?: CheckpointManifest["kind"] } = {}) {
+    this.manifest = {
+      id: generateCheckpointId(),
+      createdAt: new Date().toISOString(),
+      label: label.replace(/\s+/g, " ").slice(0, 100),
+      kind: options.kind || "turn",
+      sessionId: options.sessionId,
+      cwd: process.cwd(),
+      files: [],
+    };
+  }
+
+  get id(): string {
+    return this.manifest.id;
+  }
+
+  get files(): CheckpointFile[] {
+    return this.manifest.files;
+  }
+
+  async snapshot(filePath: string): Promise<void> {
+    const path = resolve(filePath);
+    if (this.seen.has(path)) return;
+    this.seen.add(path);
+
+    const dir = join(CHECKPOINT_DIR, this.id);
+    if (this.files.length === 0) {
+      await mkdir(dir, { recursive: true });
+      await pruneCheckpoints();
+    }
+
+    let entry: CheckpointFile = { path, existed: false };
+    try {
+      const info = await stat(path);
+      if (info.isFile()) {
+        const blob = String(this.files.length);
+        await copyFile(path, join(dir, blob));
+        entry = { path, existed: true, blob, size: info.size };
+      }
+    } catch (error) {
+      if ((error as NodeJS.ErrnoException).code !== "ENOENT") throw error;
+    }
+
+    this.files.push(entry);
+    await writeManifest(this.manifest);
+  }
+}
+
+export function createCheckpoint(label: string, options: { sessionId?: string } = {}): Checkpoint {
+  return new Checkpoint(label, options);
+}
+
+export async function loadCheckpoint(id: string): Promise<CheckpointManifest | null> {
+  try {
+    return JSON.parse(await readFile(join(CHECKPOINT_DIR, id, "manifest.json"), "utf-8"));
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Checkpoints newest first, optionally only those of one session
+ */
+export async function listCheckpoints(filter: { sessionId?: string } = {}): Promise<CheckpointManifest[]> {
+  let ids: string[] = [];
+  try {
+    ids = await readdir(CHECKPOINT_DIR);
+  } catch {
+    return [];
+  }
+
+  const manifests: CheckpointManifest[] = [];
+  for (const id of ids) {
+    const manifest = await loadCheckpoint(id);
+    if (manifest && (!filter.sessionId || manifest.sessionId === filter.sessionId)) {
+      manifests.push(manifest);
+    }
+  }
+
+  return manifests.sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+}
+
+/**
+ * Delete the oldest checkpoints beyond MAX_CHECKPOINTS
+ */
+export async function pruneCheckpoints(): Promise<void> {
+  try {
+    const ids = (await readdir(CHECKPOINT_DIR)).filter((id) => id.startsWith("cp_")).sort();
+    for (const id of ids.slice(0, Math.max(0, ids.length - MAX_CHECKPOINTS))) {
+      await rm(join(CHECKPOINT_DIR, id), { recursive: true, force: true });
+    }
+  } catch {
+    // Nothing to prune
+  }
+}
+
+/**
+ * Unique files across checkpoints, each taken from the oldest checkpoint
+ * that has it: that is the state before any of them ran
+ */
+async function earliestSnapshots(ids: string[]): Promise<{ file: CheckpointFile; checkpoint: string }[]> {
+  const manifests = (await Promise.all(ids.map(loadCheckpoint)))
+    .filter((m): m is CheckpointManifest => m !== null)
+    .sort((a, b) => a.createdAt.localeCompare(b.createdAt));
+
+  const earliest = new Map<string, { file: CheckpointFile; checkpoint: string }>();
+  for (const manifest of manifests) {
+    for (const file of manifest.files) {
+      if (!earliest.has(file.path)) earliest.set(file.path, { file, checkpoint: manifest.id });
+    }
+  }
+  return [...earliest.values()];
+}
+
+/**
+ * Files the given checkpoints would restore
+ */
+export async function checkpointFiles(ids: string[]): Promise<string[]> {
+  return (await earliestSnapshots(ids)).map(({ file }) => file.path);
+}
+
+/**
+ * Put files back the way they were before the given checkpoints' turns.
+ * The current contents are saved first as an "undo" checkpoint, so a
+ * restore can itself be restored.
+ */
+export async function restoreCheckpoints(ids: string[], sessionId?: string): Promise<RestoreResult> {
+  const snapshots = await earliestSnapshots(ids);
+  const result: RestoreResult = { restored: [], deleted: [], failed: [] };
+  if (snapshots.length === 0) return result;
+
+  const backup = new Checkpoint(`before restoring ${ids.join(", ")}`, { sessionId, kind: "undo" });
+
+  for (const { file, checkpoint } of snapshots) {
+    try {
+      await backup.snapshot(file.path);
+      if (file.existed && file.blob) {
+        await mkdir(dirname(file.path), { recursive: true });
+        await copyFile(join(CHECKPOINT_DIR, checkpoint, file.blob), file.path);
+        result.restored.push(file.path);
+      } else {
+        await unlink(file.path).catch((error) => {
+          if (error.code !== "ENOENT") throw error;
+        });
+        result.deleted.push(file.path);
+      }
+    } catch (error) {
+      result.failed.push({ path: file.path, error: error instanceof Error ? error.message : String(error) });
+    }
+  }
+
+  const now = new Date().toISOString();
+  for (const id of ids) {
+    const manifest = await loadCheckpoint(id);
+    if (manifest) await writeManifest({ ...manifest, restoredAt: now });
+  }
+
+  if (backup.files.length > 0) result.undoCheckpoint = backup.id;
+  return result;
+}
+
+/**
+ * Revert the most recent turn that changed files and hasn't been undone
+ */
+export async function undoLastCheckpoint(
+  sessionId?: string
+): Promise<{ checkpoint: CheckpointManifest; result: RestoreResult } | null> {
+  const checkpoints = await listCheckpoints({ sessionId });
+  const last = checkpoints.find((c) => c.kind === "turn" && !c.restoredAt && c.files.length > 0);
+  if (!last) return null;
+
+  return { checkpoint: last, result: await restoreCheckpoints([last.id], sessionId) };
+}
+
+/**
+ * One-line description of a restore, or null when nothing was touched
+ */
+export function describeRestore(result: RestoreResult): string | null {
+  const parts = [
+    result.restored.length ? `restored ${result.restored.length}` : "",
+    result.deleted.length ? `removed ${result.deleted.length} created` : "",
+    result.failed.length ? `failed ${result.failed.map((f) => `${f.path} (${f.error})`).join(", ")}` : "",
+  ].filter(Boolean);
+  if (parts.length === 0) return null;
+
+  const redo = result.undoCheckpoint ? ` (previous state saved as \`${result.undoCheckpoint}\`)` : "";
+  return `♻️ Files: ${parts.join(", ")}${redo}`;
+}
+
+/**
+ * Markdown list of checkpoints, shared by the TUI and console
+ */
+export function formatCheckpoints(checkpoints: CheckpointManifest[]): string {
+  if (checkpoints.length === 0) return "No checkpoints yet. One is saved before each turn that changes files.";
+
+  const lines = ["**Checkpoints:**", ""];
+  for (const c of checkpoints) {
+    const when = c.createdAt.replace("T", " ").slice(0, 16);
+    const state = c.restoredAt ? " · undone" : "";
+    const label = c.kind === "undo" ? `_${c.label}_` : c.label;
+    lines.push(`* \`${c.id}\` ${when} — ${label} (${c.files.length} file${c.files.length === 1 ? "" : "s"}${state})`);
+  }
+  lines.push("", "Restore one with `/checkpoints restore <id>`, or `/undo` for the last turn.");
+  return lines.join("\n");
+}
+
+/**
+ * Handle `/undo` and `/checkpoints [all | restore <id>]`, returning markdown
+ */
+export async function runCheckpointCommand(command: "undo" | "checkpoints", args: string[], sessionId?: string): Promise<string> {
+  if (command === "undo") {
+    const undone = await undoLastCheckpoint(sessionId);
+    if (!undone) return "Nothing to undo: no file changes recorded in this session.";
+    const summary = describeRestore(undone.result) || "♻️ Files already matched the checkpoint";
+    return `↩️ Undid file changes from "${undone.checkpoint.label}"\n\n${summary}`;
+  }
+
+  const [sub, id] = args.filter(Boolean);
+  if (sub === "restore") {
+    if (!id || !(await loadCheckpoint(id))) return `Unknown checkpoint: ${id || "(none)"}`;
+    const result = await restoreCheckpoints([id], sessionId);
+    return describeRestore(result) || "♻️ Files already matched the checkpoint";
+  }
+
+  const checkpoints = await listCheckpoints(sub === "all" ? {} : { sessionId });
+  return formatCheckpoints(checkpoints.slice(0, 20));
+}
@@ -0,0 +1,204 @@
+import { isAbsolute, relative } from "path";
+import type { DiffHunk, DiffLine, FileDiff } from "../ai/types.js";
+
+// Unchanged lines shown around each change
+const CONTEXT_LINES = 3;
+
+// Beyond this many edits the diff is shown as a full rewrite
+const MAX_EDIT_DISTANCE = 2000;
+
+function splitLines(text: string | null): string[] {
+  if (!text) return [];
+  const lines = text.split("\n");
+  if (lines[lines.length - 1] === "") lines.pop();
+  return lines;
+}
+
+const context = (text: string): DiffLine => ({ type: "context", text });
+const add = (text: string): DiffLine => ({ type: "add", text });
+const remove = (text: string): DiffLine => ({ type: "remove", text });
+
+/**
+ * Shortest edit script between two line lists (Myers' algorithm). Each
+ * step keeps only the diagonals it can reach, so memory grows with the
+ * square of the number of edits rather than the file size.
+ */
+function myers(a: string[], b: string[]): DiffLine[] {
+  const n = a.length;
+  const m = b.length;
+  if (n === 0) return b.map(add);
+  if (m === 0) return a.map(remove);
+
+  const max = n + m;
+  const offset = max + 1;
+  const v = new Int32Array(2 * max + 3);
+  const trace: Int32Array[] = [];
+
+  for (let d = 0; d <= max; d++) {
+    if (d > MAX_EDIT_DISTANCE) return [...a.map(remove), ...b.map(add)];
+    trace.push(v.slice(offset - d - 1, offset + d + 2));
+
+    for (let k = -d; k <= d; k += 2) {
+      let x = k === -d || (k !== d && v[offset + k - 1] < v[offset + k + 1])
+        ? v[offset + k + 1]
+        : v[offset + k - 1] + 1;
+      let y = x - k;
+      while (x < n && y < m && a[x] === b[y]) {
+        x++;
+        y++;
+      }
+      v[offset + k] = x;
+      if (x >= n && y >= m) return backtrack(a, b, trace);
+    }
+  }
+  return [...a.map(remove), ...b.map(add)];
+}
+
+function backtrack(a: string[], b: string[], trace: Int32Array[]): DiffLine[] {
+  const lines: DiffLine[] = [];
+  let x = a.length;
+  let y = b.length;
+
+  for (let d = trace.length - 1; d >= 0; d--) {
+    const step = trace[d];
+    const at = (k: number) => step[k + d + 1];
+    const k = x - y;
+    const prevK = k === -d || (k !== d && at(k - 1) < at(k + 1)) ? k + 1 : k - 1;
+    const prevX = at(prevK);
+    const prevY = prevX - prevK;
+
+    while (x > prevX && y > prevY) {
+      lines.push(context(a[--x]));
+      y--;
+    }
+    if (d > 0) {
+      if (x === prevX) lines.push(add(b[--y]));
+      else lines.push(remove(a[--x]));
+    }
+  }
+
+  return lines.reverse();
+}
+
+function diffLines(a: string[], b: string[]): DiffLine[] {
+  // Most edits touch a small region; skip the unchanged ends
+  let start = 0;
+  while (start < a.length && start < b.length && a[start] === b[start]) start++;
+  let endA = a.length;
+  let endB = b.length;
+  while (endA > start && endB > start && a[endA - 1] === b[endB - 1]) {
+    endA--;
+    endB--;
+  }
+
+  return [
+    ...a.slice(0, start).map(context),
+    ...myers(a.slice(start, endA), b.slice(start, endB)),
+    ...a.slice(endA).map(context),
+  ];
+}
+
+/**
+ * Group changed lines into hunks with a few lines of context each.
+ * Changes closer than twice the context share a hunk.
+ */
+function buildHunks(lines: DiffLine[], contextLines: number): DiffHunk[] {
+  const positions: { old: number; new: number }[] = [];
+  let oldLine = 1;
+  let newLine = 1;
+  for (const line of lines) {
+    positions.push({ old: oldLine, new: newLine });
+    if (line.type !== "add") oldLine++;
+    if (line.type !== "remove") newLine++;
+  }
+
+  const hunks: DiffHunk[] = [];
+  let i = 0;
+  while (i < lines.length) {
+    if (lines[i].type === "context") {
+      i++;
+      continue;
+    }
+
+    const start = Math.max(0, i - contextLines);
+    let lastChange = i;
+    for (let j = i; j < lines.length && j - lastChange <= 2 * contextLines; j++) {
+      if (lines[j].type !== "context") lastChange = j;
+    }
+    const stop = Math.min(lines.length, lastChange + contextLines + 1);
+
+    const hunkLines = lines.slice(start, stop);
+    const oldLines = hunkLines.filter((l) => l.type !== "add").length;
+    const newLines = hunkLines.filter((l) => l.type !== "remove").length;
+    // An empty side points at the line before, as in `diff -u`
+    hunks.push({
+      oldStart: oldLines === 0 ? positions[start].old - 1 : positions[start].old,
+      oldLines,
+      newStart: newLines === 0 ? positions[start].new - 1 : positions[start].new,
+      newLines,
+      lines: hunkLines,
+    });
+    i = stop;
+  }
+
+  return hunks;
+}
+
+/**
+ * Structured unified diff of one file. `before` is null for a created
+ * file and `after` is null for a deleted one.
+ */
+export function diffFile(path: string, before: string | null, after: string | null, contextLines = CONTEXT_LINES): FileDiff {
+  const lines = diffLines(splitLines(before), splitLines(after));
+  return {
+    path,
+    status: before === null ? "created" : after === null ? "deleted" : "modified",
+    additions: lines.filter((l) => l.type === "add").length,
+    deletions: lines.filter((l) => l.type === "remove").length,
+    hunks: buildHunks(lines, contextLines),
+  };
+}
+
+/**
+ * Path relative to the working directory when it is inside it
+ */
+export function displayPath(path: string): string {
+  const rel = relative(process.cwd(), path);
+  return rel && !rel.startsWith("..") && !isAbsolute(rel) ? rel : path;
+}
+
+export function hunkHeader(hunk: DiffHunk): string {
+  return `@@ -${hunk.oldStart},${hunk.oldLines} +${hunk.newStart},${hunk.newLines} @@`;
+}
+
+/**
+ * "+3 -1" style line counts across files
+ */
+export function diffStats(diffs: FileDiff[]): string {
+  const additions = diffs.reduce((sum, d) => sum + d.additions, 0);
+  const deletions = diffs.reduce((sum, d) => sum + d.deletions, 0);
+  return `+${additions} -${deletions}`;
+}
+
+/**
+ * Plain-text unified diff, as `diff -u` / `git diff` would print it
+ */
+export function formatUnifiedDiff(diffs: FileDiff[]): string {
+  const out: string[] = [];
+  for (const diff of diffs) {
+    // a/ and b/ prefixes only make sense for paths inside the project
+    const oldPath = displayPath(diff.oldPath || diff.path);
+    const path = displayPath(diff.path);
+    const a = isAbsolute(oldPath) ? oldPath : `a/${oldPath}`;
+    const b = isAbsolute(path) ? path : `b/${path}`;
+    out.push(diff.status === "created" ? "--- /dev/null" : `--- ${a}`);
+    out.push(diff.status === "deleted" ? "+++ /dev/null" : `+++ ${b}`);
+    for (const hunk of diff.hunks) {
+      out.push(hunkHeader(hunk));
+      for (const line of hunk.lines) {
+        out.push(`${line.type === "add" ? "+" : line.type === "remove" ? "-" : " "}${line.text}`);
+      }
+    }
+  }
+  return out.join("\n");
+}
@@ -0,0 +1,67 @@
+import { spawnSync } from "child_process";
+import { mkdtemp, readFile, writeFile, rm } from "fs/promises";
+import { tmpdir } from "os";
+import { basename, join } from "path";
+import type { ToolCall } from "../ai/types.js";
+import { EDITABLE_ARGUMENTS } from "../tools/index.js";
+
+/**
+ * Open text in $VISUAL / $EDITOR (vi by default) and return the saved
+ * text, or null when the editor exits with an error. Blocks until the
+ * editor closes, so the UI doesn't draw over it.
+ */
+export async function editInEditor(text: string, fileName = "edit.txt"): Promise<string | null> {
+  const dir = await mkdtemp(join(tmpdir(), "zesbe-edit-"));
+  const file = join(dir, basename(fileName));
+  await writeFile(file, text, "utf-8");
+
+  // The TUI and console keep stdin in raw mode; the editor needs it cooked
+  const stdin = process.stdin;
+  const wasRaw = stdin.isTTY && stdin.isRaw;
+  if (wasRaw) stdin.setRawMode(false);
+
+  try {
+    const editor = process.env.VISUAL || process.env.EDITOR || "vi";
+    // $EDITOR may carry flags ("code --wait"), so it goes through the shell;
+    // the file name comes from the model and is passed by variable instead
+    const result = spawnSync(`${editor} "$ZESBE_EDIT_FILE"`, {
+      shell: true,
+      stdio: "inherit",
+      env: { ...process.env, ZESBE_EDIT_FILE: file },
+    });
+    if (result.status !== 0) return null;
+    return await readFile(file, "utf-8");
+  } finally {
+    if (wasRaw) stdin.setRawMode(true);
+    await rm(dir, { recursive: true, force: true });
+  }
+}
+
+/**
+ * Whether the call has a single new text the user can edit (multi-edit
+ * edit_file calls don't)
+ */
+export function isEditable(toolCall: ToolCall): boolean {
+  const key = EDITABLE_ARGUMENTS[toolCall.name];
+  return !!key && typeof toolCall.arguments[key] === "string";
+}
+
+/**
+ * Let the user rewrite the new text of a file-writing tool call. Returns
+ * the changed arguments, or null if nothing was changed.
+ */
+export async function editToolArguments(toolCall: ToolCall): Promise<Record<string, unknown> | null> {
+  if (!isEditable(toolCall)) return null;
+  const key = EDITABLE_ARGUMENTS[toolCall.name];
+
+  const original = String(toolCall.arguments[key] ?? "");
+  const path = typeof toolCall.arguments.path === "string" ? toolCall.arguments.path : "";
+  // Keep the extension so the editor highlights the right language
+  const fileName = toolCall.name === "apply_patch" ? "change.diff" : toolCall.name !== "batch_edit" && path ? path : `${key}.txt`;
+  let edited = await editInEditor(original, fileName);
+  // Most editors add a final newline on save
+  if (edited !== null && !original.endsWith("\n") && edited.endsWith("\n")) edited = edited.slice(0, -1);
+  if (edited === null || edited === original) return null;
+
+  return { ...toolCall.arguments, [key]: edited };
+}
@@ -0,0 +1,305 @@
+import { readFile, writeFile } from "fs/promises";
+import {
+  SESSION_VERSION,
+  generateSessionId,
+  migrateSession,
+  saveSession,
+  type ChatMessage,
+  type ChatSession,
+} from "./history.js";
+import { formatUnifiedDiff } from "./diff.js";
+
+export type ExportFormat = "md" | "json" | "html";
+
+export const EXPORT_FORMATS: ExportFormat[] = ["md", "json", "html"];
+
+export interface ExportOptions {
+  collapse?: boolean; // Fold thinking and tool output into <details> (default true)
+  thinking?: boolean; // Include thinking blocks (default true)
+}
+
+// Marks a JSON transcript so imports can tell it from arbitrary JSON
+const TRANSCRIPT_FORMAT = "zesbe-transcript";
+
+export interface SessionTranscript {
+  format: typeof TRANSCRIPT_FORMAT;
+  version: number;
+  exportedAt: string;
+  session: ChatSession;
+}
+
+const ROLE_LABELS: Record<ChatMessage["role"], string> = {
+  user: "👤 User",
+  assistant: "🤖 Assistant",
+  system: "ℹ️ System",
+  tool: "🔧 Tool",
+};
+
+/**
+ * Code fence longer than any backtick run in the text, so output containing
+ * fences can't break out of the block
+ */
+function fence(text: string, lang = ""): string {
+  const longest = Math.max(2, ...(text.match(/`+/g) || []).map((run) => run.length));
+  const marks = "`".repeat(longest + 1);
+  return `${marks}${lang}\n${text}\n${marks}`;
+}
+
+function formatArguments(args: Record<string, unknown>): string {
+  return JSON.stringify(args, null, 2);
+}
+
+function messageHeading(message: ChatMessage): string {
+  let label = ROLE_LABELS[message.role];
+  if (message.role === "tool" && message.toolName) label += `: ${message.toolName}`;
+  if (message.role === "assistant" && message.provider && message.model) {
+    label += ` (${message.provider}/${message.model})`;
+  }
+
+  const flags = [
+    message.role === "tool" && message.success === false ? "failed" : "",
+    message.interrupted ? "interrupted" : "",
+    message.compacted ? "compacted" : "",
+  ].filter(Boolean);
+
+  return flags.length > 0 ? `${label} · ${flags.join(", ")}` : label;
+}
+
+function markdownBlock(summary: string, body: string, collapse: boolean): string {
+  return collapse
+    ? `<details>\n<summary>${summary}</summary>\n\n${body}\n\n</details>`
+    : `**${summary}**\n\n${body}`;
+}
+
+/**
+ * Render a session as a Markdown transcript, e.g. for pasting into a PR
+ */
+export function sessionToMarkdown(session: ChatSession, options: ExportOptions = {}): string {
+  const collapse = options.collapse !== false;
+  const parts = [
+    `# ${session.title}`,
+    "",
+    `- **Session:** \`${session.id}\``,
+    `- **Model:** ${session.provider}/${session.model}`,
+    `- **Created:** ${session.createdAt}`,
+    `- **Updated:** ${session.updatedAt}`,
+  ];
+  if (session.tags?.length) parts.push(`- **Tags:** ${session.tags.map((t) => `#${t}`).join(" ")}`);
+
+  if (session.summary) {
+    parts.push("", markdownBlock("Summary of compacted messages", session.summary, collapse));
+  }
+
+  for (const message of session.messages) {
+    const blocks: string[] = [];
+
+    if (message.role === "tool") {
+      const lines = message.content.split("\n").length;
+      blocks.push(markdownBlock(`Output (${lines} line${lines === 1 ? "" : "s"})`, fence(message.content), collapse));
+      if (message.diff?.length) blocks.push(fence(formatUnifiedDiff(message.diff), "diff"));
+    } else {
+      if (message.thinking && options.thinking !== false) {
+        blocks.push(markdownBlock("Thinking", message.thinking, collapse));
+      }
+      if (message.content) blocks.push(message.content);
+      for (const call of message.toolCalls || []) {
+        blocks.push(`**Tool call:** \`${call.name}\``, fence(formatArguments(call.arguments), "json"));
+      }
+    }
+
+    parts.push("", "---", "", `### ${messageHeading(message)}`, "", blocks.join("\n\n"));
+  }
+
+  return parts.join("\n") + "\n";
+}
+
+function escapeHtml(text: string): string {
+  return text
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+}
+
+function htmlBlock(summary: string, body: string, collapse: boolean): string {
+  return `<details${collapse ? "" : " open"}><summary>${escapeHtml(summary)}</summary>${body}</details>`;
+}
+
+const HTML_STYLE = `
+body { font-family: -apple-system, system-ui, sans-serif; max-width: 900px; margin: 2rem auto; padding: 0 1rem; color: #1f2328; }
+header dl { display: grid; grid-template-columns: max-content 1fr; gap: .25rem 1rem; color: #57606a; }
+.message { border-left: 4px solid #d0d7de; margin: 1.25rem 0; padding: .25rem 1rem; }
+.message.user { border-color: #0969da; }
+.message.assistant { border-color: #1a7f37; }
+.message.tool { border-color: #bf8700; }
+.message.failed { border-color: #cf222e; }
+.role { font-weight: 600; margin: .5rem 0; }
+.text { white-space: pre-wrap; }
+pre { background: #f6f8fa; padding: .75rem; overflow-x: auto; }
+summary { cursor: pointer; color: #57606a; }
+`.trim();
+
+/**
+ * Render a session as a standalone HTML page. Content is escaped, not
+ * rendered as Markdown, so model output can't inject markup.
+ */
+export function sessionToHtml(session: ChatSession, options: ExportOptions = {}): string {
+  const collapse = options.collapse !== false;
+  const meta: [string, string][] = [
+    ["Session", session.id],
+    ["Model", `${session.provider}/${session.model}`],
+    ["Created", session.createdAt],
+    ["Updated", session.updatedAt],
+  ];
+  if (session.tags?.length) meta.push(["Tags", session.tags.map((t) => `#${t}`).join(" ")]);
+
+  const body: string[] = [
+    `<header><h1>${escapeHtml(session.title)}</h1><dl>`,
+    ...meta.map(([key, value]) => `<dt>${key}</dt><dd>${escapeHtml(value)}</dd>`),
+    "</dl></header>",
+  ];
+
+  if (session.summary) {
+    body.push(htmlBlock("Summary of compacted messages", `<div class="text">${escapeHtml(session.summary)}</div>`, collapse));
+  }
+
+  for (const message of session.messages) {
+    const classes = ["message", message.role, message.success === false ? "failed" : ""].filter(Boolean).join(" ");
+    const inner = [`<div class="role">${escapeHtml(messageHeading(message))}</div>`];
+
+    if (message.role === "tool") {
+      const lines = message.content.split("\n").length;
+      inner.push(htmlBlock(`Output (${lines} line${lines === 1 ? "" : "s"})`, `<pre>${escapeHtml(message.content)}</pre>`, collapse));
+      if (message.diff?.length) inner.push(`<pre>${escapeHtml(formatUnifiedDiff(message.diff))}</pre>`);
+    } else {
+      if (message.thinking && options.thinking !== false) {
+        inner.push(htmlBlock("Thinking", `<div class="text">${escapeHtml(message.thinking)}</div>`, collapse));
+      }
+      if (message.content) inner.push(`<div class="text">${escapeHtml(message.content)}</div>`);
+      for (const call of message.toolCalls || []) {
+        inner.push(`<p><strong>Tool call:</strong> <code>${escapeHtml(call.name)}</code></p><pre>${escapeHtml(formatArguments(call.arguments))}</pre>`);
+      }
+    }
+
+    body.push(`<section class="${classes}">${inner.join("")}</section>`);
+  }
+
+  return [
+    "<!DOCTYPE html>",
+    '<html lang="en">',
+    "<head>",
+    '<meta charset="utf-8">',
+    `<title>${escapeHtml(session.title)}</title>`,
+    `<style>${HTML_STYLE}</style>`,
+    "</head>",
+    "<body>",
+    ...body,
+    "</body>",
+    "</html>",
+  ].join("\n") + "\n";
+}
+
+/**
+ * JSON transcript holding the full session, importable with importSession
+ */
+export function sessionToJson(session: ChatSession, options: ExportOptions = {}): string {
+  const exported: ChatSession = options.thinking === false
+    ? { ...session, messages: session.messages.map(({ thinking, ...message }) => message) }
+    : session;
+
+  const transcript: SessionTranscript = {
+    format: TRANSCRIPT_FORMAT,
+    version: SESSION_VERSION,
+    exportedAt: new Date().toISOString(),
+    session: { ...exported, version: SESSION_VERSION },
+  };
+  return JSON.stringify(transcript, null, 2) + "\n";
+}
+
+export function exportSession(session: ChatSession, format: ExportFormat, options: ExportOptions = {}): string {
+  switch (format) {
+    case "md":
+      return sessionToMarkdown(session, options);
+    case "html":
+      return sessionToHtml(session, options);
+    case "json":
+      return sessionToJson(session, options);
+  }
+}
+
+/**
+ * Export a session to a file, defaulting to <session id>.<format> in the
+ * working directory. Returns the path written.
+ */
+export async function exportSessionToFile(
+  session: ChatSession,
+  format: ExportFormat,
+  path = `${session.id}.${format}`,
+  options: ExportOptions = {}
+): Promise<string> {
+  await writeFile(path, exportSession(session, format, options));
+  return path;
+}
+
+/**
+ * Parse a JSON transcript (or a raw saved session file) into a session.
+ * The session gets a new id so importing never overwrites existing history.
+ */
+export function parseTranscript(json: string): ChatSession {
+  let data: unknown;
+  try {
+    data = JSON.parse(json);
+  } catch (error) {
+    throw new Error(`Invalid JSON transcript: ${error instanceof Error ? error.message : "parse error"}`);
+  }
+
+  const raw = (data as Partial<SessionTranscript>)?.format === TRANSCRIPT_FORMAT
+    ? (data as SessionTranscript).session
+    : data as ChatSession;
+
+  if (!raw || typeof raw !== "object" || !Array.isArray(raw.messages)) {
+    throw new Error("Not a zesbe session transcript: missing messages");
+  }
+  if ((raw.version || 1) > SESSION_VERSION) {
+    throw new Error(`Transcript version ${raw.version} is newer than supported (${SESSION_VERSION})`);
+  }
+
+  const now = new Date().toISOString();
+  return migrateSession({
+    ...raw,
+    id: generateSessionId(),
+    title: raw.title || "Imported Chat",
+    provider: raw.provider || "unknown",
+    model: raw.model || "unknown",
+    createdAt: raw.createdAt || now,
+    updatedAt: raw.updatedAt || now,
+  });
+}
+
+/**
+ * Import a JSON transcript file into history so it can be resumed
+ */
+export async function importSession(path: string): Promise<ChatSession> {
+  const session = parseTranscript(await readFile(path, "utf-8"));
+  await saveSession(session);
+  return session;
+}
+
+/**
+ * Handle `/export [md|json|html] [path]` for the current session and
+ * return a status line
+ */
+export async function runExportCommand(args: string[], session: ChatSession): Promise<string> {
+  const [first, ...rest] = args.filter(Boolean);
+  const format = (EXPORT_FORMATS.includes(first as ExportFormat) ? first : "md") as ExportFormat;
+  const path = format === first ? rest[0] : first;
+
+  if (session.messages.length === 0) return "Nothing to export yet.";
+
+  try {
+    const written = await exportSessionToFile(session, format, path);
+    return `📄 Exported ${session.messages.length} messages to \`${written}\``;
+  } catch (error) {
+    return `❌ Export failed: ${error instanceof Error ? error.message : "Unknown error"}`;
+  }
+}
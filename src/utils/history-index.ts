@@ -0,0 +1,359 @@
+import { readFile, writeFile, readdir, stat } from "fs/promises";
+import { join } from "path";
+import { CONFIG_DIR } from "../config/index.js";
+import { HISTORY_DIR, loadSession, migrateSession, saveSession, type ChatSession } from "./history.js";
+
+// Bump to force a rebuild when the entry layout changes
+const INDEX_VERSION = 1;
+const INDEX_PATH = join(CONFIG_DIR, "history-index.json");
+
+// Searchable text kept per session; older sessions beyond this are cut
+const MAX_INDEXED_TEXT = 50_000;
+
+export interface SessionIndexEntry {
+  id: string;
+  title: string;
+  provider: string;
+  model: string;
+  models: string[]; // Every provider/model that answered, for filtering
+  createdAt: string;
+  updatedAt: string;
+  messageCount: number;
+  tags: string[];
+  pinned: boolean;
+  text: string; // User and assistant content
+  mtimeMs: number; // Session file mtime when indexed
+}
+
+interface HistoryIndex {
+  version: number;
+  entries: Record<string, SessionIndexEntry>;
+}
+
+export interface SessionSearchOptions {
+  query?: string; // Whitespace-separated keywords, all must match
+  provider?: string;
+  model?: string; // Substring match
+  tag?: string;
+  pinned?: boolean;
+  since?: Date;
+  until?: Date;
+  limit?: number;
+}
+
+export interface SessionSearchResult {
+  session: Omit<SessionIndexEntry, "text" | "mtimeMs" | "models">;
+  score: number;
+  snippet?: string; // Context around the first keyword match
+}
+
+export interface SessionMetaChange {
+  addTags?: string[];
+  removeTags?: string[];
+  pinned?: boolean;
+}
+
+function buildEntry(session: ChatSession, mtimeMs: number): SessionIndexEntry {
+  const models = new Set<string>([`${session.provider}/${session.model}`]);
+  const parts: string[] = [];
+
+  for (const message of session.messages) {
+    if (message.provider && message.model) models.add(`${message.provider}/${message.model}`);
+    if (message.role === "user" || message.role === "assistant") parts.push(message.content);
+  }
+  for (const record of session.usage || []) {
+    models.add(`${record.provider}/${record.model}`);
+  }
+  if (session.summary) parts.push(session.summary);
+
+  return {
+    id: session.id,
+    title: session.title,
+    provider: session.provider,
+    model: session.model,
+    models: [...models],
+    createdAt: session.createdAt,
+    updatedAt: session.updatedAt,
+    messageCount: session.messages.length,
+    tags: session.tags || [],
+    pinned: session.pinned || false,
+    text: parts.join("\n").slice(0, MAX_INDEXED_TEXT),
+    mtimeMs,
+  };
+}
+
+async function readIndex(): Promise<HistoryIndex> {
+  try {
+    const index = JSON.parse(await readFile(INDEX_PATH, "utf-8")) as HistoryIndex;
+    if (index.version === INDEX_VERSION && index.entries) return index;
+  } catch {
+    // Missing or corrupt, rebuild below
+  }
+  return { version: INDEX_VERSION, entries: {} };
+}
+
+/**
+ * Bring the index up to date with the history directory. Only sessions
+ * whose file changed since they were indexed are parsed again.
+ */
+export async function refreshIndex(): Promise<SessionIndexEntry[]> {
+  const index = await readIndex();
+  let files: string[] = [];
+  try {
+    files = (await readdir(HISTORY_DIR)).filter((file) => file.endsWith(".json"));
+  } catch {
+    // No history yet
+  }
+
+  let changed = false;
+  const seen = new Set<string>();
+
+  for (const file of files) {
+    const id = file.slice(0, -".json".length);
+    seen.add(id);
+    try {
+      const path = join(HISTORY_DIR, file);
+      const { mtimeMs } = await stat(path);
+      if (index.entries[id]?.mtimeMs === mtimeMs) continue;
+
+      const session = migrateSession(JSON.parse(await readFile(path, "utf-8")));
+      index.entries[id] = buildEntry(session, mtimeMs);
+      changed = true;
+    } catch {
+      // Skip invalid files
+    }
+  }
+
+  for (const id of Object.keys(index.entries)) {
+    if (!seen.has(id)) {
+      delete index.entries[id];
+      changed = true;
+    }
+  }
+
+  if (changed) {
+    try {
+      await writeFile(INDEX_PATH, JSON.stringify(index));
+    } catch {
+      // The index is a cache; searching still works without it
+    }
+  }
+
+  return Object.values(index.entries);
+}
+
+/**
+ * Parse inline filters from a search string, e.g.
+ * "retry bug provider:anthropic model:sonnet tag:work since:7d is:pinned"
+ */
+export function parseSearchQuery(input: string): SessionSearchOptions {
+  const options: SessionSearchOptions = {};
+  const keywords: string[] = [];
+
+  for (const token of input.trim().split(/\s+/).filter(Boolean)) {
+    const match = token.match(/^(provider|model|tag|since|until|is):(.+)$/i);
+    if (!match) {
+      keywords.push(token);
+      continue;
+    }
+
+    const [, key, value] = match;
+    switch (key.toLowerCase()) {
+      case "provider":
+        options.provider = value;
+        break;
+      case "model":
+        options.model = value;
+        break;
+      case "tag":
+        options.tag = value;
+        break;
+      case "since":
+        options.since = parseDate(value);
+        break;
+      case "until":
+        options.until = parseDate(value);
+        break;
+      case "is":
+        if (value.toLowerCase() === "pinned") options.pinned = true;
+        else keywords.push(token);
+        break;
+    }
+  }
+
+  if (keywords.length > 0) options.query = keywords.join(" ");
+  return options;
+}
+
+/**
+ * Parse a date filter: "7d" (days ago) or anything Date understands
+ */
+export function parseDate(value: string): Date | undefined {
+  const days = value.match(/^(\d+)d$/i);
+  if (days) return new Date(Date.now() - Number(days[1]) * 24 * 60 * 60 * 1000);
+
+  const date = new Date(value);
+  return isNaN(date.getTime()) ? undefined : date;
+}
+
+function countOccurrences(text: string, term: string): number {
+  let count = 0;
+  for (let i = text.indexOf(term); i !== -1; i = text.indexOf(term, i + term.length)) {
+    count++;
+  }
+  return count;
+}
+
+function makeSnippet(text: string, term: string): string {
+  const at = text.toLowerCase().indexOf(term);
+  const start = Math.max(0, at - 40);
+  const end = Math.min(text.length, at + term.length + 60);
+  const snippet = text.slice(start, end).replace(/\s+/g, " ").trim();
+  return `${start > 0 ? "…" : ""}${snippet}${end < text.length ? "…" : ""}`;
+}
+
+/**
+ * Search saved sessions. Pinned sessions come first, then the best
+ * keyword matches, then the most recently updated.
+ */
+export async function searchSessions(options: SessionSearchOptions = {}): Promise<SessionSearchResult[]> {
+  const entries = await refreshIndex();
+  const terms = (options.query || "").toLowerCase().split(/\s+/).filter(Boolean);
+  const provider = options.provider?.toLowerCase();
+  const model = options.model?.toLowerCase();
+  const [tag] = normalizeTags(options.tag ? [options.tag] : []);
+  const results: SessionSearchResult[] = [];
+
+  for (const entry of entries) {
+    if (provider && !entry.models.some((m) => m.split("/")[0].toLowerCase() === provider)) continue;
+    if (model && !entry.models.some((m) => m.toLowerCase().includes(model))) continue;
+    if (tag && !entry.tags.includes(tag)) continue;
+    if (options.pinned !== undefined && entry.pinned !== options.pinned) continue;
+
+    const updated = new Date(entry.updatedAt).getTime();
+    if (options.since && updated < options.since.getTime()) continue;
+    if (options.until && updated > options.until.getTime()) continue;
+
+    let score = 0;
+    if (terms.length > 0) {
+      const haystack = entry.text.toLowerCase();
+      const counts = terms.map((term) => countOccurrences(haystack, term));
+      if (counts.some((count) => count === 0)) continue;
+
+      // Title hits count extra
+      const title = entry.title.toLowerCase();
+      score = counts.reduce((sum, count) => sum + count, 0)
+        + terms.filter((term) => title.includes(term)).length * 5;
+    }
+
+    const { text, mtimeMs, models, ...session } = entry;
+    results.push({ session, score, snippet: terms.length > 0 ? makeSnippet(text, terms[0]) : undefined });
+  }
+
+  results.sort((a, b) =>
+    Number(b.session.pinned) - Number(a.session.pinned)
+    || b.score - a.score
+    || new Date(b.session.updatedAt).getTime() - new Date(a.session.updatedAt).getTime()
+  );
+
+  return options.limit ? results.slice(0, options.limit) : results;
+}
+
+/**
+ * Normalise user-entered tags: lowercase, no leading #, no whitespace
+ */
+export function normalizeTags(tags: string[]): string[] {
+  return tags.map((tag) => tag.trim().replace(/^#/, "").toLowerCase()).filter(Boolean);
+}
+
+/**
+ * Change the tags or pin state of a saved session. Pass the live session
+ * when it is the one open, so the change isn't overwritten by its next save.
+ */
+export async function updateSessionMeta(
+  sessionId: string,
+  change: SessionMetaChange,
+  current?: ChatSession
+): Promise<ChatSession | null> {
+  const session = current?.id === sessionId ? current : await loadSession(sessionId);
+  if (!session) return null;
+
+  const remove = new Set(normalizeTags(change.removeTags || []));
+  const tags = new Set((session.tags || []).filter((tag) => !remove.has(tag)));
+  for (const tag of normalizeTags(change.addTags || [])) tags.add(tag);
+
+  session.tags = [...tags].sort();
+  if (change.pinned !== undefined) session.pinned = change.pinned;
+
+  await saveSession(session);
+  return session;
+}
+
+/**
+ * Markdown list of search results, shared by the TUI and console
+ */
+export function formatSearchResults(results: SessionSearchResult[], heading = "Sessions"): string {
+  if (results.length === 0) return "No matching sessions.";
+
+  const lines = [`**${heading}:**`, ""];
+  results.forEach(({ session, snippet }, i) => {
+    const date = session.updatedAt.slice(0, 10);
+    const pin = session.pinned ? "📌 " : "";
+    const tags = session.tags.length > 0 ? ` ${session.tags.map((t) => `#${t}`).join(" ")}` : "";
+    lines.push(`${i + 1}. ${pin}${session.title} — ${date}, ${session.provider}/${session.model}, ${session.messageCount} msgs${tags} \`${session.id}\``);
+    if (snippet) lines.push(`   * ${snippet}`);
+  });
+  lines.push("", "Resume one with `zesbe --resume <id>` or `zesbe --continue`.");
+  return lines.join("\n");
+}
+
+const HISTORY_USAGE = [
+  "**Usage:**",
+  "",
+  "* `/history` — recent sessions",
+  "* `/history search <keywords> [provider:x] [model:x] [tag:x] [since:7d] [until:date] [is:pinned]`",
+  "* `/history tag [id] <tag...>` / `/history untag [id] <tag...>`",
+  "* `/history pin [id]` / `/history unpin [id]`",
+  "",
+  "Without an id, tags and pins apply to the current session.",
+].join("\n");
+
+/**
+ * Run a /history subcommand and return markdown to show. Tag and pin
+ * commands target the current session unless a session id comes first.
+ */
+export async function runHistoryCommand(args: string[], current?: ChatSession): Promise<string> {
+  const [sub = "list", ...rest] = args.filter(Boolean);
+  const targetId = rest[0]?.startsWith("session_") ? rest.shift()! : current?.id;
+
+  switch (sub) {
+    case "list":
+      return formatSearchResults(await searchSessions({ limit: 10 }), "Recent Sessions");
+
+    case "search": {
+      const query = args.slice(1).join(" ");
+      if (!query.trim()) return HISTORY_USAGE;
+      return formatSearchResults(await searchSessions({ ...parseSearchQuery(query), limit: 20 }), `Results for "${query}"`);
+    }
+
+    case "tag":
+    case "untag": {
+      if (!targetId || rest.length === 0) return HISTORY_USAGE;
+      const change = sub === "tag" ? { addTags: rest } : { removeTags: rest };
+      const session = await updateSessionMeta(targetId, change, current);
+      if (!session) return `Session not found: \`${targetId}\``;
+      return `Tags for \`${session.id}\`: ${session.tags?.length ? session.tags.map((t) => `#${t}`).join(" ") : "(none)"}`;
+    }
+
+    case "pin":
+    case "unpin": {
+      if (!targetId) return HISTORY_USAGE;
+      const session = await updateSessionMeta(targetId, { pinned: sub === "pin" }, current);
+      if (!session) return `Session not found: \`${targetId}\``;
+      return `${sub === "pin" ? "📌 Pinned" : "Unpinned"} \`${session.id}\` (${session.title})`;
+    }
+
+    default:
+      return HISTORY_USAGE;
+  }
+}
@@ -1,15 +1,44 @@
 import { readFile, writeFile, mkdir, readdir } from "fs/promises";
 import { join } from "path";
 import { CONFIG_DIR } from "../config/index.js";
+import { SUMMARY_PREFIX } from "../ai/context.js";
+import type { FileDiff, Message, ToolCall } from "../ai/types.js";
+
+// Bump when the on-disk format changes and add a step to migrateSession
+export const SESSION_VERSION = 2;
+
+export interface UsageRecord {
+  timestamp: string;
+  provider: string;
+  model: string;
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+  cost?: number; // USD, undefined when the model isn't in the price table
+}
 
 export interface ChatMessage {
   role: "user" | "assistant" | "system" | "tool";
   content: string;
   timestamp: string;
   thinking?: string;
+  usage?: UsageRecord; // Total for the turn this assistant message ended
+  interrupted?: boolean; // Generation was cancelled; content is the partial answer
+  provider?: string; // Provider/model that produced an assistant message
+  model?: string;
+  toolCalls?: ToolCall[]; // Assistant messages: tools requested, with arguments
+  toolCallId?: string; // Tool messages: the call this result answers
+  toolName?: string;
+  success?: boolean; // Tool messages: whether the tool succeeded
+  diff?: FileDiff[]; // Tool messages: files the tool changed
+  checkpointId?: string; // User messages: snapshot of files the turn changed
+  compacted?: boolean; // Folded into the session summary; not sent to the API
 }
 
+export type MessageDetails = Omit<ChatMessage, "role" | "content" | "timestamp">;
+
 export interface ChatSession {
+  version: number;
   id: string;
   title: string;
   provider: string;
@@ -17,14 +46,35 @@ export interface ChatSession {
   createdAt: string;
   updatedAt: string;
   messages: ChatMessage[];
+  usage?: UsageRecord[]; // One record per API request
+  summary?: string; // Summary standing in for compacted messages
+  tags?: string[]; // User-assigned, lowercase
+  pinned?: boolean; // Listed before other sessions
+  branches?: SessionBranch[]; // Created by the first /rewind
+  activeBranch?: string; // Branch whose messages are in `messages`
+}
+
+/**
+ * One line of conversation in a session's branch tree. The active branch
+ * keeps its messages in ChatSession.messages; the others store their own.
+ */
+export interface SessionBranch {
+  id: string;
+  name: string;
+  parentId?: string; // Branch this one was forked from
+  forkIndex: number; // Messages shared with the parent
+  createdAt: string;
+  updatedAt: string;
+  messages?: ChatMessage[]; // Only while inactive
+  summary?: string; // Only while inactive
 }
 
-const HISTORY_DIR = join(CONFIG_DIR, "history");
+export const HISTORY_DIR = join(CONFIG_DIR, "history");
 
 /**
  * Generate session ID
  */
-function generateSessionId(): string {
+export function generateSessionId(): string {
   return `session_${Date.now()}_${Math.random().toString(36).slice(2, 8)}`;
 }
 
@@ -45,13 +95,34 @@ async function ensureHistoryDir(): Promise<void> {
   await mkdir(HISTORY_DIR, { recursive: true });
 }
 
+/**
+ * Upgrade a session read from disk to the current format
+ */
+export function migrateSession(raw: Partial<ChatSession> & { id: string }): ChatSession {
+  const session = { messages: [], ...raw } as ChatSession;
+
+  // v1 had no version field and stored tool results without their call ids
+  // or the calls themselves. They can't be replayed to a provider, so they
+  // become system notes, which are shown but not sent.
+  if (!session.version || session.version < 2) {
+    session.messages = session.messages.map((m) =>
+      m.role === "tool" && !m.toolCallId
+        ? { ...m, role: "system", content: `**[tool output]**\n\`\`\`\n${m.content}\n\`\`\`` }
+        : m
+    );
+    session.version = 2;
+  }
+
+  return session;
+}
+
 /**
  * Save chat session
  */
 export async function saveSession(session: ChatSession): Promise<void> {
   await ensureHistoryDir();
   const filePath = join(HISTORY_DIR, `${session.id}.json`);
-  await writeFile(filePath, JSON.stringify(session, null, 2));
+  await writeFile(filePath, JSON.stringify({ ...session, version: SESSION_VERSION }, null, 2));
 }
 
 /**
@@ -61,12 +132,20 @@ export async function loadSession(sessionId: string): Promise<ChatSession | null
   try {
     const filePath = join(HISTORY_DIR, `${sessionId}.json`);
     const content = await readFile(filePath, "utf-8");
-    return JSON.parse(content) as ChatSession;
+    return migrateSession(JSON.parse(content));
   } catch {
     return null;
   }
 }
 
+/**
+ * Most recently updated session, for --continue
+ */
+export async function loadLatestSession(): Promise<ChatSession | null> {
+  const [latest] = await listSessions();
+  return latest || null;
+}
+
 /**
  * List all chat sessions
  */
@@ -80,7 +159,7 @@ export async function listSessions(): Promise<ChatSession[]> {
       if (!file.endsWith(".json")) continue;
       try {
         const content = await readFile(join(HISTORY_DIR, file), "utf-8");
-        sessions.push(JSON.parse(content));
+        sessions.push(migrateSession(JSON.parse(content)));
       } catch {
         // Skip invalid files
       }
@@ -115,6 +194,7 @@ export async function deleteSession(sessionId: string): Promise<boolean> {
 export function createSession(provider: string, model: string): ChatSession {
   const now = new Date().toISOString();
   return {
+    version: SESSION_VERSION,
     id: generateSessionId(),
     title: "New Chat",
     provider,
@@ -132,13 +212,13 @@ export function addMessage(
   session: ChatSession,
   role: ChatMessage["role"],
   content: string,
-  thinking?: string
+  details: MessageDetails = {}
 ): ChatSession {
   const message: ChatMessage = {
     role,
     content,
     timestamp: new Date().toISOString(),
-    thinking,
+    ...details,
   };
 
   session.messages.push(message);
@@ -152,6 +232,74 @@ export function addMessage(
   return session;
 }
 
+/**
+ * Record token usage for one API request
+ */
+export function recordUsage(session: ChatSession, record: UsageRecord): ChatSession {
+  session.usage = [...(session.usage || []), record];
+  session.updatedAt = new Date().toISOString();
+  return session;
+}
+
+/**
+ * Mark the oldest uncompacted messages as folded into a summary. `count`
+ * is the number of non-system messages the compaction removed.
+ */
+export function markCompacted(session: ChatSession, count: number, summary: string): ChatSession {
+  let remaining = count;
+  for (const message of session.messages) {
+    if (remaining === 0) break;
+    if (message.role === "system" || message.compacted) continue;
+    message.compacted = true;
+    remaining--;
+  }
+  session.summary = summary;
+  session.updatedAt = new Date().toISOString();
+  return session;
+}
+
+/**
+ * Rebuild the provider message list (without the system prompt) from a
+ * saved session. Tool calls are only kept when every call has its result,
+ * since providers reject unanswered calls.
+ */
+export function toApiMessages(session: ChatSession): Message[] {
+  const messages: Message[] = [];
+  if (session.summary) {
+    messages.push({ role: "system", content: `${SUMMARY_PREFIX}\n${session.summary}` });
+  }
+
+  const live = session.messages.filter((m) => !m.compacted && m.role !== "system");
+  for (let i = 0; i < live.length; i++) {
+    const m = live[i];
+
+    if (m.role === "tool") continue; // Emitted with their assistant message below
+
+    if (m.role === "assistant" && m.toolCalls?.length) {
+      const results = new Map(
+        live
+          .slice(i + 1, i + 1 + m.toolCalls.length)
+          .filter((r) => r.role === "tool" && r.toolCallId)
+          .map((r) => [r.toolCallId!, r])
+      );
+      const complete = m.toolCalls.every((tc) => results.has(tc.id));
+
+      if (complete) {
+        messages.push({ role: "assistant", content: m.content, toolCalls: m.toolCalls });
+        for (const tc of m.toolCalls) {
+          messages.push({ role: "tool", content: results.get(tc.id)!.content, toolCallId: tc.id });
+        }
+        continue;
+      }
+      if (!m.content) continue;
+    }
+
+    messages.push({ role: m.role, content: m.content });
+  }
+
+  return messages;
+}
+
 /**
  * Clear all history
  */
@@ -0,0 +1,140 @@
+import { calculateCost, formatCost, type ModelPrice, type Usage } from "../ai/index.js";
+import type { ChatSession, UsageRecord } from "./history.js";
+
+export interface UsageTotals {
+  requests: number;
+  promptTokens: number;
+  completionTokens: number;
+  totalTokens: number;
+  cost: number;
+  unpriced: number; // Requests for models missing from the price table
+}
+
+export interface UsageSummaryRow extends UsageTotals {
+  key: string;
+}
+
+export type UsageGrouping = "day" | "provider" | "model";
+
+/**
+ * Build a usage record for one API request, priced from the model table
+ */
+export function createUsageRecord(
+  provider: string,
+  model: string,
+  usage: Usage,
+  prices?: Record<string, ModelPrice>
+): UsageRecord {
+  return {
+    timestamp: new Date().toISOString(),
+    provider,
+    model,
+    promptTokens: usage.promptTokens,
+    completionTokens: usage.completionTokens,
+    totalTokens: usage.totalTokens,
+    cost: calculateCost(model, usage, provider, prices),
+  };
+}
+
+/**
+ * Merge the records of a multi-request turn (tool loop) into one
+ */
+export function combineUsage(records: UsageRecord[]): UsageRecord | undefined {
+  if (records.length === 0) return undefined;
+  const last = records[records.length - 1];
+  const priced = records.every((r) => r.cost !== undefined);
+  return {
+    timestamp: last.timestamp,
+    provider: last.provider,
+    model: last.model,
+    promptTokens: records.reduce((sum, r) => sum + r.promptTokens, 0),
+    completionTokens: records.reduce((sum, r) => sum + r.completionTokens, 0),
+    totalTokens: records.reduce((sum, r) => sum + r.totalTokens, 0),
+    cost: priced ? records.reduce((sum, r) => sum + (r.cost || 0), 0) : undefined,
+  };
+}
+
+/**
+ * Sum a list of usage records
+ */
+export function sumUsage(records: UsageRecord[]): UsageTotals {
+  const totals: UsageTotals = { requests: 0, promptTokens: 0, completionTokens: 0, totalTokens: 0, cost: 0, unpriced: 0 };
+  for (const r of records) {
+    totals.requests++;
+    totals.promptTokens += r.promptTokens;
+    totals.completionTokens += r.completionTokens;
+    totals.totalTokens += r.totalTokens;
+    if (r.cost === undefined) totals.unpriced++;
+    else totals.cost += r.cost;
+  }
+  return totals;
+}
+
+/**
+ * Summarise spend across sessions, grouped by day, provider or model.
+ * Rows are sorted newest-first for days and by cost otherwise.
+ */
+export function summarizeUsage(
+  sessions: ChatSession[],
+  by: UsageGrouping,
+  sinceDays?: number
+): UsageSummaryRow[] {
+  const since = sinceDays ? Date.now() - sinceDays * 24 * 60 * 60 * 1000 : 0;
+  const groups: Map<string, UsageRecord[]> = new Map();
+
+  for (const session of sessions) {
+    for (const record of session.usage || []) {
+      if (new Date(record.timestamp).getTime() < since) continue;
+      const key =
+        by === "day" ? record.timestamp.slice(0, 10) :
+        by === "provider" ? record.provider :
+        record.model;
+      groups.set(key, [...(groups.get(key) || []), record]);
+    }
+  }
+
+  const rows = Array.from(groups.entries()).map(([key, records]) => ({ key, ...sumUsage(records) }));
+  return by === "day"
+    ? rows.sort((a, b) => b.key.localeCompare(a.key))
+    : rows.sort((a, b) => b.cost - a.cost || b.totalTokens - a.totalTokens);
+}
+
+/**
+ * Format a token count compactly (e.g. 12.3k)
+ */
+export function formatTokens(tokens: number): string {
+  if (tokens < 1000) return String(tokens);
+  if (tokens < 1_000_000) return `${(tokens / 1000).toFixed(1)}k`;
+  return `${(tokens / 1_000_000).toFixed(2)}M`;
+}
+
+/**
+ * Format a totals line, flagging requests that couldn't be priced
+ */
+export function formatTotals(totals: UsageTotals): string {
+  const cost = formatCost(totals.cost) + (totals.unpriced > 0 ? ` (+${totals.unpriced} unpriced)` : "");
+  return `${formatTokens(totals.promptTokens)} in / ${formatTokens(totals.completionTokens)} out • ${cost} • ${totals.requests} requests`;
+}
+
+/**
+ * Markdown report of a session's usage for the /usage command
+ */
+export function formatSessionUsage(session: ChatSession): string {
+  const records = session.usage || [];
+  if (records.length === 0) {
+    return "No token usage recorded in this session yet.";
+  }
+
+  const lines = [`**📊 Session Usage:** ${formatTotals(sumUsage(records))}`, ""];
+  const byModel = summarizeUsage([session], "model");
+  for (const row of byModel) {
+    lines.push(`* **${row.key}**: ${formatTotals(row)}`);
+  }
+
+  const lastTurn = [...session.messages].reverse().find((m) => m.usage)?.usage;
+  if (lastTurn) {
+    lines.push("", `Last turn: ${formatTokens(lastTurn.totalTokens)} tokens${lastTurn.cost !== undefined ? ` • ${formatCost(lastTurn.cost)}` : ""}`);
+  }
+
+  return lines.join("\n");
+}
@@ -0,0 +1,218 @@
+#!/usr/bin/env node
+/**
+ * Test the shared Agent loop with a scripted provider
+ */
+
+import { Agent, ToolRegistry } from './dist/core/index.js';
+
+console.log('🔍 Testing Agent Loop\n');
+
+let failed = 0;
+const check = (label, ok) => {
+  console.log(`${ok ? '✅' : '❌'} ${label}`);
+  if (!ok) failed++;
+};
+
+// Provider that plays back one list of chunks per request
+function scriptedProvider(turns) {
+  const requests = [];
+  return {
+    name: 'scripted',
+    requests,
+    async chat() {
+      throw new Error('not used');
+    },
+    async *chatStream(request) {
+      requests.push(request);
+      for (const chunk of turns[requests.length - 1] || []) yield chunk;
+    },
+  };
+}
+
+const toolCall = { id: 'call_1', name: 'read_file', arguments: { path: 'package.json' } };
+
+async function collect(agent, messages, signal) {
+  const events = [];
+  for await (const event of agent.run(messages, signal)) events.push(event);
+  return events;
+}
+
+// Test 1: tool round trip, split <think> tags and usage
+console.log('📋 Test 1: tool loop');
+const provider = scriptedProvider([
+  [{ type: 'text', content: 'Let me look<th' }, { type: 'text', content: 'ink>hmm</thi' }, { type: 'text', content: 'nk>' }, { type: 'tool_call', toolCall }],
+  [{ type: 'text', content: 'It is zesbe-modern.' }, { type: 'usage', usage: { promptTokens: 10, completionTokens: 5, totalTokens: 15 }, model: 'm' }],
+]);
+const agent = new Agent({ provider, providerName: 'scripted', model: 'm', tools: new ToolRegistry({ mcp: false }) });
+const events = await collect(agent, [{ role: 'user', content: 'name?' }]);
+const done = events.at(-1);
+check('thinking is split from text', events.filter((e) => e.type === 'thinking').map((e) => e.delta).join('') === 'hmm');
+check('text excludes think tags', !events.some((e) => e.type === 'text' && e.delta.includes('think')));
+check('runs the tool', events.some((e) => e.type === 'tool_end' && e.result.success && e.output.includes('zesbe-modern')));
+check('sends the tool result back', provider.requests[1].messages[2]?.content.includes('zesbe-modern'));
+check('reports usage', events.some((e) => e.type === 'usage' && e.usage.totalTokens === 15));
+check('finishes with the answer', done.type === 'done' && done.reason === 'stop' && done.content === 'It is zesbe-modern.');
+check('returns the full conversation', done.messages.length === 4);
+console.log();
+
+// Test 2: permission rules
+console.log('📋 Test 2: permissions');
+const denyProvider = scriptedProvider([[{ type: 'tool_call', toolCall }], [{ type: 'text', content: 'ok' }]]);
+const denied = await collect(new Agent({
+  provider: denyProvider,
+  providerName: 'scripted',
+  model: 'm',
+  tools: new ToolRegistry({ mcp: false }),
+  permissions: { rules: [{ tool: 'read_file', policy: 'deny', scope: 'project', args: { path: '*.json' } }], fallback: 'allow' },
+}), [{ role: 'user', content: 'hi' }]);
+check('denied calls are not executed', denied.some((e) => e.type === 'tool_end' && e.denied && !e.result.success));
+
+const askProvider = scriptedProvider([[{ type: 'tool_call', toolCall: { ...toolCall, name: 'write_file' } }], [{ type: 'text', content: 'ok' }]]);
+let asked = 0;
+await collect(new Agent({
+  provider: askProvider,
+  providerName: 'scripted',
+  model: 'm',
+  tools: new ToolRegistry({ mcp: false }),
+  permissions: { rules: [], fallback: 'ask', ask: async () => { asked++; return 'deny'; } },
+}), [{ role: 'user', content: 'hi' }]);
+check('asks when no rule matches', asked === 1);
+console.log();
+
+// Test 3: cancellation
+console.log('📋 Test 3: abort');
+const controller = new AbortController();
+controller.abort();
+const aborted = await collect(agent, [{ role: 'user', content: 'hi' }], controller.signal);
+check('stops with reason "aborted"', aborted.length === 1 && aborted[0].reason === 'aborted');
+
+// Provider that streams a little, then hangs until the request is aborted
+const slowProvider = {
+  name: 'slow',
+  async chat() {
+    throw new Error('not used');
+  },
+  async *chatStream(request) {
+    yield { type: 'text', content: 'Partial ans' };
+    await new Promise((_, reject) => request.signal.addEventListener('abort', () => reject(new Error('aborted'))));
+  },
+};
+const midway = new AbortController();
+setTimeout(() => midway.abort(), 50);
+const partial = await collect(new Agent({ provider: slowProvider, providerName: 'slow', model: 'm' }), [{ role: 'user', content: 'hi' }], midway.signal);
+const partialDone = partial.at(-1);
+check('keeps the partial answer', partialDone.reason === 'aborted' && partialDone.content === 'Partial ans');
+check('adds it to the conversation', partialDone.messages.at(-1).content === 'Partial ans');
+
+const commandProvider = scriptedProvider([[{ type: 'tool_call', toolCall: { id: 'call_2', name: 'run_command', arguments: { command: 'sleep 5' } } }]]);
+const killer = new AbortController();
+setTimeout(() => killer.abort(), 200);
+const started = Date.now();
+const killed = await collect(new Agent({
+  provider: commandProvider,
+  providerName: 'scripted',
+  model: 'm',
+  tools: new ToolRegistry({ mcp: false }),
+}), [{ role: 'user', content: 'hi' }], killer.signal);
+check('kills the running command', Date.now() - started < 3000 && killed.some((e) => e.type === 'tool_end' && e.result.error === 'Cancelled by user'));
+check('stops after the tool', killed.at(-1).reason === 'aborted');
+console.log();
+
+// Test 4: progress events
+console.log('📋 Test 4: progress');
+const progressCall = { id: 'call_3', name: 'run_command', arguments: { command: 'echo one; sleep 0.3; printf "two\\r50%%\\rthree"' } };
+const progressProvider = scriptedProvider([[{ type: 'tool_call', toolCall: progressCall }], [{ type: 'text', content: 'ok' }]]);
+const progressed = await collect(new Agent({
+  provider: progressProvider,
+  providerName: 'scripted',
+  model: 'm',
+  tools: new ToolRegistry({ mcp: false }),
+}), [{ role: 'user', content: 'hi' }]);
+const lines = progressed.filter((e) => e.type === 'tool_progress').map((e) => e.progress.line);
+const end = progressed.findIndex((e) => e.type === 'tool_end');
+check('streams output lines while the tool runs', JSON.stringify(lines) === '["one","three"]');
+check('progress comes before the result', progressed.findIndex((e) => e.type === 'tool_progress') < end);
+check('the result is unchanged', progressed[end].output === 'one\ntwo\r50%\rthree');
+check('the model gets the result, not the progress', progressProvider.requests[1].messages.find((m) => m.toolCallId === 'call_3')?.content === progressed[end].output);
+console.log();
+
+// Test 5: parallel tool calls
+console.log('📋 Test 5: parallel tools');
+const log = [];
+class TimedRegistry extends ToolRegistry {
+  async execute(toolCall) {
+    log.push(`start ${toolCall.id}`);
+    await new Promise((r) => setTimeout(r, 100));
+    log.push(`end ${toolCall.id}`);
+    return { toolCallId: toolCall.id, success: true, output: toolCall.id };
+  }
+}
+const call = (id, name) => ({ type: 'tool_call', toolCall: { id, name, arguments: {} } });
+const parallelProvider = scriptedProvider([
+  [call('r1', 'read_file'), call('r2', 'git_status'), call('r3', 'search_code'), call('w1', 'write_file'), call('r4', 'read_file')],
+  [{ type: 'text', content: 'ok' }],
+]);
+await collect(new Agent({
+  provider: parallelProvider,
+  providerName: 'scripted',
+  model: 'm',
+  tools: new TimedRegistry({ mcp: false }),
+  maxParallelTools: 2,
+}), [{ role: 'user', content: 'hi' }]);
+const at = (entry) => log.indexOf(entry);
+check('read-only calls run together', at('start r2') < at('end r1'));
+check('up to the concurrency limit', at('start r3') > Math.min(at('end r1'), at('end r2')));
+check('mutating calls wait for earlier calls', at('start w1') > Math.max(at('end r1'), at('end r2'), at('end r3')));
+check('later calls wait for mutating calls', at('start r4') > at('end w1'));
+const order = parallelProvider.requests[1].messages.filter((m) => m.role === 'tool').map((m) => m.toolCallId);
+check('results keep the call order', JSON.stringify(order) === '["r1","r2","r3","w1","r4"]');
+console.log();
+
+// Test 6: delegation
+console.log('📋 Test 6: delegate_task');
+const delegateCall = { id: 'd1', name: 'delegate_task', arguments: { task: 'What is the package name?' } };
+const delegateProvider = scriptedProvider([
+  [{ type: 'tool_call', toolCall: delegateCall }],
+  [{ type: 'tool_call', toolCall: { id: 'c1', name: 'read_file', arguments: { path: 'package.json' } } }],
+  [{ type: 'text', content: 'It is zesbe-modern.' }, { type: 'usage', usage: { promptTokens: 5, completionTokens: 2, totalTokens: 7 } }],
+  [{ type: 'text', content: 'Done' }],
+]);
+const delegated = await collect(new Agent({
+  provider: delegateProvider,
+  providerName: 'scripted',
+  model: 'm',
+  tools: new ToolRegistry({ mcp: false }),
+  delegate: { maxIterations: 4 },
+}), [{ role: 'user', content: 'hi' }]);
+const [parentRequest, childRequest] = delegateProvider.requests;
+const childTools = childRequest.tools.map((t) => t.name);
+check('the parent is offered delegate_task', parentRequest.tools.some((t) => t.name === 'delegate_task'));
+check('the child gets read-only tools only', childTools.includes('read_file') && !childTools.includes('write_file') && !childTools.includes('delegate_task'));
+check('the child starts from its own history', childRequest.messages[0].role === 'system' && childRequest.messages[1].content === 'What is the package name?');
+const delegateResult = delegateProvider.requests[3].messages.find((m) => m.toolCallId === 'd1')?.content || '';
+check('the parent gets only the summary', delegateResult.startsWith('It is zesbe-modern.') && delegateResult.includes('1 tool calls') && !delegateProvider.requests[3].messages.some((m) => m.toolCallId === 'c1'));
+check('child activity is reported under the call', delegated.some((e) => e.type === 'subagent' && e.toolCall.id === 'd1' && e.event.type === 'tool_start' && e.event.toolCall.name === 'read_file'));
+check('child usage is reported', delegated.some((e) => e.type === 'usage' && e.usage.totalTokens === 7));
+
+const budgetProvider = scriptedProvider([
+  [{ type: 'tool_call', toolCall: delegateCall }],
+  [{ type: 'tool_call', toolCall: { id: 'c2', name: 'read_file', arguments: { path: 'package.json' } } }],
+  [{ type: 'text', content: 'Partial findings' }],
+  [{ type: 'text', content: 'Done' }],
+]);
+await collect(new Agent({
+  provider: budgetProvider,
+  providerName: 'scripted',
+  model: 'm',
+  tools: new ToolRegistry({ mcp: false }),
+  delegate: { maxIterations: 1 },
+}), [{ role: 'user', content: 'hi' }]);
+const wrapUp = budgetProvider.requests[2].messages.findLast((m) => m.role === 'user');
+const budgetResult = budgetProvider.requests[3].messages.find((m) => m.toolCallId === 'd1')?.content || '';
+check('a child out of steps is asked to wrap up', wrapUp.content.includes('Summarise') && wrapUp.content.includes('package.json'));
+check('the wrap-up offers no tools and has no tool turns', !budgetProvider.requests[2].tools && budgetProvider.requests[2].messages.every((m) => m.role !== 'tool' && !m.toolCalls));
+check('the budget is noted in the result', budgetResult.startsWith('Partial findings') && budgetResult.includes('stopped at its limit of 1 steps'));
+console.log();
+
+console.log(failed === 0 ? '🏁 Agent Tests Passed' : `🏁 ${failed} check(s) failed`);
+process.exit(failed === 0 ? 0 : 1);
@@ -0,0 +1,128 @@
+#!/usr/bin/env node
+/**
+ * Test AnthropicProvider against a local mock Messages API server
+ */
+
+import { createServer } from 'http';
+import { AnthropicProvider } from './dist/ai/index.js';
+
+console.log('🔍 Testing Anthropic Provider (mock server)\n');
+
+let lastBody = null;
+let lastHeaders = null;
+let echoLastTool = false; // Answer with a call to the last declared tool
+
+const sse = (events) => events
+  .map((e) => `event: ${e.type}\ndata: ${JSON.stringify(e)}\n\n`)
+  .join('');
+
+const server = createServer((req, res) => {
+  let raw = '';
+  req.on('data', (chunk) => { raw += chunk; });
+  req.on('end', () => {
+    lastBody = JSON.parse(raw);
+    lastHeaders = req.headers;
+
+    if (!lastBody.stream) {
+      res.writeHead(200, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify({
+        id: 'msg_1',
+        type: 'message',
+        role: 'assistant',
+        model: lastBody.model,
+        content: [
+          { type: 'text', text: 'Reading it now.' },
+          { type: 'tool_use', id: 'toolu_1', name: echoLastTool ? lastBody.tools.at(-1).name : 'read_file', input: { path: 'package.json' } },
+        ],
+        stop_reason: 'tool_use',
+        usage: { input_tokens: 12, output_tokens: 8 },
+      }));
+      return;
+    }
+
+    res.writeHead(200, { 'Content-Type': 'text/event-stream' });
+    res.end(sse([
+      { type: 'message_start', message: { id: 'msg_2', model: lastBody.model, usage: { input_tokens: 12, output_tokens: 1 } } },
+      { type: 'content_block_start', index: 0, content_block: { type: 'text', text: '' } },
+      { type: 'content_block_delta', index: 0, delta: { type: 'text_delta', text: 'Hello' } },
+      { type: 'content_block_delta', index: 0, delta: { type: 'text_delta', text: ' world' } },
+      { type: 'content_block_stop', index: 0 },
+      { type: 'content_block_start', index: 1, content_block: { type: 'tool_use', id: 'toolu_2', name: 'list_directory' } },
+      { type: 'content_block_delta', index: 1, delta: { type: 'input_json_delta', partial_json: '{"path":' } },
+      { type: 'content_block_delta', index: 1, delta: { type: 'input_json_delta', partial_json: '"src"}' } },
+      { type: 'content_block_stop', index: 1 },
+      { type: 'message_delta', delta: { stop_reason: 'tool_use' }, usage: { output_tokens: 20 } },
+      { type: 'message_stop' },
+    ]));
+  });
+});
+
+await new Promise((resolve) => server.listen(0, resolve));
+const baseUrl = `http://127.0.0.1:${server.address().port}/v1`;
+const provider = new AnthropicProvider('test-key', baseUrl, 'claude-test');
+
+let failed = 0;
+const check = (label, ok) => {
+  console.log(`${ok ? '✅' : '❌'} ${label}`);
+  if (!ok) failed++;
+};
+
+const messages = [
+  { role: 'system', content: 'You are a test.' },
+  { role: 'user', content: 'Read package.json' },
+  { role: 'assistant', content: '', toolCalls: [{ id: 'toolu_0', name: 'read_file', arguments: { path: 'package.json' } }] },
+  { role: 'tool', content: '{"name":"zesbe"}', toolCallId: 'toolu_0' },
+];
+const tools = [{
+  name: 'read_file',
+  description: 'Read a file',
+  parameters: { type: 'object', properties: { path: { type: 'string', description: 'Path' } }, required: ['path'] },
+}];
+
+// Test 1: non-streaming chat
+console.log('📋 Test 1: chat()');
+const response = await provider.chat({ messages, tools });
+check('sends x-api-key header', lastHeaders['x-api-key'] === 'test-key');
+check('lifts system prompt', lastBody.system === 'You are a test.');
+check('maps tool call to tool_use block', lastBody.messages[1].content[0].type === 'tool_use');
+check('maps tool result to tool_result block', lastBody.messages[2].content[0].tool_use_id === 'toolu_0');
+check('converts tools to input_schema', lastBody.tools[0].input_schema.required[0] === 'path');
+check('returns text content', response.content === 'Reading it now.');
+check('returns tool calls', response.toolCalls?.[0]?.arguments.path === 'package.json');
+check('maps stop reason', response.finishReason === 'tool_calls');
+check('maps usage', response.usage?.totalTokens === 20);
+console.log();
+
+// Test 2: streaming chat
+console.log('📋 Test 2: chatStream()');
+const chunks = [];
+for await (const chunk of provider.chatStream({ messages, tools })) {
+  chunks.push(chunk);
+}
+const text = chunks.filter((c) => c.type === 'text').map((c) => c.content).join('');
+const toolCall = chunks.find((c) => c.type === 'tool_call')?.toolCall;
+check('streams text deltas', text === 'Hello world');
+check('assembles tool call arguments', toolCall?.name === 'list_directory' && toolCall.arguments.path === 'src');
+check('ends with done', chunks[chunks.length - 1].type === 'done');
+console.log();
+
+// Test 3: tool names the API would reject
+console.log('📋 Test 3: tool names');
+const long = 'mcp_server_' + 'x'.repeat(70);
+const odd = [...tools, ...['mcp_my.server_do:thing', `${long}_a`, `${long}_b`].map((name) => ({ ...tools[0], name }))];
+echoLastTool = true;
+const renamed = await provider.chat({
+  messages: [...messages, { role: 'assistant', content: '', toolCalls: [{ id: 'toolu_9', name: 'mcp_my.server_do:thing', arguments: {} }] }, { role: 'tool', content: 'ok', toolCallId: 'toolu_9' }],
+  tools: odd,
+});
+echoLastTool = false;
+const declared = lastBody.tools.map((t) => t.name);
+check('declares valid, unique names', declared.every((n) => /^[a-zA-Z0-9_-]{1,64}$/.test(n)) && new Set(declared).size === declared.length);
+check('keeps names that are already valid', declared[0] === 'read_file');
+check('uses the declared name in history', lastBody.messages[3].content[0].name === declared[1]);
+check('maps returned names back', renamed.toolCalls?.[0]?.name === `${long}_b`);
+console.log();
+
+server.close();
+console.log(failed === 0 ? '🏁 Anthropic Provider Tests Passed' : `🏁 ${failed} check(s) failed`);
+process.exit(failed === 0 ? 0 : 1);
@@ -0,0 +1,83 @@
+#!/usr/bin/env node
+/**
+ * Test conversation branching, checkpoints and file restore for /rewind and /undo
+ */
+
+import { mkdtempSync, rmSync, readFileSync, existsSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+
+// Checkpoints live under the home directory, so point it somewhere disposable
+const home = mkdtempSync(join(tmpdir(), 'zesbe-home-'));
+process.env.HOME = home;
+
+const { createSession, addMessage, toApiMessages } = await import('./dist/utils/history.js');
+const { rewindPoints, checkpointsSince, forkSession, switchBranch, branchTree } = await import('./dist/utils/branches.js');
+const { createCheckpoint, listCheckpoints, checkpointFiles, restoreCheckpoints, undoLastCheckpoint } = await import('./dist/utils/checkpoints.js');
+const { executeTool } = await import('./dist/tools/index.js');
+
+console.log('🔍 Testing Branches\n');
+
+let failed = 0;
+const check = (label, ok) => {
+  console.log(`${ok ? '✅' : '❌'} ${label}`);
+  if (!ok) failed++;
+};
+
+const dir = mkdtempSync(join(tmpdir(), 'zesbe-branches-'));
+const existing = join(dir, 'existing.txt');
+const created = join(dir, 'created.txt');
+writeFileSync(existing, 'original');
+
+// Test 1: write tools snapshot files before the first change
+const checkpoint = createCheckpoint('change the files', { sessionId: 's1' });
+await executeTool('edit_file', { path: existing, old_text: 'original', new_text: 'edited' }, { checkpoint });
+await executeTool('edit_file', { path: existing, old_text: 'edited', new_text: 'edited twice' }, { checkpoint });
+await executeTool('write_file', { path: created, content: 'new file' }, { checkpoint });
+check('snapshots each file once', checkpoint.files.length === 2);
+check('records a created file', checkpoint.files[1].existed === false);
+check('checkpoint is listed', (await listCheckpoints({ sessionId: 's1' })).length === 1);
+
+const session = createSession('openai', 'gpt-4o');
+addMessage(session, 'user', 'first');
+addMessage(session, 'assistant', 'ok');
+addMessage(session, 'user', 'change the files', { checkpointId: checkpoint.id });
+addMessage(session, 'tool', 'edited', { toolCallId: 'c1', toolName: 'edit_file', success: true });
+addMessage(session, 'assistant', 'done');
+
+// Test 2: rewind points and the checkpoints after them
+const points = rewindPoints(session);
+check('user messages are rewind points', points.map((p) => p.index).join(',') === '0,2');
+check('finds checkpoints since a point', checkpointsSince(session, 2).length === 1);
+check('no checkpoints after the turn', checkpointsSince(session, 3).length === 0);
+check('lists files a restore would touch', (await checkpointFiles(checkpointsSince(session, 0))).length === 2);
+
+// Test 3: forking keeps the old branch
+const branch = forkSession(session, 2, 'retry');
+check('fork keeps messages before the point', session.messages.length === 2 && session.activeBranch === branch.id);
+addMessage(session, 'user', 'change them differently');
+check('new branch replays only its own messages', toApiMessages(session).at(-1).content === 'change them differently');
+
+const tree = branchTree(session);
+check('tree nests the fork under main', tree.length === 2 && tree[1].depth === 1 && tree[1].branch.parentId === 'main');
+
+check('switches back to main', switchBranch(session, 'main') && session.messages.length === 5);
+check('switches to the fork', switchBranch(session, branch.id) && session.messages.at(-1).content === 'change them differently');
+check('unknown branch', switchBranch(session, 'nope') === null);
+
+// Test 4: undo restores the last turn and saves what it overwrote
+const undone = await undoLastCheckpoint('s1');
+check('undo restores edited files', readFileSync(existing, 'utf-8') === 'original' && undone.result.restored.length === 1);
+check('undo removes files the agent created', !existsSync(created) && undone.result.deleted.length === 1);
+check('nothing left to undo', (await undoLastCheckpoint('s1')) === null);
+
+const redo = await restoreCheckpoints([undone.result.undoCheckpoint], 's1');
+check('undo can itself be restored', readFileSync(existing, 'utf-8') === 'edited twice' && readFileSync(created, 'utf-8') === 'new file');
+check('restore saves another undo checkpoint', !!redo.undoCheckpoint);
+console.log();
+
+rmSync(dir, { recursive: true, force: true });
+rmSync(home, { recursive: true, force: true });
+
+console.log(failed === 0 ? '🏁 Branch Tests Passed' : `🏁 ${failed} check(s) failed`);
+process.exit(failed === 0 ? 0 : 1);
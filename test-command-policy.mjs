@@ -0,0 +1,111 @@
+#!/usr/bin/env node
+/**
+ * Test the run_command execution layer: AST policy checks, environment
+ * scrubbing, resource limits and network isolation
+ */
+
+import { mkdtempSync, rmSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+
+// Config is read from the home directory, so point it somewhere disposable
+const home = mkdtempSync(join(tmpdir(), 'zesbe-home-'));
+process.env.HOME = home;
+
+const { executeTool } = await import('./dist/tools/index.js');
+const { parseShell, simpleCommands } = await import('./dist/tools/shell.js');
+const { checkCommand, loadCommandPolicy } = await import('./dist/tools/command.js');
+
+console.log('🔍 Testing command policy\n');
+
+let failed = 0;
+const check = (label, ok) => {
+  console.log(`${ok ? '✅' : '❌'} ${label}`);
+  if (!ok) failed++;
+};
+
+const defaults = await loadCommandPolicy();
+const policy = (overrides = {}) => ({ ...defaults, ...overrides });
+const programs = (source) => simpleCommands(parseShell(source)).map((c) => c.words.map((w) => w.text).join(' '));
+const blocked = (command, overrides) => checkCommand(command, policy(overrides));
+const details = (result) => JSON.parse(result.error.slice(result.error.indexOf('\n') + 1));
+
+// Test 1: parsing
+console.log('📋 Test 1: parsing');
+check('pipes and lists', JSON.stringify(programs('ls -la | grep x && echo ok; pwd')) === '["ls -la","grep x","echo ok","pwd"]');
+check('subshells and groups', JSON.stringify(programs('(cd src && make) || { echo failed; }')) === '["cd src","make","echo failed"]');
+check('quotes are removed', JSON.stringify(programs(`echo "a b" 'c|d' e\\ f`)) === '["echo a b c|d e f"]');
+check('substitutions are parsed', programs('echo $(whoami) `id`').includes('whoami') && programs('echo $(whoami) `id`').includes('id'));
+check('case statements', JSON.stringify(programs('case "$1" in\n  a|b) make a ;;\n  (c) make c; echo c ;&\n  *) ;;\nesac')) === '["make a","make c","echo c"]');
+check('case on one line', JSON.stringify(programs('case x in x) echo yes;; esac && pwd')) === '["echo yes","pwd"]');
+check('here-documents are skipped', JSON.stringify(programs('cat <<EOF\nsudo rm\nEOF\necho done')) === '["cat","echo done"]');
+console.log();
+
+// Test 2: deny and allow rules
+console.log('📋 Test 2: deny and allow rules');
+check('plain commands pass', blocked('npm test && git status') === null);
+check('denied programs are found in pipes', blocked('echo x | sudo tee /etc/hosts')?.rule === 'sudo');
+check('denied programs are found in subshells', blocked('(cd / && sudo ls)')?.reason === 'denied');
+check('denied programs are found in substitutions', blocked('echo $(sudo id)')?.rule === 'sudo');
+check('denied programs are found behind wrappers', blocked('env FOO=1 timeout 5 sudo id')?.rule === 'sudo');
+check('denied programs are found in find -exec', blocked('find . -exec sudo {} ;')?.rule === 'sudo' && blocked('find . -name x -execdir ls {} + -ok sudo rm {} ;')?.rule === 'sudo');
+check('find without -exec passes', blocked('find . -name "*.ts" -newer x') === null);
+check('denied programs are found behind busybox', blocked(`busybox sh -c 'sudo id'`)?.rule === 'sudo' && blocked('busybox sudo id')?.rule === 'sudo');
+check('denied programs are found in case statements', blocked('case $x in *) sudo id ;; esac')?.rule === 'sudo');
+check('denied programs are found in sh -c', blocked(`bash -lc 'sudo id'`)?.rule === 'sudo');
+check('paths to denied programs are caught', blocked('/usr/bin/sudo id')?.rule === 'sudo');
+check('rules with spaces match the invocation', blocked('rm -rf /')?.rule === 'rm -rf /' && blocked('rm -rf ./build') === null);
+check('flag order and grouping do not matter', ['rm -fr /', 'rm -r -f /', 'rm --recursive --force /', 'rm -rfv -- /'].every((c) => blocked(c)?.rule === 'rm -rf /'));
+check('a directory given as dir/* is the directory', blocked('rm -rf /*')?.rule === 'rm -rf /' && blocked('rm -rf ~/*')?.reason === 'denied' && blocked('rm -rf /tmp/build/*') === null);
+check('missing flags do not match', blocked('rm -r ./x /') === null && blocked('rm -f /tmp/x') === null);
+check('quoted text is not a command', blocked(`echo "sudo is denied"`) === null);
+const allow = { allow: ['git', 'npm', 'echo'] };
+check('allowlists admit listed programs', blocked('git status | echo', allow) === null);
+check('allowlists reject others', blocked('git status && curl x', allow)?.reason === 'not_allowed');
+check('allowlists reject dynamic programs', blocked('$CMD --version', allow)?.reason === 'unverifiable');
+check('unparsable commands are rejected', blocked('echo "unterminated')?.reason === 'parse_error');
+check('parse errors point at the syntax', blocked('case x in a) echo')?.detail.includes('Missing "esac"') && !blocked('case x in a) echo')?.detail.includes('POSIX'));
+console.log();
+
+// Test 3: running
+console.log('📋 Test 3: running');
+const run = (command, overrides) => executeTool('run_command', { command }, { commandPolicy: policy(overrides) });
+const ran = await run('echo hello | tr a-z A-Z');
+check('runs pipelines', ran.success && ran.output.trim() === 'HELLO');
+const refused = await run('echo x | sudo id');
+check('violations are structured errors', !refused.success && details(refused).type === 'policy_violation' && details(refused).rule === 'sudo');
+process.env.ZESBE_TEST_API_KEY = 'secret';
+process.env.ZESBE_TEST_VISIBLE = 'visible';
+const env = await run('echo "[$ZESBE_TEST_API_KEY][$ZESBE_TEST_VISIBLE]"');
+check('*_API_KEY variables are scrubbed', env.output.trim() === '[][visible]');
+delete process.env.ZESBE_TEST_API_KEY;
+console.log();
+
+// Test 4: limits
+console.log('📋 Test 4: limits');
+const slow = await run('sleep 5', { timeout: 1 });
+check('wall-clock timeout', !slow.success && details(slow).limit === 'timeout' && details(slow).max === 1);
+const loud = await run('yes', { maxOutput: 10000 });
+check('output limit', !loud.success && details(loud).limit === 'output');
+const busy = await run('while :; do :; done', { cpuSeconds: 1, timeout: 10 });
+check('CPU limit', !busy.success && details(busy).limit === 'cpu');
+const hungry = await run(`node -e "Buffer.alloc(300 * 1024 * 1024).fill(1)"`, { memoryMb: 200 });
+const small = await run(`node -e "Buffer.alloc(10 * 1024 * 1024).fill(1)"`, { memoryMb: 200 });
+check('memory limit', !hungry.success && small.success);
+console.log();
+
+// Test 5: network
+console.log('📋 Test 5: network');
+const offline = await run('cat /proc/net/dev', { network: false });
+if (!offline.success && details(offline).type === 'sandbox_unavailable') {
+  console.log('⏭️  no unshare or bwrap here, skipping');
+} else {
+  const interfaces = offline.output.split('\n').slice(2).filter((line) => line.includes(':')).map((line) => line.split(':')[0].trim());
+  check('network: false leaves only loopback', offline.success && interfaces.every((name) => name === 'lo'));
+}
+console.log();
+
+rmSync(home, { recursive: true, force: true });
+
+console.log(failed === 0 ? '🏁 Command Policy Tests Passed' : `🏁 ${failed} check(s) failed`);
+process.exit(failed === 0 ? 0 : 1);
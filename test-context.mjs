@@ -0,0 +1,116 @@
+#!/usr/bin/env node
+/**
+ * Test context compaction: which turns are summarised, that tool calls
+ * stay with their results, and that the result fits the window
+ */
+
+import { compactMessages, shouldCompact, estimateMessagesTokens, getContextLimit, SUMMARY_PREFIX } from './dist/ai/context.js';
+
+console.log('🔍 Testing context compaction\n');
+
+let failed = 0;
+const check = (label, ok) => {
+  console.log(`${ok ? '✅' : '❌'} ${label}`);
+  if (!ok) failed++;
+};
+
+// Provider whose summary is fixed text; records what it was asked
+function summarizer(summary = '- the user is refactoring src/app.ts') {
+  const requests = [];
+  return {
+    name: 'summarizer',
+    requests,
+    async chat(request) {
+      requests.push(request);
+      return { content: summary, usage: { promptTokens: 1, completionTokens: 1, totalTokens: 2 } };
+    },
+    async *chatStream() {
+      throw new Error('not used');
+    },
+  };
+}
+
+// A conversation of user turns, each answered by tool calls with outputs
+// of the given sizes and a final answer
+function conversation(turns, outputSize) {
+  const messages = [{ role: 'system', content: 'You are a coding assistant.' }];
+  for (let t = 0; t < turns; t++) {
+    messages.push({ role: 'user', content: `Task ${t}` });
+    const calls = [0, 1, 2].map((c) => ({ id: `t${t}c${c}`, name: 'read_file', arguments: { path: `f${c}.ts` } }));
+    messages.push({ role: 'assistant', content: '', toolCalls: calls });
+    for (const call of calls) messages.push({ role: 'tool', content: 'x'.repeat(outputSize), toolCallId: call.id });
+    messages.push({ role: 'assistant', content: `Done with task ${t}` });
+  }
+  return messages;
+}
+
+// Every assistant tool call is followed by all of its results, and every
+// result follows its call
+function paired(messages) {
+  for (let i = 0; i < messages.length; i++) {
+    const m = messages[i];
+    if (m.role === 'tool') {
+      const owner = messages.slice(0, i).findLast((p) => p.role !== 'tool');
+      if (!owner?.toolCalls?.some((c) => c.id === m.toolCallId)) return false;
+    }
+    if (m.toolCalls?.length) {
+      const results = messages.slice(i + 1, i + 1 + m.toolCalls.length).map((r) => r.toolCallId);
+      if (!m.toolCalls.every((c) => results.includes(c.id))) return false;
+    }
+  }
+  return true;
+}
+
+const options = { model: 'local', provider: 'ollama' };
+const window = getContextLimit('local', 'ollama');
+
+// Test 1: when to compact
+console.log('📋 Test 1: threshold');
+check('small conversations are left alone', !shouldCompact(conversation(1, 100), options));
+check('large ones cross the threshold', shouldCompact(conversation(10, 1000), options));
+check('reserved response tokens count', shouldCompact(conversation(4, 1000), { ...options, reserveTokens: 5000 }) && !shouldCompact(conversation(4, 1000), options));
+console.log();
+
+// Test 2: tool calls stay with their results
+console.log('📋 Test 2: tool-call pairing');
+let allPaired = true;
+let allRemovedWhole = true;
+let runs = 0;
+for (let size = 200; size <= 3000; size += 175) {
+  const messages = conversation(8, size);
+  const result = await compactMessages(messages, summarizer(), options);
+  if (!result) continue;
+  runs++;
+  allPaired &&= paired(result.messages);
+  allRemovedWhole &&= paired(result.removed) && !result.removed.some((m) => m.role === 'tool' && !result.removed.some((p) => p.toolCalls?.some((c) => c.id === m.toolCallId)));
+}
+check('kept messages never split a call from its results', runs > 10 && allPaired);
+check('summarised messages never split them either', allRemovedWhole);
+const result = await compactMessages(conversation(8, 1000), summarizer(), options);
+check('the system prompt stays first', result.messages[0].content === 'You are a coding assistant.');
+check('the summary follows it', result.messages[1].role === 'system' && result.messages[1].content.startsWith(SUMMARY_PREFIX));
+check('the latest user turn is kept', result.messages.some((m) => m.content === 'Task 7'));
+check('old turns are summarised', result.removed.some((m) => m.content === 'Task 0') && !result.messages.some((m) => m.content === 'Task 0'));
+console.log();
+
+// Test 3: size
+console.log('📋 Test 3: budget');
+check('the result is smaller', result.tokensAfter < result.tokensBefore && result.tokensAfter === estimateMessagesTokens(result.messages));
+check('kept turns fit keepRatio of the window', estimateMessagesTokens(result.messages.slice(2)) <= window * 0.4);
+const rambling = await compactMessages(conversation(8, 1000), summarizer('y'.repeat(100000)), options);
+check('an overlong summary is cut to its budget', estimateMessagesTokens([rambling.messages[1]]) <= 2048 + 20);
+check('and the context ends up under the threshold', !shouldCompact(rambling.messages, options));
+const provider = summarizer();
+await compactMessages(conversation(8, 5000), provider, options);
+check('the summary request is bounded', provider.requests[0].maxTokens === 2048 && !provider.requests[0].messages[1].content.includes('x'.repeat(2001)));
+console.log();
+
+// Test 4: nothing to do
+console.log('📋 Test 4: nothing to compact');
+check('a single turn is not compacted', (await compactMessages(conversation(1, 5000), summarizer(), options)) === null);
+const resummarised = await compactMessages([...result.messages, ...conversation(8, 1000).slice(1)], summarizer(), options);
+check('an earlier summary is folded into the new one', resummarised.removed.some((m) => m.content.startsWith(SUMMARY_PREFIX)) && resummarised.messages.filter((m) => m.content.startsWith(SUMMARY_PREFIX)).length === 1);
+console.log();
+
+console.log(failed === 0 ? '🏁 Context Tests Passed' : `🏁 ${failed} check(s) failed`);
+process.exit(failed === 0 ? 0 : 1);
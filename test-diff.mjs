@@ -0,0 +1,96 @@
+#!/usr/bin/env node
+/**
+ * Test unified diffs from the file-writing tools and edited approvals
+ */
+
+import { mkdtempSync, rmSync, readFileSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { diffFile, formatUnifiedDiff } from './dist/utils/diff.js';
+import { executeTool, previewFileChanges } from './dist/tools/index.js';
+import { Agent, ToolRegistry } from './dist/core/index.js';
+import { Workspace } from './dist/tools/workspace.js';
+
+console.log('🔍 Testing Diffs\n');
+
+let failed = 0;
+const check = (label, ok) => {
+  console.log(`${ok ? '✅' : '❌'} ${label}`);
+  if (!ok) failed++;
+};
+
+// Test 1: diff engine
+console.log('📋 Test 1: diffs');
+const before = Array.from({ length: 20 }, (_, i) => `line ${i + 1}`).join('\n') + '\n';
+const after = before.replace('line 2\n', 'line two\n').replace('line 18\n', 'line 18\nline 18b\n');
+const diff = diffFile('/tmp/x.txt', before, after);
+check('counts changed lines', diff.additions === 2 && diff.deletions === 1 && diff.status === 'modified');
+check('splits distant changes into hunks', diff.hunks.length === 2);
+check('hunk ranges follow diff -u', diff.hunks[0].oldStart === 1 && diff.hunks[0].oldLines === 5 && diff.hunks[1].newStart === 16);
+check('created files diff from nothing', diffFile('/tmp/y.txt', null, 'a\nb\n').hunks[0].oldStart === 0);
+check('identical text has no hunks', diffFile('/tmp/z.txt', before, before).hunks.length === 0);
+
+const text = formatUnifiedDiff([diffFile('/tmp/x.txt', 'a\nb\nc\n', 'a\nB\nc\n')]);
+check('formats a unified diff', text === '--- /tmp/x.txt\n+++ /tmp/x.txt\n@@ -1,3 +1,3 @@\n a\n-b\n+B\n c');
+console.log();
+
+// Test 2: tools return the diff they applied
+console.log('📋 Test 2: tool diffs');
+const dir = mkdtempSync(join(tmpdir(), 'zesbe-diff-'));
+const file = join(dir, 'a.ts');
+writeFileSync(file, 'const a = 1;\nconst b = 2;\n');
+
+const preview = await previewFileChanges('edit_file', { path: file, old_text: 'const b = 2;', new_text: 'const b = 3;' });
+check('preview does not write', readFileSync(file, 'utf-8') === 'const a = 1;\nconst b = 2;\n' && preview[0].additions === 1);
+check('no preview for other tools', (await previewFileChanges('read_file', { path: file })) === null);
+
+const edit = await executeTool('edit_file', { path: file, old_text: 'const b = 2;', new_text: 'const b = 3;' });
+check('edit_file returns its diff', edit.diff?.[0].deletions === 1 && edit.output.includes('+1 -1'));
+const created = await executeTool('write_file', { path: join(dir, 'new.ts'), content: 'x\n' });
+check('write_file marks new files', created.diff?.[0].status === 'created');
+console.log();
+
+// Test 3: the user edits a change before approving it
+console.log('📋 Test 3: edited approval');
+const requests = [];
+const provider = {
+  name: 'scripted',
+  async chat() {
+    throw new Error('not used');
+  },
+  async *chatStream(request) {
+    requests.push(request);
+    if (requests.length === 1) {
+      yield { type: 'tool_call', toolCall: { id: 'c1', name: 'write_file', arguments: { path: file, content: 'proposed\n' } } };
+    } else {
+      yield { type: 'text', content: 'ok' };
+    }
+  },
+};
+
+let shown;
+const agent = new Agent({
+  provider,
+  providerName: 'scripted',
+  model: 'm',
+  tools: new ToolRegistry({ mcp: false, workspace: new Workspace({ root: dir }) }),
+  permissions: {
+    rules: [],
+    fallback: 'ask',
+    ask: async (toolCall, diff) => {
+      shown = diff;
+      return { answer: 'once', arguments: { ...toolCall.arguments, content: 'edited\n' } };
+    },
+  },
+});
+for await (const event of agent.run([{ role: 'user', content: 'write it' }])) void event;
+
+check('prompt receives the diff', shown?.[0].hunks[0].lines.some((l) => l.type === 'add' && l.text === 'proposed'));
+check('writes the edited text', readFileSync(file, 'utf-8') === 'edited\n');
+check('tells the model about the edit', requests[1].messages.find((m) => m.role === 'tool')?.content.includes('+edited'));
+console.log();
+
+rmSync(dir, { recursive: true, force: true });
+
+console.log(failed === 0 ? '🏁 Diff Tests Passed' : `🏁 ${failed} check(s) failed`);
+process.exit(failed === 0 ? 0 : 1);
@@ -0,0 +1,92 @@
+#!/usr/bin/env node
+/**
+ * Test edit_file matching: ambiguity, fuzzy whitespace, CRLF and multi-edit
+ */
+
+import { mkdtempSync, rmSync, readFileSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+import { executeTool } from './dist/tools/index.js';
+
+console.log('🔍 Testing edit_file\n');
+
+let failed = 0;
+const check = (label, ok) => {
+  console.log(`${ok ? '✅' : '❌'} ${label}`);
+  if (!ok) failed++;
+};
+
+const dir = mkdtempSync(join(tmpdir(), 'zesbe-edit-'));
+const file = join(dir, 'a.js');
+const source = 'function a() {\n  return 1;\n}\n\nfunction b() {\n  return 1;\n}\n';
+const edit = (args) => executeTool('edit_file', { path: file, ...args });
+const reset = (text = source) => writeFileSync(file, text);
+
+// Test 1: ambiguous matches
+console.log('📋 Test 1: occurrences');
+reset();
+let result = await edit({ old_text: 'return 1;', new_text: 'return 2;' });
+check('rejects ambiguous matches', !result.success && result.error.includes('matches 2 places (lines 2, 6)'));
+check('leaves the file alone', readFileSync(file, 'utf-8') === source);
+
+result = await edit({ old_text: 'return 1;', new_text: 'return 2;', occurrence: '2' });
+check('replaces the chosen occurrence', result.success && readFileSync(file, 'utf-8').endsWith('function b() {\n  return 2;\n}\n'));
+
+reset();
+result = await edit({ old_text: 'return 1;', new_text: 'return $&;', replace_all: true });
+check('replace_all replaces every match literally', readFileSync(file, 'utf-8').split('return $&;').length === 3);
+check('notes how many were replaced', result.output.includes('replaced 2 occurrences'));
+
+reset();
+result = await edit({ old_text: 'return 1;', new_text: 'x', occurrence: 3 });
+check('rejects an out-of-range occurrence', !result.success && result.error.includes('occurrence 3'));
+console.log();
+
+// Test 2: fuzzy matching
+console.log('📋 Test 2: fuzzy matching');
+reset();
+result = await edit({ old_text: 'function a() {\n    return 1;\n}', new_text: 'function a() {\n  return 3;\n}' });
+check('matches despite indentation drift', result.success && readFileSync(file, 'utf-8').startsWith('function a() {\n  return 3;\n}'));
+check('says it matched loosely', result.output.includes('ignoring whitespace'));
+
+reset(source.replace(/\n/g, '\r\n'));
+result = await edit({ old_text: 'function b() {\n  return 1;', new_text: 'function b() {\n  return 4;' });
+check('matches LF text in a CRLF file', result.success && result.output.includes('line endings'));
+check('keeps CRLF line endings', readFileSync(file, 'utf-8').includes('function b() {\r\n  return 4;\r\n') && !/[^\r]\n/.test(readFileSync(file, 'utf-8')));
+console.log();
+
+// Test 3: diagnostics
+console.log('📋 Test 3: diagnostics');
+reset();
+result = await edit({ old_text: 'function b() {\n  return 9;\n}', new_text: 'x' });
+check('points at the closest region', !result.success && result.error.includes('Closest match at lines 5-7'));
+check('shows the first difference', result.error.includes('expected: "  return 9;"') && result.error.includes('found:    "  return 1;"'));
+const big = Array.from({ length: 20000 }, (_, i) => `const value${i} = ${i};`).join('\n');
+reset(big);
+const started = Date.now();
+result = await edit({ old_text: big.split('\n').slice(0, 2000).join('\n').replace('value1 ', 'value1x '), new_text: 'x' });
+check('large searches fall back to a plain message', !result.success && result.error.includes('Text not found') && !result.error.includes('Closest') && Date.now() - started < 2000);
+console.log();
+
+// Test 4: multi-edit
+console.log('📋 Test 4: multiple edits');
+reset();
+result = await edit({ edits: [
+  { old_text: 'function a()', new_text: 'function first()' },
+  { old_text: 'function b()', new_text: 'function second()' },
+] });
+check('applies every edit', result.success && readFileSync(file, 'utf-8').includes('first()') && readFileSync(file, 'utf-8').includes('second()'));
+
+reset();
+result = await edit({ edits: JSON.stringify([
+  { old_text: 'function a()', new_text: 'function first()' },
+  { old_text: 'function missing()', new_text: 'x' },
+]) });
+check('is all-or-nothing', !result.success && result.error.startsWith('Edit 2 of 2') && readFileSync(file, 'utf-8') === source);
+check('rejects mixing edits and old_text', !(await edit({ old_text: 'a', new_text: 'b', edits: [{ old_text: 'a', new_text: 'b' }] })).success);
+console.log();
+
+rmSync(dir, { recursive: true, force: true });
+
+console.log(failed === 0 ? '🏁 Edit Tests Passed' : `🏁 ${failed} check(s) failed`);
+process.exit(failed === 0 ? 0 : 1);
@@ -0,0 +1,115 @@
+#!/usr/bin/env node
+/**
+ * Test session export and import: Markdown fences, HTML escaping, the JSON
+ * round trip, and that imports get a new id instead of overwriting history
+ */
+
+import { mkdtempSync, rmSync, readFileSync, writeFileSync, existsSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+
+// Imports are saved to history, so point the config somewhere disposable
+const home = mkdtempSync(join(tmpdir(), 'zesbe-home-'));
+process.env.HOME = home;
+
+const { createSession, addMessage, saveSession, loadSession, SESSION_VERSION } = await import('./dist/utils/history.js');
+const { exportSession, exportSessionToFile, parseTranscript, importSession, runExportCommand } = await import('./dist/utils/export.js');
+
+console.log('🔍 Testing session export\n');
+
+let failed = 0;
+const check = (label, ok) => {
+  console.log(`${ok ? '✅' : '❌'} ${label}`);
+  if (!ok) failed++;
+};
+
+const hostile = '<script>alert("x")</script> & <img src=x onerror=alert(1)>';
+const session = createSession('anthropic', 'claude-sonnet-4');
+session.tags = ['auth'];
+session.summary = 'Earlier: looked at <form> handling';
+addMessage(session, 'user', `Why does ${hostile} show up?`);
+addMessage(session, 'assistant', 'Let me look.\n```js\nconsole.log(1)\n```', {
+  thinking: 'check <template> tags',
+  toolCalls: [{ id: 'c1', name: 'read_file', arguments: { path: '<evil>.html' } }],
+});
+addMessage(session, 'tool', 'line with ``` fence\n````\nand </pre><script>x</script>', { toolName: 'read_file', toolCallId: 'c1', success: false });
+addMessage(session, 'assistant', 'The template escapes nothing.');
+// Set after the first user message, which would replace it
+session.title = `Fix <b>login</b> & "logout"`;
+
+// Test 1: Markdown
+console.log('📋 Test 1: markdown');
+const markdown = exportSession(session, 'md');
+const fenced = markdown.match(/^(`{5,})\n[\s\S]*?\n\1$/m);
+check('tool output is fenced longer than any backtick run in it', fenced?.[0].includes('````\nand </pre>'));
+check('tool calls show their arguments', markdown.includes('**Tool call:** `read_file`') && markdown.includes('"path": "<evil>.html"'));
+check('failed tools are flagged', markdown.includes('🔧 Tool: read_file · failed'));
+check('thinking and output fold by default', markdown.includes('<summary>Thinking</summary>') && !exportSession(session, 'md', { collapse: false }).includes('<details>'));
+check('thinking can be left out', !exportSession(session, 'md', { thinking: false }).includes('check <template> tags'));
+console.log();
+
+// Test 2: HTML
+console.log('📋 Test 2: html');
+const html = exportSession(session, 'html');
+const body = html.slice(html.indexOf('<body>'));
+check('message content is escaped', body.includes('&lt;script&gt;alert(&quot;x&quot;)&lt;/script&gt; &amp; &lt;img') && !body.includes('<script>'));
+check('the title is escaped', html.includes('<title>Fix &lt;b&gt;login&lt;/b&gt; &amp; &quot;logout&quot;</title>') && !html.includes('<b>login'));
+check('tool output cannot close its <pre>', body.includes('&lt;/pre&gt;&lt;script&gt;x&lt;/script&gt;'));
+check('tool arguments, thinking and summary are escaped', body.includes('&lt;evil&gt;.html') && body.includes('check &lt;template&gt; tags') && body.includes('looked at &lt;form&gt;'));
+check('the only elements are the template\'s own', !/<(script|img|b|template|form|evil)\b/.test(body));
+check('sections can start open', exportSession(session, 'html', { collapse: false }).includes('<details open>'));
+console.log();
+
+// Test 3: JSON round trip
+console.log('📋 Test 3: json');
+const json = exportSession(session, 'json');
+const transcript = JSON.parse(json);
+check('the transcript is marked and versioned', transcript.format === 'zesbe-transcript' && transcript.version === SESSION_VERSION);
+const parsed = parseTranscript(json);
+check('content survives unescaped', parsed.messages[0].content === `Why does ${hostile} show up?` && parsed.title === session.title);
+check('tool calls and results survive', parsed.messages[1].toolCalls?.[0]?.arguments.path === '<evil>.html' && parsed.messages[2].toolCallId === 'c1' && parsed.messages[2].success === false);
+check('tags and summary survive', parsed.tags?.[0] === 'auth' && parsed.summary === session.summary);
+check('thinking can be left out', !exportSession(session, 'json', { thinking: false }).includes('check <template> tags'));
+console.log();
+
+// Test 4: import
+console.log('📋 Test 4: import');
+await saveSession(session);
+const dir = mkdtempSync(join(tmpdir(), 'zesbe-export-'));
+const file = await exportSessionToFile(session, 'json', join(dir, 'chat.json'));
+const imported = await importSession(file);
+check('an import gets a new id', imported.id !== session.id && parsed.id !== session.id && imported.id !== parsed.id);
+check('and is saved to history', (await loadSession(imported.id))?.messages.length === 4);
+check('the original is untouched', (await loadSession(session.id))?.title === session.title);
+check('importing twice makes two sessions', (await importSession(file)).id !== imported.id);
+writeFileSync(join(dir, 'raw.json'), JSON.stringify(session));
+check('saved session files import too', (await importSession(join(dir, 'raw.json'))).messages.length === 4);
+const rejects = (text, message) => {
+  try {
+    parseTranscript(text);
+    return false;
+  } catch (error) {
+    return error.message.includes(message);
+  }
+};
+check('invalid JSON is rejected', rejects('{oops', 'Invalid JSON transcript'));
+check('other JSON is rejected', rejects('{"hello": 1}', 'missing messages'));
+check('newer versions are rejected', rejects(JSON.stringify({ ...transcript, session: { ...transcript.session, version: SESSION_VERSION + 1 } }), 'newer than supported'));
+console.log();
+
+// Test 5: /export
+console.log('📋 Test 5: /export');
+const target = join(dir, 'out.html');
+check('/export writes the chosen format', (await runExportCommand(['html', target], session)).includes('Exported 4 messages') && readFileSync(target, 'utf-8').startsWith('<!DOCTYPE html>'));
+const markdownTarget = join(dir, 'out.md');
+await runExportCommand([markdownTarget], session);
+check('Markdown is the default', existsSync(markdownTarget) && readFileSync(markdownTarget, 'utf-8').startsWith(`# ${session.title}`));
+check('an empty session has nothing to export', (await runExportCommand([], createSession('x', 'y'))) === 'Nothing to export yet.');
+check('write errors are reported', (await runExportCommand(['md', join(dir, 'missing', 'x.md')], session)).startsWith('❌ Export failed'));
+console.log();
+
+rmSync(dir, { recursive: true, force: true });
+rmSync(home, { recursive: true, force: true });
+
+console.log(failed === 0 ? '🏁 Export Tests Passed' : `🏁 ${failed} check(s) failed`);
+process.exit(failed === 0 ? 0 : 1);
@@ -0,0 +1,120 @@
+#!/usr/bin/env node
+/**
+ * Test GeminiProvider against a local mock generateContent server
+ */
+
+import { createServer } from 'http';
+import { GeminiProvider } from './dist/ai/index.js';
+
+console.log('🔍 Testing Gemini Provider (mock server)\n');
+
+let lastBody = null;
+let lastUrl = null;
+let echoLastTool = false; // Answer with a call to the last declared tool
+
+const server = createServer((req, res) => {
+  let raw = '';
+  req.on('data', (chunk) => { raw += chunk; });
+  req.on('end', () => {
+    lastBody = JSON.parse(raw);
+    lastUrl = req.url;
+
+    if (req.url.includes(':generateContent')) {
+      res.writeHead(200, { 'Content-Type': 'application/json' });
+      res.end(JSON.stringify({
+        responseId: 'resp_1',
+        modelVersion: 'gemini-test',
+        candidates: [{
+          content: { role: 'model', parts: [{ functionCall: { name: echoLastTool ? lastBody.tools[0].functionDeclarations.at(-1).name : 'read_file', args: { path: 'package.json' } } }] },
+          finishReason: 'STOP',
+        }],
+        usageMetadata: { promptTokenCount: 10, candidatesTokenCount: 5, totalTokenCount: 15 },
+      }));
+      return;
+    }
+
+    res.writeHead(200, { 'Content-Type': 'text/event-stream' });
+    const chunks = [
+      { candidates: [{ content: { role: 'model', parts: [{ text: 'Hello' }] } }] },
+      { candidates: [{ content: { role: 'model', parts: [{ text: ' world' }] } }] },
+      { candidates: [{ content: { role: 'model', parts: [{ functionCall: { name: 'list_directory', args: { path: 'src' } } }] }, finishReason: 'STOP' }] },
+    ];
+    res.end(chunks.map((c) => `data: ${JSON.stringify(c)}\r\n\r\n`).join(''));
+  });
+});
+
+await new Promise((resolve) => server.listen(0, resolve));
+const baseUrl = `http://127.0.0.1:${server.address().port}/v1beta`;
+const provider = new GeminiProvider('test-key', baseUrl, 'gemini-test');
+
+let failed = 0;
+const check = (label, ok) => {
+  console.log(`${ok ? '✅' : '❌'} ${label}`);
+  if (!ok) failed++;
+};
+
+const messages = [
+  { role: 'system', content: 'You are a test.' },
+  { role: 'user', content: 'Read package.json' },
+  { role: 'assistant', content: '', toolCalls: [{ id: 'call_0', name: 'read_file', arguments: { path: 'package.json' } }] },
+  { role: 'tool', content: '{"name":"zesbe"}', toolCallId: 'call_0' },
+];
+const tools = [{
+  name: 'read_file',
+  description: 'Read a file',
+  parameters: {
+    type: 'object',
+    properties: { path: { type: 'string', description: 'Path' } },
+    required: ['path'],
+    additionalProperties: false,
+  },
+}];
+
+// Test 1: non-streaming chat
+console.log('📋 Test 1: chat()');
+const response = await provider.chat({ messages, tools });
+check('calls generateContent for the model', lastUrl === '/v1beta/models/gemini-test:generateContent');
+check('sends system instruction', lastBody.systemInstruction.parts[0].text === 'You are a test.');
+check('maps tool call to functionCall part', lastBody.contents[1].parts[0].functionCall.name === 'read_file');
+check('maps tool result to functionResponse by name', lastBody.contents[2].parts[0].functionResponse.name === 'read_file');
+check('translates tools to functionDeclarations', lastBody.tools[0].functionDeclarations[0].parameters.required[0] === 'path');
+check('drops unsupported schema keys', !('additionalProperties' in lastBody.tools[0].functionDeclarations[0].parameters));
+check('returns tool calls with ids', response.toolCalls?.[0]?.id && response.toolCalls[0].arguments.path === 'package.json');
+check('maps finish reason', response.finishReason === 'tool_calls');
+check('maps usage', response.usage?.totalTokens === 15);
+console.log();
+
+// Test 2: streaming chat
+console.log('📋 Test 2: chatStream()');
+const chunks = [];
+for await (const chunk of provider.chatStream({ messages, tools })) {
+  chunks.push(chunk);
+}
+const text = chunks.filter((c) => c.type === 'text').map((c) => c.content).join('');
+const toolCall = chunks.find((c) => c.type === 'tool_call')?.toolCall;
+check('calls streamGenerateContent with alt=sse', lastUrl === '/v1beta/models/gemini-test:streamGenerateContent?alt=sse');
+check('streams text', text === 'Hello world');
+check('streams function calls', toolCall?.name === 'list_directory' && toolCall.arguments.path === 'src');
+check('ends with done', chunks[chunks.length - 1].type === 'done');
+console.log();
+
+// Test 3: tool names the API would reject
+console.log('📋 Test 3: tool names');
+const long = 'mcp_server_' + 'x'.repeat(70);
+const odd = [...tools, ...['mcp_my server_do:thing', `${long}_a`, `${long}_b`].map((name) => ({ ...tools[0], name }))];
+echoLastTool = true;
+const renamed = await provider.chat({
+  messages: [...messages, { role: 'assistant', content: '', toolCalls: [{ id: 'call_9', name: 'mcp_my server_do:thing', arguments: {} }] }, { role: 'tool', content: 'ok', toolCallId: 'call_9' }],
+  tools: odd,
+});
+echoLastTool = false;
+const declared = lastBody.tools[0].functionDeclarations.map((d) => d.name);
+check('declares valid, unique names', declared.every((n) => /^[a-zA-Z0-9_.-]{1,64}$/.test(n)) && new Set(declared).size === declared.length);
+check('keeps names that are already valid', declared[0] === 'read_file');
+check('uses the declared name in history', lastBody.contents[3].parts[0].functionCall.name === declared[1] && lastBody.contents[4].parts[0].functionResponse.name === declared[1]);
+check('maps returned names back', renamed.toolCalls?.[0]?.name === `${long}_b`);
+console.log();
+
+server.close();
+console.log(failed === 0 ? '🏁 Gemini Provider Tests Passed' : `🏁 ${failed} check(s) failed`);
+process.exit(failed === 0 ? 0 : 1);
@@ -0,0 +1,135 @@
+#!/usr/bin/env node
+/**
+ * Test history search, tags, pins and transcript export against a
+ * throwaway home directory
+ */
+
+import { mkdtempSync, rmSync, utimesSync, writeFileSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+
+const home = mkdtempSync(join(tmpdir(), 'zesbe-history-'));
+process.env.HOME = home;
+
+// Imported after HOME is set so CONFIG_DIR points at the temp dir
+const { createSession, addMessage, saveSession, loadSession, deleteSession, toApiMessages, migrateSession, HISTORY_DIR } = await import('./dist/utils/history.js');
+const { searchSessions, parseSearchQuery, updateSessionMeta, runHistoryCommand } = await import('./dist/utils/history-index.js');
+const { exportSession, parseTranscript } = await import('./dist/utils/export.js');
+
+console.log('🔍 Testing History Search\n');
+
+let failed = 0;
+const check = (label, ok) => {
+  console.log(`${ok ? '✅' : '❌'} ${label}`);
+  if (!ok) failed++;
+};
+
+const old = createSession('anthropic', 'claude-sonnet-4');
+addMessage(old, 'user', 'Why does the retry loop never back off?');
+addMessage(old, 'assistant', 'The retry delay is reset on every attempt.');
+old.updatedAt = '2025-01-01T00:00:00.000Z';
+await saveSession(old);
+
+const recent = createSession('openai', 'gpt-4o');
+addMessage(recent, 'user', 'Write a README');
+addMessage(recent, 'assistant', 'Here is a README that mentions retry settings.', { provider: 'minimax', model: 'MiniMax-M2' });
+await saveSession(recent);
+
+// Test 1: keyword search ranks by matches and returns a snippet
+let results = await searchSessions({ query: 'retry' });
+check('finds both sessions', results.length === 2);
+check('ranks the better match first', results[0].session.id === old.id);
+check('returns a snippet', results[1].snippet?.includes('retry settings'));
+check('all keywords must match', (await searchSessions({ query: 'retry readme' })).length === 1);
+
+// Test 2: filters
+check('provider filter includes fallback providers', (await searchSessions({ provider: 'minimax' }))[0]?.session.id === recent.id);
+check('model filter matches substrings', (await searchSessions({ model: 'sonnet' }))[0]?.session.id === old.id);
+check('since filter', (await searchSessions(parseSearchQuery('since:30d'))).length === 1);
+check('inline filters parse', parseSearchQuery('retry provider:openai tag:#Work is:pinned').query === 'retry');
+
+// Test 3: tags and pins, with the live session kept in sync
+await updateSessionMeta(old.id, { addTags: ['#Bug', 'work'], pinned: true }, old);
+results = await searchSessions({});
+check('pinned sessions come first', results[0].session.id === old.id && results[0].session.pinned);
+check('tags are normalised', results[0].session.tags.join(',') === 'bug,work');
+check('tag filter', (await searchSessions({ tag: 'BUG' })).length === 1);
+
+await runHistoryCommand(['untag', 'work'], old);
+check('untag updates the live session', old.tags.join(',') === 'bug');
+
+// Test 4: the index notices changed and deleted files
+addMessage(recent, 'user', 'Add a changelog section');
+await saveSession(recent);
+const future = new Date(Date.now() + 60_000);
+utimesSync(join(home, '.zesbe-modern', 'history', `${recent.id}.json`), future, future);
+check('reindexes changed sessions', (await searchSessions({ query: 'changelog' })).length === 1);
+await deleteSession(old.id);
+check('drops deleted sessions', (await searchSessions({})).length === 1);
+
+// Test 5: transcripts render tool calls and round-trip through JSON
+const tools = createSession('openai', 'gpt-4o');
+addMessage(tools, 'user', 'List files <b>now</b>');
+addMessage(tools, 'assistant', '', { toolCalls: [{ id: 'c1', name: 'run_command', arguments: { command: 'ls' } }] });
+addMessage(tools, 'tool', 'a.txt\n```\nb.txt', { toolCallId: 'c1', toolName: 'run_command', success: true });
+addMessage(tools, 'assistant', 'Two files.', { thinking: 'the user wants a listing' });
+
+const markdown = exportSession(tools, 'md');
+check('markdown shows the tool call', markdown.includes('**Tool call:** `run_command`'));
+check('markdown fences survive backticks in output', markdown.includes('````\na.txt'));
+check('markdown collapses thinking', markdown.includes('<summary>Thinking</summary>'));
+check('markdown can expand', !exportSession(tools, 'md', { collapse: false }).includes('<details>'));
+check('html escapes content', exportSession(tools, 'html').includes('&lt;b&gt;now'));
+check('thinking can be left out', !exportSession(tools, 'json', { thinking: false }).includes('listing'));
+
+const imported = parseTranscript(exportSession(tools, 'json'));
+check('import assigns a new id', imported.id !== tools.id && imported.messages.length === 4);
+check('imported tool calls are resumable', toApiMessages(imported).some((m) => m.toolCalls?.[0]?.id === 'c1'));
+let rejected = false;
+try {
+  parseTranscript('{"hello": 1}');
+} catch {
+  rejected = true;
+}
+check('rejects non-transcripts', rejected);
+console.log();
+
+// Test 6: tool calls replay paired with their results
+const pairs = createSession('openai', 'gpt-4o');
+addMessage(pairs, 'user', 'Look around');
+addMessage(pairs, 'assistant', 'Checking', { toolCalls: [{ id: 'a', name: 'read_file', arguments: {} }, { id: 'b', name: 'git_status', arguments: {} }] });
+addMessage(pairs, 'tool', 'status', { toolCallId: 'b' });
+addMessage(pairs, 'tool', 'file', { toolCallId: 'a' });
+addMessage(pairs, 'assistant', '', { toolCalls: [{ id: 'c', name: 'run_command', arguments: {} }] });
+addMessage(pairs, 'user', 'Stop');
+const replay = toApiMessages(pairs);
+check('results follow their calls in call order', JSON.stringify(replay.slice(1, 4).map((m) => m.toolCallId || m.toolCalls.length)) === '[2,"a","b"]');
+check('results carry their output', replay[2].content === 'file' && replay[3].content === 'status');
+check('calls without results are dropped', !replay.some((m) => m.toolCalls?.[0]?.id === 'c') && replay.at(-1).content === 'Stop');
+
+// Test 7: v1 sessions are migrated
+const v1 = {
+  id: 'session_v1',
+  title: 'Old',
+  provider: 'openai',
+  model: 'gpt-4o',
+  createdAt: '2024-01-01T00:00:00.000Z',
+  updatedAt: '2024-01-01T00:00:00.000Z',
+  messages: [
+    { role: 'user', content: 'List files', timestamp: '2024-01-01T00:00:00.000Z' },
+    { role: 'tool', content: 'a.txt', timestamp: '2024-01-01T00:00:01.000Z' },
+    { role: 'assistant', content: 'One file.', timestamp: '2024-01-01T00:00:02.000Z' },
+  ],
+};
+const migrated = migrateSession(structuredClone(v1));
+check('migration sets the version', migrated.version === 2);
+check('v1 tool output becomes a note', migrated.messages[1].role === 'system' && migrated.messages[1].content.includes('a.txt'));
+check('migrated sessions replay cleanly', JSON.stringify(toApiMessages(migrated).map((m) => m.role)) === '["user","assistant"]');
+writeFileSync(join(HISTORY_DIR, 'session_v1.json'), JSON.stringify(v1));
+check('loading migrates', (await loadSession('session_v1'))?.messages[1].role === 'system');
+console.log();
+
+rmSync(home, { recursive: true, force: true });
+
+console.log(failed === 0 ? '🏁 History Tests Passed' : `🏁 ${failed} check(s) failed`);
+process.exit(failed === 0 ? 0 : 1);
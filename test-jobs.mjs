@@ -0,0 +1,120 @@
+#!/usr/bin/env node
+/**
+ * Test background jobs: start, incremental output, stdin, status, kill and
+ * cleanup on exit
+ */
+
+import { mkdtempSync, rmSync, readFileSync, existsSync } from 'fs';
+import { execFileSync } from 'child_process';
+import { tmpdir } from 'os';
+import { join } from 'path';
+
+// Config is read from the home directory, so point it somewhere disposable
+const home = mkdtempSync(join(tmpdir(), 'zesbe-home-'));
+process.env.HOME = home;
+
+const { executeTool } = await import('./dist/tools/index.js');
+const { jobManager, runJobsCommand } = await import('./dist/tools/jobs.js');
+const { loadCommandPolicy } = await import('./dist/tools/command.js');
+
+console.log('🔍 Testing background jobs\n');
+
+let failed = 0;
+const check = (label, ok) => {
+  console.log(`${ok ? '✅' : '❌'} ${label}`);
+  if (!ok) failed++;
+};
+
+const dir = mkdtempSync(join(tmpdir(), 'zesbe-jobs-'));
+const defaults = await loadCommandPolicy();
+const run = (name, args) => executeTool(name, args, { commandPolicy: { ...defaults, maxOutput: 2000 } });
+const sleep = (ms) => new Promise((r) => setTimeout(r, ms));
+// Killed processes can linger as zombies until init reaps them
+const alive = (pid) => {
+  try {
+    return !/\) Z /.test(readFileSync(`/proc/${pid}/stat`, 'utf-8'));
+  } catch {
+    return false;
+  }
+};
+
+// Test 1: start and read
+console.log('📋 Test 1: start and read');
+const started = await run('start_job', { command: 'echo ready; sleep 1; echo tick; sleep 30', cwd: dir });
+const id = Number(started.output.match(/Started job (\d+)/)?.[1]);
+check('start_job returns a handle and early output', started.success && id === 1 && started.output.includes('ready'));
+const waited = await run('read_job_output', { id: String(id), wait: '5' });
+check('read_job_output waits for new output', waited.output.includes('tick') && !waited.output.includes('ready'));
+const empty = await run('read_job_output', { id });
+check('output is only returned once', empty.output.includes('(no new output)') && empty.output.includes('running'));
+const status = await run('job_status', {});
+check('job_status lists jobs', status.output.includes('1\trunning') && status.output.includes('sleep 30'));
+check('an empty id lists them too', (await run('job_status', { id: '' })).output === status.output);
+console.log();
+
+// Test 2: stdin
+console.log('📋 Test 2: stdin');
+const cat = await run('start_job', { command: 'tr a-z A-Z' });
+const catId = Number(cat.output.match(/Started job (\d+)/)?.[1]);
+await run('write_job_input', { id: catId, input: 'hello\n', close: 'true' });
+const upper = await run('read_job_output', { id: catId, wait: 5 });
+await sleep(200);
+check('write_job_input feeds stdin', upper.output.includes('HELLO'));
+check('closing stdin lets the job finish', jobManager.get(catId).status === 'exited' && jobManager.get(catId).code === 0);
+const late = await run('write_job_input', { id: catId, input: 'x' });
+check('writing to a finished job fails', !late.success && late.error.includes('not running'));
+console.log();
+
+// Test 3: kill
+console.log('📋 Test 3: kill');
+const tree = await run('start_job', { command: 'sleep 60 & sleep 60 & wait' });
+const treeId = Number(tree.output.match(/Started job (\d+)/)?.[1]);
+const children = () => execFileSync('ps', ['-o', 'pid=', '--ppid', String(jobManager.get(treeId).pid)], { encoding: 'utf-8' }).trim().split(/\s+/).filter(Boolean).map(Number);
+const pids = children();
+const killed = await run('kill_job', { id: treeId });
+await sleep(500);
+check('kill_job stops the job', killed.success && jobManager.get(treeId).status === 'killed');
+check('kill_job stops what the job started', pids.length === 2 && pids.every((pid) => !alive(pid)));
+check('unknown jobs are reported', (await run('kill_job', { id: 99 })).error?.startsWith('Unknown job: 99'));
+check('only known signals are sent', (await run('kill_job', { id, signal: 'SIGSTOP' })).error === 'Invalid signal: SIGSTOP');
+console.log();
+
+// Test 4: policy and buffers
+console.log('📋 Test 4: policy and buffers');
+const denied = await run('start_job', { command: 'sudo id' });
+check('the command policy applies', !denied.success && denied.error.includes('"type":"policy_violation"'));
+const loud = await run('start_job', { command: 'sleep 1.5; seq 1 2000' });
+const loudId = Number(loud.output.match(/Started job (\d+)/)?.[1]);
+await sleep(1500);
+const tail = await run('read_job_output', { id: loudId });
+check('old output is dropped past the limit', tail.output.includes('characters of earlier output were dropped') && tail.output.trimEnd().endsWith('2000'));
+console.log();
+
+// Test 5: /jobs
+console.log('📋 Test 5: /jobs');
+check('/jobs lists jobs', runJobsCommand([]).includes('**#1**') && runJobsCommand([]).includes('killed'));
+check('/jobs output shows the tail', runJobsCommand(['output', String(catId)]).includes('HELLO'));
+check('/jobs kill stops a job', runJobsCommand(['kill', String(id)]).includes('Stopping job #1'));
+check('/jobs rejects bad input', runJobsCommand(['kill', 'x']).startsWith('Usage'));
+console.log();
+
+// Test 6: cleanup on exit
+console.log('📋 Test 6: cleanup on exit');
+const pidFile = join(dir, 'pid');
+const script = `
+  const { jobManager } = await import(${JSON.stringify(new URL('./dist/tools/jobs.js', import.meta.url).href)});
+  const { loadCommandPolicy } = await import(${JSON.stringify(new URL('./dist/tools/command.js', import.meta.url).href)});
+  await jobManager.start('echo $$ > ${pidFile}; sleep 60', ${JSON.stringify(dir)}, await loadCommandPolicy());
+  setTimeout(() => process.exit(0), 300);
+`;
+execFileSync(process.execPath, ['--input-type=module', '-e', script], { timeout: 10000 });
+await sleep(200);
+check('jobs are killed when the process exits', existsSync(pidFile) && !alive(Number(readFileSync(pidFile, 'utf-8'))));
+console.log();
+
+jobManager.killAll();
+rmSync(dir, { recursive: true, force: true });
+rmSync(home, { recursive: true, force: true });
+
+console.log(failed === 0 ? '🏁 Job Tests Passed' : `🏁 ${failed} check(s) failed`);
+process.exit(failed === 0 ? 0 : 1);
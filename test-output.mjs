@@ -0,0 +1,104 @@
+#!/usr/bin/env node
+/**
+ * Test the tool output policy: head and tail kept, the rest saved to a
+ * file the model can page through, and a note saying what was elided
+ */
+
+import { mkdtempSync, rmSync, readdirSync, readFileSync, writeFileSync, statSync, utimesSync } from 'fs';
+import { tmpdir } from 'os';
+import { basename, dirname, join } from 'path';
+
+// Config is read from the home directory, so point it somewhere disposable
+const home = mkdtempSync(join(tmpdir(), 'zesbe-home-'));
+process.env.HOME = home;
+
+const { limitOutput } = await import('./dist/tools/output.js');
+const { Agent, ToolRegistry } = await import('./dist/core/index.js');
+const { executeTool } = await import('./dist/tools/index.js');
+const { loadWorkspace } = await import('./dist/tools/workspace.js');
+
+console.log('🔍 Testing tool output policy\n');
+
+let failed = 0;
+const check = (label, ok) => {
+  console.log(`${ok ? '✅' : '❌'} ${label}`);
+  if (!ok) failed++;
+};
+
+const numbered = (n) => Array.from({ length: n }, (_, i) => `line ${i + 1}`).join('\n') + '\n';
+const savedPath = (text) => text.match(/saved in (\S+);/)?.[1];
+
+// Test 1: truncation
+console.log('📋 Test 1: truncation');
+const small = 'short output';
+check('small outputs pass through', (await limitOutput('t', small, { maxTokens: 100 })) === small);
+const big = numbered(5000);
+const cut = await limitOutput('read_file', big, { maxTokens: 1000 });
+check('fits the budget', cut.length <= 1000 * 4);
+check('keeps the head', cut.startsWith('line 1\nline 2\n'));
+check('keeps the tail', cut.includes('line 4999\nline 5000\n['));
+const [, from, to] = cut.match(/\[\.\.\. lines ([\d,]+)-([\d,]+) elided: /).map((n) => Number(n.replaceAll(',', '')));
+check('names the elided lines exactly', !cut.includes(`line ${from}\n`) && cut.includes(`line ${from - 1}\n`) && cut.includes(`line ${to + 1}\n`) && !cut.includes(`line ${to}\n`));
+check('reports the totals', cut.includes(`${big.length.toLocaleString('en-US')} characters in 5,000 lines`));
+check('headRatio moves the split', (await limitOutput('t', big, { maxTokens: 1000, headRatio: 0.1 })).indexOf('elided') < cut.indexOf('elided'));
+const minified = 'x'.repeat(50000);
+const cutLine = await limitOutput('t', minified, { maxTokens: 500 });
+check('cuts a single huge line', cutLine.length <= 2000 && cutLine.includes('line 1 elided (cut mid-line)'));
+console.log();
+
+// Test 2: spill file
+console.log('📋 Test 2: spill file');
+const path = savedPath(cut);
+check('saves the full output', path && readFileSync(path, 'utf-8') === big);
+check('saves it where only the user can read it', path.startsWith(join(home, '.zesbe-modern')) && (statSync(path).mode & 0o777) === 0o600 && (statSync(dirname(path)).mode & 0o777) === 0o700);
+const root = mkdtempSync(join(tmpdir(), 'zesbe-output-'));
+const workspace = await loadWorkspace(root);
+const page = await executeTool('read_file', { path, line_start: String(from), line_end: String(from + 2) }, { workspace });
+check('the workspace lets read_file page through it', page.success && page.output.includes(`line ${from}`) && page.output.includes(`line ${from + 2}`));
+const spillDir = dirname(path);
+for (let i = 0; i < 120; i++) {
+  const old = join(spillDir, `old-${i}.txt`);
+  writeFileSync(old, 'secret');
+  utimesSync(old, new Date(2020, 0, 1, 0, i), new Date(2020, 0, 1, 0, i));
+}
+const latest = savedPath(await limitOutput('t', big, { maxTokens: 100 }));
+const kept = readdirSync(spillDir);
+check('old saved outputs are pruned', kept.length === 100 && kept.includes(basename(latest)) && kept.includes(basename(path)) && !kept.includes('old-0.txt'));
+console.log();
+
+// Test 3: agent budget
+console.log('📋 Test 3: agent budget');
+writeFileSync(join(root, 'big.txt'), numbered(2000));
+function scriptedProvider(turns) {
+  const requests = [];
+  return {
+    name: 'scripted',
+    requests,
+    async chat() {
+      throw new Error('not used');
+    },
+    async *chatStream(request) {
+      requests.push(request);
+      for (const chunk of turns[requests.length - 1] || []) yield chunk;
+    },
+  };
+}
+const run = async (options) => {
+  const provider = scriptedProvider([[{ type: 'tool_call', toolCall: { id: 'c1', name: 'read_file', arguments: { path: join(root, 'big.txt') } } }], [{ type: 'text', content: 'ok' }]]);
+  const agent = new Agent({ provider, providerName: 'scripted', tools: new ToolRegistry({ mcp: false, workspace }), ...options });
+  for await (const event of agent.run([{ role: 'user', content: 'read it' }]));
+  return provider.requests[1].messages.find((m) => m.role === 'tool').content;
+};
+const roomy = await run({ model: 'claude-sonnet' });
+check('a large window takes the whole file', !roomy.includes('elided') && roomy.includes('line 2000'));
+const tight = await run({ model: 'unknown-model', providerName: 'ollama' });
+check('a small window gets head, tail and a note', tight.includes('elided') && tight.length <= 8192 * 0.1 * 4 && tight.includes('line 2000'));
+const fixed = await run({ model: 'claude-sonnet', toolOutput: { maxTokens: 600 } });
+check('toolOutput.maxTokens overrides the share', fixed.length <= 600 * 4 && savedPath(fixed));
+console.log();
+
+rmSync(root, { recursive: true, force: true });
+rmSync(home, { recursive: true, force: true });
+
+console.log(failed === 0 ? '🏁 Output Policy Tests Passed' : `🏁 ${failed} check(s) failed`);
+process.exit(failed === 0 ? 0 : 1);
@@ -0,0 +1,134 @@
+#!/usr/bin/env node
+/**
+ * Test apply_patch: fuzzy hunks, create/delete/rename and all-or-nothing
+ */
+
+import { mkdtempSync, rmSync, readFileSync, writeFileSync, existsSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+
+// Checkpoints live under the home directory, so point it somewhere disposable
+const home = mkdtempSync(join(tmpdir(), 'zesbe-home-'));
+process.env.HOME = home;
+
+const { executeTool, previewFileChanges } = await import('./dist/tools/index.js');
+const { parsePatch } = await import('./dist/tools/patch.js');
+const { createCheckpoint, restoreCheckpoints } = await import('./dist/utils/checkpoints.js');
+
+console.log('🔍 Testing apply_patch\n');
+
+let failed = 0;
+const check = (label, ok) => {
+  console.log(`${ok ? '✅' : '❌'} ${label}`);
+  if (!ok) failed++;
+};
+
+const dir = mkdtempSync(join(tmpdir(), 'zesbe-patch-'));
+const read = (name) => readFileSync(join(dir, name), 'utf-8');
+const lines = Array.from({ length: 30 }, (_, i) => `line ${i + 1}`);
+writeFileSync(join(dir, 'a.txt'), lines.join('\n') + '\n');
+writeFileSync(join(dir, 'old.txt'), 'keep me\n');
+writeFileSync(join(dir, 'gone.txt'), 'bye\n');
+const apply = (patch, checkpoint) => executeTool('apply_patch', { patch, path: dir }, { checkpoint });
+
+// Test 1: parsing
+console.log('📋 Test 1: parsing');
+const parsed = parsePatch([
+  'diff --git a/x.txt b/y.txt',
+  'similarity index 90%',
+  'rename from x.txt',
+  'rename to y.txt',
+  '--- a/x.txt',
+  '+++ b/y.txt',
+  '@@ -1,2 +1,2 @@',
+  ' same',
+  '-old',
+  '+new',
+  '--- /dev/null',
+  '+++ b/z.txt',
+  '@@ -0,0 +1 @@',
+  '+hello',
+].join('\n'));
+check('splits files', parsed.length === 2);
+check('reads git renames', parsed[0].oldPath === 'x.txt' && parsed[0].newPath === 'y.txt' && parsed[0].hunks[0].lines.length === 3);
+check('reads created files', parsed[1].oldPath === null && parsed[1].newPath === 'z.txt');
+console.log();
+
+// Test 2: fuzzy offsets across several files
+console.log('📋 Test 2: applying');
+const patch = [
+  '--- a/a.txt',
+  '+++ b/a.txt',
+  '@@ -2,3 +2,3 @@',
+  ' line 5',
+  '-line 6',
+  '+line six',
+  ' line 7',
+  '@@ -20,3 +20,4 @@',
+  ' line 20   ',
+  '+line 20.5',
+  ' line 21',
+  '--- /dev/null',
+  '+++ b/new/created.txt',
+  '@@ -0,0 +1,2 @@',
+  '+first',
+  '+second',
+  '--- a/gone.txt',
+  '+++ /dev/null',
+  '@@ -1 +0,0 @@',
+  '-bye',
+  'diff --git a/old.txt b/renamed.txt',
+  'similarity index 100%',
+  'rename from old.txt',
+  'rename to renamed.txt',
+].join('\n');
+
+const preview = await previewFileChanges('apply_patch', { patch, path: dir });
+check('previews without writing', preview.length === 4 && read('a.txt').includes('line 6\n'));
+
+const checkpoint = createCheckpoint('patch');
+const result = await apply(patch, checkpoint);
+check('applies the patch', result.success);
+check('finds hunks that moved', read('a.txt').includes('line 5\nline six\nline 7') && result.output.includes('offset +3'));
+check('tolerates whitespace drift', read('a.txt').includes('line 20\nline 20.5\nline 21') && result.output.includes('ignoring trailing whitespace'));
+check('creates files', read('new/created.txt') === 'first\nsecond\n');
+check('deletes files', !existsSync(join(dir, 'gone.txt')));
+check('renames files', !existsSync(join(dir, 'old.txt')) && read('renamed.txt') === 'keep me\n');
+check('reports renames in the diff', result.diff.some((d) => d.status === 'renamed' && d.oldPath.endsWith('old.txt')));
+
+await restoreCheckpoints([checkpoint.id]);
+check('checkpoint undoes every change', read('a.txt') === lines.join('\n') + '\n' && read('gone.txt') === 'bye\n' && read('old.txt') === 'keep me\n' && !existsSync(join(dir, 'renamed.txt')) && !existsSync(join(dir, 'new/created.txt')));
+console.log();
+
+// Test 3: all-or-nothing
+console.log('📋 Test 3: failures');
+const bad = await apply([
+  '--- a/a.txt',
+  '+++ b/a.txt',
+  '@@ -1,2 +1,2 @@',
+  ' line 1',
+  '-line 2',
+  '+line two',
+  '@@ -10,2 +10,2 @@',
+  ' nothing like this',
+  '-in the file',
+  '+x',
+  '--- /dev/null',
+  '+++ b/other.txt',
+  '@@ -0,0 +1 @@',
+  '+new',
+].join('\n'));
+check('fails when a hunk does not apply', !bad.success && bad.error.includes('✗ hunk 2'));
+check('reports hunks that would have applied', bad.error.includes('✓ hunk 1'));
+check('changes nothing', read('a.txt') === lines.join('\n') + '\n' && !existsSync(join(dir, 'other.txt')));
+
+const exists = await apply('--- /dev/null\n+++ b/a.txt\n@@ -0,0 +1 @@\n+x\n');
+check('refuses to create over an existing file', !exists.success && exists.error.includes('already exists'));
+check('rejects text that is not a diff', !(await apply('just some text')).success);
+console.log();
+
+rmSync(dir, { recursive: true, force: true });
+rmSync(home, { recursive: true, force: true });
+
+console.log(failed === 0 ? '🏁 Patch Tests Passed' : `🏁 ${failed} check(s) failed`);
+process.exit(failed === 0 ? 0 : 1);
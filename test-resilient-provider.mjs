@@ -0,0 +1,77 @@
+#!/usr/bin/env node
+/**
+ * Test ResilientProvider retry, Retry-After and fallback behaviour
+ */
+
+import { ResilientProvider, ProviderError } from './dist/ai/index.js';
+
+console.log('🔍 Testing Resilient Provider\n');
+
+let failed = 0;
+const check = (label, ok) => {
+  console.log(`${ok ? '✅' : '❌'} ${label}`);
+  if (!ok) failed++;
+};
+
+// Fake provider that fails with the given statuses before succeeding
+function fakeProvider(name, statuses) {
+  let calls = 0;
+  return {
+    name,
+    get calls() { return calls; },
+    async chat() {
+      const status = statuses[calls++];
+      if (status) throw new ProviderError(`${name} error ${status}`, status, 0);
+      return { id: '1', model: name, content: `hello from ${name}`, finishReason: 'stop' };
+    },
+    async *chatStream() {
+      const status = statuses[calls++];
+      if (status) {
+        yield { type: 'error', error: `${name} error ${status}`, status, retryAfterMs: 0 };
+        return;
+      }
+      yield { type: 'text', content: `hello from ${name}` };
+      yield { type: 'done' };
+    },
+  };
+}
+
+const retry = { maxRetries: 2, baseDelayMs: 1, maxDelayMs: 5 };
+
+// Test 1: retries transient errors on the same provider
+console.log('📋 Test 1: retry 429/503');
+const flaky = fakeProvider('primary', [429, 503]);
+const r1 = await new ResilientProvider([{ id: 'primary', provider: flaky, primary: true }], retry).chat({ messages: [] });
+check('succeeds after two retries', r1.content === 'hello from primary' && flaky.calls === 3);
+check('reports answering provider', r1.provider === 'primary');
+console.log();
+
+// Test 2: falls back once the budget is exhausted
+console.log('📋 Test 2: fallback chain (stream)');
+const down = fakeProvider('primary', [500, 500, 500]);
+const backup = fakeProvider('backup', []);
+const chunks = [];
+const resilient = new ResilientProvider([
+  { id: 'primary', provider: down, primary: true },
+  { id: 'backup', provider: backup, primary: false },
+], retry);
+for await (const chunk of resilient.chatStream({ messages: [] })) chunks.push(chunk);
+check('exhausts the primary budget', down.calls === 3);
+check('emits retry notices', chunks.filter((c) => c.type === 'retry').length === 3);
+check('announces the fallback provider', chunks.find((c) => c.type === 'provider')?.provider === 'backup');
+check('streams the fallback answer', chunks.some((c) => c.type === 'text' && c.content === 'hello from backup'));
+console.log();
+
+// Test 3: non-retryable errors skip straight to the fallback
+console.log('📋 Test 3: non-retryable 401');
+const unauthorized = fakeProvider('primary', [401]);
+const r3 = await new ResilientProvider([
+  { id: 'primary', provider: unauthorized, primary: true },
+  { id: 'backup', provider: fakeProvider('backup', []), primary: false },
+], retry).chat({ messages: [] });
+check('does not retry 401', unauthorized.calls === 1);
+check('answers from fallback', r3.provider === 'backup');
+console.log();
+
+console.log(failed === 0 ? '🏁 Resilient Provider Tests Passed' : `🏁 ${failed} check(s) failed`);
+process.exit(failed === 0 ? 0 : 1);
@@ -0,0 +1,150 @@
+#!/usr/bin/env node
+/**
+ * Regression tests: hostile tool arguments must never reach a shell or be
+ * read as program options
+ */
+
+import { mkdtempSync, mkdirSync, rmSync, writeFileSync, existsSync } from 'fs';
+import { execFileSync } from 'child_process';
+import { tmpdir } from 'os';
+import { join } from 'path';
+
+// Config is read from the home directory, so point it somewhere disposable
+const home = mkdtempSync(join(tmpdir(), 'zesbe-home-'));
+process.env.HOME = home;
+process.env.GIT_AUTHOR_NAME = process.env.GIT_COMMITTER_NAME = 'Test';
+process.env.GIT_AUTHOR_EMAIL = process.env.GIT_COMMITTER_EMAIL = 'test@example.com';
+
+const { executeTool } = await import('./dist/tools/index.js');
+const { Workspace } = await import('./dist/tools/workspace.js');
+const { runProcess } = await import('./dist/tools/process.js');
+
+console.log('🔍 Testing tool argument injection\n');
+
+let failed = 0;
+const check = (label, ok) => {
+  console.log(`${ok ? '✅' : '❌'} ${label}`);
+  if (!ok) failed++;
+};
+
+const repo = mkdtempSync(join(tmpdir(), 'zesbe-injection-'));
+const canary = join(repo, 'PWNED');
+execFileSync('git', ['init', '-q'], { cwd: repo });
+writeFileSync(join(repo, 'a.js'), 'const value = 1;\n');
+execFileSync('git', ['add', '.'], { cwd: repo });
+execFileSync('git', ['commit', '-qm', 'init'], { cwd: repo });
+process.chdir(repo);
+
+const workspace = new Workspace({ root: repo });
+const run = (name, args) => executeTool(name, args, { workspace });
+
+const PAYLOADS = [
+  `"; touch ${canary}; echo "`,
+  `'; touch ${canary}; echo '`,
+  `$(touch ${canary})`,
+  `\`touch ${canary}\``,
+  `x | touch ${canary}`,
+  `x && touch ${canary}`,
+  `x\ntouch ${canary}`,
+];
+
+// Every tool argument that used to be spliced into a shell string
+const CALLS = [
+  (p) => ['search_code', { pattern: p }],
+  (p) => ['search_code', { pattern: 'value', file_pattern: p }],
+  (p) => ['glob_files', { pattern: p }],
+  (p) => ['list_directory', { path: p, recursive: 'true' }],
+  (p) => ['tree', { path: p }],
+  (p) => ['diff_files', { file1: 'a.js', file2: p }],
+  (p) => ['find_definition', { symbol: p }],
+  (p) => ['find_references', { symbol: p }],
+  (p) => ['batch_edit', { pattern: p, old_text: 'x', new_text: 'y' }],
+  (p) => ['web_fetch', { url: p }],
+  (p) => ['git_diff', { file: p }],
+  (p) => ['git_log', { count: p }],
+  (p) => ['git_branch', { action: 'create', name: p }],
+  (p) => ['git_branch', { action: 'switch', name: p }],
+  (p) => ['git_stash', { action: 'show', index: p }],
+  (p) => ['git_stash', { action: 'push', message: p }],
+  (p) => ['git_add', { files: p }],
+  (p) => ['git_reset', { commit: p }],
+  (p) => ['git_reset', { files: p }],
+  (p) => ['package_manager', { action: 'add', packages: p }],
+  (p) => ['run_tests', { filter: p }],
+];
+
+// Test 1: shell metacharacters
+console.log('📋 Test 1: shell metacharacters');
+for (const call of CALLS) {
+  const [name, sample] = call('…');
+  const key = Object.keys(sample).find((k) => sample[k] === '…');
+  for (const payload of PAYLOADS) {
+    const [, args] = call(payload);
+    await run(name, args);
+  }
+  check(`${name} ${key}: nothing executed`, !existsSync(canary));
+}
+console.log();
+
+// Test 2: values arrive verbatim
+console.log('📋 Test 2: literal arguments');
+writeFileSync(join(repo, 'b.js'), `const s = "$(whoami)";\n`);
+const search = await run('search_code', { pattern: '$(whoami)' });
+check('search_code matches the literal pattern', search.output.includes('b.js:1:'));
+writeFileSync(join(repo, 'a.js'), 'const value = 2;\n');
+const commit = await run('git_commit', { message: `"; touch ${canary}; echo "`, all: 'true' });
+const subject = execFileSync('git', ['log', '-1', '--format=%s'], { cwd: repo, encoding: 'utf-8' }).trim();
+check('git_commit keeps the message literally', commit.success && subject === `"; touch ${canary}; echo "` && !existsSync(canary));
+const log = await run('git_log', { count: '1' });
+check('git_log formats without shell quoting', log.success && log.output.includes('<Test>') && !log.output.startsWith("'"));
+console.log();
+
+// Test 3: option injection
+console.log('📋 Test 3: option injection');
+const rejected = async (name, args, text) => {
+  const result = await run(name, args);
+  return !result.success && result.error.includes(text);
+};
+check('branch names cannot be options', await rejected('git_branch', { action: 'create', name: '--help' }, 'Invalid branch name'));
+check('branch names cannot be ranges', await rejected('git_branch', { action: 'switch', name: 'main..evil' }, 'Invalid branch name'));
+check('reset targets cannot be options', await rejected('git_reset', { commit: '--hard' }, 'Invalid commit'));
+check('reset modes are checked', await rejected('git_reset', { commit: 'HEAD', mode: 'keep --hard' }, 'Invalid reset mode'));
+check('stash indexes must be numbers', await rejected('git_stash', { action: 'drop', index: '0} --all' }, 'Invalid stash index'));
+check('packages cannot be options', await rejected('package_manager', { action: 'add', packages: 'left-pad --registry=http://evil' }, 'Invalid package'));
+check('test filters cannot be options', await rejected('run_tests', { filter: '--config=evil.js' }, 'Invalid test filter'));
+check('symbols must be identifiers', await rejected('find_definition', { symbol: 'a|b' }, 'Invalid symbol'));
+check('only http(s) URLs are fetched', await rejected('web_fetch', { url: 'file:///etc/passwd' }, 'Only http and https'));
+check('URLs cannot be options', await rejected('web_fetch', { url: '-o/tmp/evil' }, 'Invalid URL'));
+const added = await run('git_add', { files: '-A' });
+check('git_add treats files as paths', !added.success && added.error.includes('Invalid file'));
+console.log();
+
+// Test 4: project detection
+console.log('📋 Test 4: project detection');
+const DETECTED = ['run_tests', 'lint_code', 'build_project', 'format_code', 'audit_security'];
+mkdirSync(join(repo, 'empty'));
+mkdirSync(join(repo, 'rust'));
+writeFileSync(join(repo, 'rust', 'Cargo.toml'), '');
+const empty = await Promise.all(DETECTED.map((name) => run(name, { path: 'empty' })));
+check('nothing to detect is reported', empty.every((r) => r.success && r.output.startsWith('Could not detect')));
+const rust = await Promise.all(DETECTED.map((name) => run(name, { path: 'rust' })));
+check('non-Node projects are detected', rust.every((r) => !JSON.stringify(r).includes('cannot be empty') && !JSON.stringify(r).includes('Could not detect')));
+console.log();
+
+// Test 5: output reaches the model intact
+console.log('📋 Test 5: output encoding');
+// "€ ü" written a byte at a time, so characters are split across chunks
+const bytes = JSON.stringify([...Buffer.from('€ ü\n')]);
+const script = `const b = ${bytes}; let i = 0; const next = () => { for (const s of [process.stdout, process.stderr]) s.write(Buffer.from([b[i]])); if (++i < b.length) setTimeout(next, 20); }; next();`;
+const lines = [];
+const split = await runProcess(process.execPath, ['-e', script], { onLine: (line, stream) => lines.push(`${stream}:${line}`) });
+check('multi-byte characters split across chunks survive', split.stdout === '€ ü\n' && split.stderr === '€ ü\n');
+check('and so do streamed lines', lines.sort().join() === 'stderr:€ ü,stdout:€ ü');
+console.log();
+
+process.chdir(tmpdir());
+rmSync(repo, { recursive: true, force: true });
+rmSync(home, { recursive: true, force: true });
+
+console.log(failed === 0 ? '🏁 Injection Tests Passed' : `🏁 ${failed} check(s) failed`);
+process.exit(failed === 0 ? 0 : 1);
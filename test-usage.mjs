@@ -0,0 +1,95 @@
+#!/usr/bin/env node
+/**
+ * Test model pricing and usage aggregation: price lookup, per-turn and
+ * per-session totals, unpriced requests and the grouped summaries
+ */
+
+import { getModelPrice, calculateCost, formatCost } from './dist/ai/index.js';
+import {
+  createUsageRecord,
+  combineUsage,
+  sumUsage,
+  summarizeUsage,
+  formatTokens,
+  formatTotals,
+  formatSessionUsage,
+} from './dist/utils/usage.js';
+
+console.log('🔍 Testing usage and pricing\n');
+
+let failed = 0;
+const check = (label, ok) => {
+  console.log(`${ok ? '✅' : '❌'} ${label}`);
+  if (!ok) failed++;
+};
+
+const near = (a, b) => a !== undefined && Math.abs(a - b) < 1e-12;
+const usage = (promptTokens, completionTokens) => ({ promptTokens, completionTokens, totalTokens: promptTokens + completionTokens });
+const record = (model, prompt, completion, cost, timestamp = '2026-10-19T12:00:00.000Z', provider = 'anthropic') =>
+  ({ timestamp, provider, model, promptTokens: prompt, completionTokens: completion, totalTokens: prompt + completion, cost });
+
+// Test 1: price lookup
+console.log('📋 Test 1: prices');
+check('exact model names', getModelPrice('gpt-4o')?.input === 2.5);
+check('dated variants match by prefix', getModelPrice('claude-sonnet-4-20250514')?.output === 15);
+check('the longest prefix wins', getModelPrice('gpt-4o-mini-2024-07-18')?.input === 0.15);
+check('vendor/model ids fall back to the model', getModelPrice('anthropic/claude-3-5-haiku')?.input === 0.8);
+check('local models are free', getModelPrice('llama3', 'ollama')?.input === 0 && calculateCost('llama3', usage(1000, 1000), 'ollama') === 0);
+check('unknown models have no price', getModelPrice('mystery-model') === undefined && calculateCost('mystery-model', usage(10, 10)) === undefined);
+check('overrides add and replace prices', getModelPrice('mystery-model', undefined, { 'mystery-model': { input: 1, output: 2 } })?.output === 2 && getModelPrice('gpt-4o', undefined, { 'gpt-4o': { input: 9, output: 9 } })?.input === 9);
+check('cost is per million tokens', near(calculateCost('claude-sonnet-4', usage(1_000_000, 100_000)), 3 + 1.5));
+check('costs format with sub-cent precision', formatCost(0) === '$0.00' && formatCost(0.00123) === '$0.0012' && formatCost(1.5) === '$1.50');
+console.log();
+
+// Test 2: records and totals
+console.log('📋 Test 2: records');
+const priced = createUsageRecord('anthropic', 'claude-sonnet-4', usage(2000, 500));
+check('records are priced from the table', near(priced.cost, (2000 * 3 + 500 * 15) / 1e6) && priced.totalTokens === 2500);
+check('records of unknown models are unpriced', createUsageRecord('x', 'mystery-model', usage(1, 1)).cost === undefined);
+check('price overrides apply', createUsageRecord('x', 'mystery-model', usage(1_000_000, 0), { 'mystery-model': { input: 2, output: 0 } }).cost === 2);
+const turn = combineUsage([record('m', 100, 10, 0.1), record('m', 200, 20, 0.2, '2026-10-19T12:00:05.000Z')]);
+check('a turn sums its requests', turn.promptTokens === 300 && turn.completionTokens === 30 && turn.totalTokens === 330 && near(turn.cost, 0.3));
+check('a turn takes the time of its last request', turn.timestamp === '2026-10-19T12:00:05.000Z');
+check('one unpriced request leaves the turn unpriced', combineUsage([record('m', 1, 1, 0.1), record('m', 1, 1, undefined)]).cost === undefined);
+check('an empty turn has no usage', combineUsage([]) === undefined);
+const totals = sumUsage([record('a', 100, 10, 0.5), record('b', 50, 5, undefined), record('c', 10, 1, 0.25)]);
+check('totals count requests and tokens', totals.requests === 3 && totals.promptTokens === 160 && totals.completionTokens === 16 && totals.totalTokens === 176);
+check('totals sum the priced cost and count the rest', near(totals.cost, 0.75) && totals.unpriced === 1);
+check('totals flag unpriced requests', formatTotals(totals).includes('$0.75 (+1 unpriced)') && !formatTotals(sumUsage([record('a', 1, 1, 0)])).includes('unpriced'));
+check('tokens format compactly', formatTokens(999) === '999' && formatTokens(12_345) === '12.3k' && formatTokens(2_500_000) === '2.50M');
+console.log();
+
+// Test 3: summaries across sessions
+console.log('📋 Test 3: summaries');
+const day = 24 * 60 * 60 * 1000;
+const ago = (days) => new Date(Date.now() - days * day).toISOString();
+const session = (usage) => ({ id: 's', title: 't', provider: 'p', model: 'm', createdAt: ago(0), updatedAt: ago(0), messages: [], usage });
+const sessions = [
+  session([record('claude-sonnet-4', 1000, 100, 1, ago(0)), record('gpt-4o', 10, 10, 3, ago(0), 'openai')]),
+  session([record('claude-sonnet-4', 500, 50, 0.5, ago(3)), record('mystery-model', 9999, 1, undefined, ago(10), 'local')]),
+  session(undefined),
+];
+const byModel = summarizeUsage(sessions, 'model');
+check('groups by model, costliest first', byModel.map((r) => r.key).join() === 'gpt-4o,claude-sonnet-4,mystery-model');
+check('groups sum across sessions', byModel[1].requests === 2 && byModel[1].promptTokens === 1500 && near(byModel[1].cost, 1.5));
+check('unpriced groups are kept', byModel[2].unpriced === 1 && byModel[2].cost === 0);
+const byDay = summarizeUsage(sessions, 'day');
+check('groups by day, newest first', byDay.length === 3 && byDay[0].key === ago(0).slice(0, 10) && byDay[2].key === ago(10).slice(0, 10));
+check('groups by provider', summarizeUsage(sessions, 'provider').map((r) => r.key).join() === 'openai,anthropic,local');
+check('sinceDays drops older records', summarizeUsage(sessions, 'model', 7).every((r) => r.key !== 'mystery-model'));
+console.log();
+
+// Test 4: the /usage report
+console.log('📋 Test 4: /usage');
+check('an empty session says so', formatSessionUsage(session([])).startsWith('No token usage'));
+const report = formatSessionUsage({
+  ...sessions[0],
+  messages: [{ role: 'assistant', content: 'hi', timestamp: ago(0), usage: record('gpt-4o', 10, 10, 3, ago(0)) }],
+});
+check('the report totals the session', report.includes('1.0k in / 110 out') && report.includes('$4.00') && report.includes('2 requests'));
+check('and lists each model', report.includes('**gpt-4o**') && report.includes('**claude-sonnet-4**'));
+check('and the last turn', report.includes('Last turn: 20 tokens • $3.00'));
+console.log();
+
+console.log(failed === 0 ? '🏁 Usage Tests Passed' : `🏁 ${failed} check(s) failed`);
+process.exit(failed === 0 ? 0 : 1);
@@ -0,0 +1,120 @@
+#!/usr/bin/env node
+/**
+ * Test the workspace sandbox: root, allow/deny globs and symlink escapes
+ */
+
+import { mkdtempSync, mkdirSync, rmSync, readFileSync, writeFileSync, symlinkSync, existsSync, chmodSync } from 'fs';
+import { tmpdir } from 'os';
+import { join } from 'path';
+
+// Config is read from the home directory, so point it somewhere disposable
+const home = mkdtempSync(join(tmpdir(), 'zesbe-home-'));
+process.env.HOME = home;
+
+const { executeTool } = await import('./dist/tools/index.js');
+const { Workspace, loadWorkspace, pathGlobToRegExp } = await import('./dist/tools/workspace.js');
+
+console.log('🔍 Testing workspace sandbox\n');
+
+let failed = 0;
+const check = (label, ok) => {
+  console.log(`${ok ? '✅' : '❌'} ${label}`);
+  if (!ok) failed++;
+};
+
+const root = mkdtempSync(join(tmpdir(), 'zesbe-workspace-'));
+const outside = mkdtempSync(join(tmpdir(), 'zesbe-outside-'));
+mkdirSync(join(root, 'src'));
+mkdirSync(join(root, 'certs'));
+writeFileSync(join(root, 'src/app.js'), 'const token = process.env.TOKEN;\n');
+writeFileSync(join(root, '.env'), 'TOKEN=secret\n');
+writeFileSync(join(root, 'certs/server.pem'), 'TOKEN pem\n');
+writeFileSync(join(outside, 'secret.txt'), 'TOKEN outside\n');
+symlinkSync(join(outside, 'secret.txt'), join(root, 'link.txt'));
+symlinkSync(outside, join(root, 'linked-dir'));
+symlinkSync(join(root, '.env'), join(root, 'env-link'));
+
+const workspace = new Workspace({ root, deny: ['.env', '*.pem'] });
+const run = (name, args, ws = workspace) => executeTool(name, args, { workspace: ws });
+const denied = (result, text) => !result.success && result.error.startsWith('Access denied') && result.error.includes(text);
+
+// Test 1: globs
+console.log('📋 Test 1: globs');
+check('"*" stays within a segment', pathGlobToRegExp('*.pem').test('a.pem') && !pathGlobToRegExp('*.pem').test('a/b.pem'));
+check('"**/" spans directories', pathGlobToRegExp('src/**/*.ts').test('src/a/b/c.ts') && pathGlobToRegExp('src/**/*.ts').test('src/c.ts'));
+check('"dir/**" matches the directory itself', pathGlobToRegExp('/tmp/**').test('/tmp') && pathGlobToRegExp('/tmp/**').test('/tmp/a/b'));
+console.log();
+
+// Test 2: root and deny globs
+console.log('📋 Test 2: root and deny globs');
+check('reads inside the root', (await run('read_file', { path: join(root, 'src/app.js') })).success);
+check('rejects absolute paths outside', denied(await run('read_file', { path: '/etc/passwd' }), 'outside the workspace'));
+check('rejects ../ escapes', denied(await run('read_file', { path: join(root, '../', 'etc') }), 'outside the workspace'));
+check('rejects denied names anywhere', denied(await run('read_file', { path: join(root, '.env') }), '".env"'));
+check('rejects denied patterns in subdirectories', denied(await run('read_file', { path: join(root, 'certs/server.pem') }), '"*.pem"'));
+check('rejects writes to denied files', denied(await run('write_file', { path: join(root, '.env'), content: 'x' }), '".env"') && readFileSync(join(root, '.env'), 'utf-8') === 'TOKEN=secret\n');
+check('writes new files in new directories', (await run('write_file', { path: join(root, 'new/dir/a.txt'), content: 'x' })).success);
+check('checks both diff_files paths', denied(await run('diff_files', { file1: join(root, 'src/app.js'), file2: '/etc/hostname' }), 'outside'));
+console.log();
+
+// Test 3: symlinks
+console.log('📋 Test 3: symlinks');
+check('rejects file symlinks that leave the root', denied(await run('read_file', { path: join(root, 'link.txt') }), 'symlink'));
+check('rejects writes through directory symlinks', denied(await run('write_file', { path: join(root, 'linked-dir/new.txt'), content: 'x' }), 'symlink') && !existsSync(join(outside, 'new.txt')));
+check('rejects symlinks to denied files', denied(await run('read_file', { path: join(root, 'env-link') }), '".env"'));
+console.log();
+
+// Test 4: searches
+console.log('📋 Test 4: searches');
+const search = await run('search_code', { pattern: 'TOKEN', path: root, file_pattern: '*' });
+check('search_code hides denied files', search.success && search.output.includes('app.js') && !search.output.includes('secret') && !search.output.includes('server.pem'));
+const glob = await run('glob_files', { pattern: '*.pem', path: root });
+check('glob_files hides denied files', glob.output === 'No files found');
+const list = await run('list_directory', { path: root });
+check('list_directory hides denied files', list.output.includes('src') && !list.output.includes('.env'));
+const tree = await run('tree', { path: root });
+check('tree hides denied files', tree.success && tree.output.includes('app.js') && !tree.output.includes('.env') && !tree.output.includes('server.pem'));
+// A stand-in for the native tree command, printing what tree -f does
+const bin = mkdtempSync(join(tmpdir(), 'zesbe-bin-'));
+writeFileSync(join(bin, 'tree'), `#!/bin/sh
+for dir; do :; done
+printf '%s\\n' "$dir" "├── $dir/.env" "├── $dir/certs" "│   └── $dir/certs/server.pem" "└── $dir/src" "    └── $dir/src/app.js -> $dir/other.js"
+`);
+chmodSync(join(bin, 'tree'), 0o755);
+const path = process.env.PATH;
+process.env.PATH = `${bin}:${path}`;
+const native = await run('tree', { path: root });
+process.env.PATH = path;
+rmSync(bin, { recursive: true, force: true });
+check('so does native tree output', native.output.trimEnd() === [root, '├── certs', '└── src', '    └── app.js -> ' + root + '/other.js'].join('\n'));
+check('searches outside the root are rejected', denied(await run('search_code', { pattern: 'TOKEN', path: outside }), 'outside'));
+console.log();
+
+// Test 5: patches and allow globs
+console.log('📋 Test 5: patches and allow globs');
+const patch = await run('apply_patch', { path: root, patch: '--- a/src/app.js\n+++ b/src/app.js\n@@ -1 +1 @@\n-const token = process.env.TOKEN;\n+const token = 1;\n--- /dev/null\n+++ b/../escape.txt\n@@ -0,0 +1 @@\n+x\n' });
+check('apply_patch rejects files outside the root', !patch.success && patch.error.includes('outside the workspace') && readFileSync(join(root, 'src/app.js'), 'utf-8').includes('process.env'));
+const allowing = new Workspace({ root, allow: [`${outside}/**`], deny: ['.env'] });
+check('allow globs open paths outside the root', (await run('read_file', { path: join(outside, 'secret.txt') }, allowing)).success);
+check('allowed symlink targets are readable', (await run('read_file', { path: join(root, 'link.txt') }, allowing)).success);
+check('no workspace means no checks', (await executeTool('read_file', { path: join(outside, 'secret.txt') })).success);
+console.log();
+
+// Test 6: config
+console.log('📋 Test 6: config');
+const fromConfig = await loadWorkspace(root);
+check('defaults to the working directory', fromConfig?.root === root);
+check('denies secrets by default', denied(await run('read_file', { path: join(root, '.env') }, fromConfig), '.env'));
+mkdirSync(join(home, '.zesbe-modern'), { recursive: true });
+writeFileSync(join(home, '.zesbe-modern/config.json'), JSON.stringify({ workspace: { enabled: false } }));
+check('can be turned off', (await loadWorkspace(root)) === null);
+writeFileSync(join(home, '.zesbe-modern/config.json'), JSON.stringify({ workspace: { root: 'src' } }));
+check('resolves a relative root', (await loadWorkspace(root))?.root === join(root, 'src'));
+console.log();
+
+rmSync(root, { recursive: true, force: true });
+rmSync(outside, { recursive: true, force: true });
+rmSync(home, { recursive: true, force: true });
+
+console.log(failed === 0 ? '🏁 Workspace Tests Passed' : `🏁 ${failed} check(s) failed`);
+process.exit(failed === 0 ? 0 : 1);